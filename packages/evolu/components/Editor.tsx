@@ -12,6 +12,7 @@ export const Editor = memo(
       <EditorServer
         element={props.value.element}
         renderElement={props.renderElement}
+        normalizationRules={props.normalizationRules}
         className={props.className}
         id={props.id}
         style={props.style}
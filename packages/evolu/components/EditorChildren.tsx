@@ -2,8 +2,17 @@ import React, { memo } from 'react';
 import { empty } from 'fp-ts/lib/Array';
 import { RenderElementContext } from '../hooks/useRenderElement';
 import { SetNodePathContext } from '../hooks/useSetDOMNodePathRef';
+import {
+  emptyTextDecorations,
+  TextDecorationsContext,
+} from '../hooks/useTextDecorations';
 import { ElementRenderer } from './ElementRenderer';
-import { SetDOMNodePath, RenderElement, Element } from '../types';
+import {
+  SetDOMNodePath,
+  RenderElement,
+  Element,
+  TextDecoration,
+} from '../types';
 import { renderReactElement } from '../models/element';
 
 export const EditorChildren = memo(
@@ -11,17 +20,21 @@ export const EditorChildren = memo(
     setDOMNodePath,
     renderElement,
     element,
+    textDecorations = emptyTextDecorations,
   }: {
     setDOMNodePath: SetDOMNodePath;
     renderElement?: RenderElement;
     element: Element;
+    textDecorations?: Map<string, TextDecoration[]>;
   }) => {
     return (
       <SetNodePathContext.Provider value={setDOMNodePath}>
         <RenderElementContext.Provider
           value={renderElement || renderReactElement}
         >
-          <ElementRenderer element={element} path={empty} />
+          <TextDecorationsContext.Provider value={textDecorations}>
+            <ElementRenderer element={element} path={empty} />
+          </TextDecorationsContext.Provider>
         </RenderElementContext.Provider>
       </SetNodePathContext.Provider>
     );
@@ -1,38 +1,155 @@
-import React, { forwardRef, memo, useImperativeHandle, useRef } from 'react';
+import { identity } from 'fp-ts/lib/function';
+import { fold, none, Option } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import React, {
+  forwardRef,
+  memo,
+  useCallback,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useAfterTyping } from '../hooks/useAfterTyping';
 import { useBeforeInput } from '../hooks/useBeforeInput';
 import { useDOMNodesPathsMap } from '../hooks/useDOMNodesPathsMap';
 import { useEditorIO } from '../hooks/useEditorIO';
 import { useSelection } from '../plugins/useSelection';
-import { EditorIO, EditorProps } from '../types';
+import {
+  DecorationAttrs,
+  EditorIO,
+  EditorProps,
+  FindQuery,
+  Selection,
+} from '../types';
 import { EditorElement } from './EditorElement';
 import { EditorChildren } from './EditorChildren';
 import { useSelectionChange } from '../hooks/useSelectionChange';
 import { useFocus } from '../plugins/useFocus';
 import { useValue } from '../hooks/useValue';
 import { useInsertText } from '../plugins/useInsertText';
+import { useComposition } from '../plugins/useComposition';
+import { useInputRules } from '../plugins/useInputRules';
 import { useInsertReplacementText } from '../plugins/useInsertReplacementText';
 import { useDeleteContent } from '../plugins/useDeleteContent';
+import { useDeleteWordAndLine } from '../plugins/useDeleteWordAndLine';
+import { useInsertParagraph } from '../plugins/useInsertParagraph';
+import { useInsertLineBreak } from '../plugins/useInsertLineBreak';
+import { useHistory } from '../plugins/useHistory';
+import { useMarks } from '../plugins/useMarks';
+import { useInsertFromPaste } from '../plugins/useInsertFromPaste';
+import { useDragAndDrop } from '../plugins/useDragAndDrop';
+import { useClipboard } from '../plugins/useClipboard';
+import { useLists } from '../plugins/useLists';
+import { EditorRemoteSelections } from './EditorRemoteSelections';
+import { EditorDropCaret } from './EditorDropCaret';
+import { findMatches } from '../models/find';
+import { getTextDecorations } from '../models/decoration';
+import { normalizeValueWithRules } from '../models/normalize';
+import { reactListConfig } from '../models/list';
+
+const findMatchAttrs: DecorationAttrs = {
+  'data-find-match': '',
+  style: { backgroundColor: 'rgba(255, 212, 0, 0.4)' },
+};
 
 export const EditorClient = memo(
   forwardRef<EditorIO, EditorProps>(
-    ({ value, onChange, renderElement, ...rest }, ref) => {
+    (
+      {
+        value,
+        onChange,
+        renderElement,
+        historyDepth,
+        transformPastedFragment,
+        quotePastedFragment,
+        onOperations,
+        remoteSelections,
+        schema,
+        repairElement,
+        normalizationRules,
+        inputRules = [],
+        decorate,
+        onDropFiles,
+        listConfig = reactListConfig,
+        ...rest
+      },
+      ref,
+    ) => {
       const elementRef = useRef<HTMLDivElement>(null);
-      const [getValue, setValue, modifyValue] = useValue(value, onChange);
+      // Without rules, the value is not normalized, because edits
+      // normalize changed elements themselves.
+      const normalize = useMemo(
+        () =>
+          normalizationRules
+            ? normalizeValueWithRules(normalizationRules)
+            : identity,
+        [normalizationRules],
+      );
+      // The same as EditorServer renders.
+      const normalizedValue = useMemo(() => normalize(value), [
+        normalize,
+        value,
+      ]);
+      // Rejected change can be already rendered by the browser, so children
+      // are rendered from the value again.
+      const [childrenKey, setChildrenKey] = useState(0);
+      const renderChildrenAgain = useCallback(() => {
+        setChildrenKey(key => key + 1);
+      }, []);
+      const [getValue, setValue, modifyValue, applyOperations] = useValue(
+        normalizedValue,
+        onChange,
+        onOperations,
+        schema,
+        repairElement,
+        normalize,
+        renderChildrenAgain,
+      );
       const { afterTyping, isTyping } = useAfterTyping();
+      const [findQuery, setFindQuery] = useState<Option<FindQuery>>(none);
+      const [dropSelection, setDropSelection] = useState<Option<Selection>>(
+        none,
+      );
+      // Recomputed for every value, so decorations follow edits.
+      const textDecorations = useMemo(() => {
+        const findMatchesDecorations = pipe(
+          findQuery,
+          fold(
+            () => [],
+            ({ query, options }) =>
+              findMatches(
+                query,
+                options,
+              )(normalizedValue.element).map(selection => ({
+                selection,
+                attrs: findMatchAttrs,
+              })),
+          ),
+        );
+        return getTextDecorations(normalizedValue.element, [
+          ...findMatchesDecorations,
+          ...(decorate ? decorate(normalizedValue) : []),
+        ]);
+      }, [decorate, findQuery, normalizedValue]);
       const {
         getDOMNodeByPath,
+        getDOMNodesByPath,
         getPathByDOMNode,
         setDOMNodePath,
-      } = useDOMNodesPathsMap(value.element);
+      } = useDOMNodesPathsMap(normalizedValue.element);
       const editorIO = useEditorIO(
         afterTyping,
+        applyOperations,
         elementRef,
         getDOMNodeByPath,
+        getDOMNodesByPath,
         getPathByDOMNode,
         getValue,
         isTyping,
         modifyValue,
+        setDropSelection,
+        setFindQuery,
         setValue,
       );
       useImperativeHandle(ref, () => editorIO);
@@ -43,17 +160,55 @@ export const EditorClient = memo(
       useSelection(defaultPluginRef);
       useFocus(defaultPluginRef);
       useInsertText(defaultPluginRef);
+      useComposition(defaultPluginRef);
+      useInputRules(defaultPluginRef, inputRules);
       useInsertReplacementText(defaultPluginRef);
       useDeleteContent(defaultPluginRef);
+      useDeleteWordAndLine(defaultPluginRef);
+      useInsertParagraph(defaultPluginRef);
+      useInsertLineBreak(defaultPluginRef);
+      useHistory(defaultPluginRef, historyDepth);
+      useMarks(defaultPluginRef);
+      useInsertFromPaste(
+        defaultPluginRef,
+        transformPastedFragment,
+        quotePastedFragment,
+      );
+      useDragAndDrop(defaultPluginRef, onDropFiles);
+      useClipboard(defaultPluginRef, renderElement);
+      useLists(defaultPluginRef, listConfig);
 
       return (
-        <EditorElement editorIO={editorIO} elementRef={elementRef} attrs={rest}>
-          <EditorChildren
-            setDOMNodePath={setDOMNodePath}
-            renderElement={renderElement}
-            element={value.element}
-          />
-        </EditorElement>
+        <>
+          <EditorElement
+            editorIO={editorIO}
+            elementRef={elementRef}
+            attrs={rest}
+          >
+            <EditorChildren
+              key={childrenKey}
+              setDOMNodePath={setDOMNodePath}
+              renderElement={renderElement}
+              element={normalizedValue.element}
+              textDecorations={textDecorations}
+            />
+          </EditorElement>
+          {pipe(
+            dropSelection,
+            fold(
+              () => null,
+              selection => (
+                <EditorDropCaret editorIO={editorIO} selection={selection} />
+              ),
+            ),
+          )}
+          {remoteSelections && (
+            <EditorRemoteSelections
+              editorIO={editorIO}
+              remoteSelections={remoteSelections}
+            />
+          )}
+        </>
       );
     },
   ),
@@ -0,0 +1,47 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { lookup } from 'fp-ts/lib/Array';
+import { flatten, fold, mapNullable, option } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { rectStyle, useSelectionsRects } from '../hooks/useSelectionsRects';
+import { EditorIO, Selection } from '../types';
+
+/**
+ * The caret of the place where dragged content would be dropped. It's
+ * rendered into document body like remote selections.
+ */
+export const EditorDropCaret = ({
+  editorIO,
+  selection,
+}: {
+  editorIO: EditorIO;
+  selection: Selection;
+}) => {
+  const selections = useMemo(() => [selection], [selection]);
+  const selectionsRects = useSelectionsRects(editorIO, selections);
+
+  return pipe(
+    sequenceT(option)(
+      pipe(
+        editorIO.getDocument(),
+        mapNullable(document => document.body),
+      ),
+      pipe(lookup(0, selectionsRects), flatten),
+    ),
+    fold(
+      () => null,
+      ([body, { caret }]) =>
+        createPortal(
+          <div
+            data-drop-caret
+            style={{
+              ...rectStyle({ ...caret, width: 2 }),
+              backgroundColor: '#000',
+            }}
+          />,
+          body,
+        ),
+    ),
+  );
+};
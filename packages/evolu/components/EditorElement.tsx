@@ -29,13 +29,87 @@ export const EditorElement = ({
     editorIO.onFocus.read()();
   }, [editorIO.onFocus]);
 
+  const handleCompositionStart = useCallback(
+    (event: React.CompositionEvent<HTMLDivElement>) => {
+      editorIO.onCompositionStart.read()(event.nativeEvent)();
+    },
+    [editorIO.onCompositionStart],
+  );
+
+  const handleCompositionEnd = useCallback(
+    (event: React.CompositionEvent<HTMLDivElement>) => {
+      editorIO.onCompositionEnd.read()(event.nativeEvent)();
+    },
+    [editorIO.onCompositionEnd],
+  );
+
+  const handleCopy = useCallback(
+    (event: React.ClipboardEvent<HTMLDivElement>) => {
+      editorIO.onCopy.read()(event.nativeEvent)();
+    },
+    [editorIO.onCopy],
+  );
+
+  const handleCut = useCallback(
+    (event: React.ClipboardEvent<HTMLDivElement>) => {
+      editorIO.onCut.read()(event.nativeEvent)();
+    },
+    [editorIO.onCut],
+  );
+
+  const handleDragStart = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      editorIO.onDragStart.read()(event.nativeEvent)();
+    },
+    [editorIO.onDragStart],
+  );
+
+  const handleDragOver = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      editorIO.onDragOver.read()(event.nativeEvent)();
+    },
+    [editorIO.onDragOver],
+  );
+
+  const handleDragLeave = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      editorIO.onDragLeave.read()(event.nativeEvent)();
+    },
+    [editorIO.onDragLeave],
+  );
+
+  const handleDragEnd = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      editorIO.onDragEnd.read()(event.nativeEvent)();
+    },
+    [editorIO.onDragEnd],
+  );
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLDivElement>) => {
+      editorIO.onKeyDown.read()(event.nativeEvent)();
+    },
+    [editorIO.onKeyDown],
+  );
+
   return (
+    // The role is textbox by default.
+    // eslint-disable-next-line jsx-a11y/no-static-element-interactions
     <div
       autoCorrect={autoCorrect}
       contentEditable
       data-gramm // Disable Grammarly Chrome extension.
       onBlur={handleBlur}
+      onCompositionEnd={handleCompositionEnd}
+      onCompositionStart={handleCompositionStart}
+      onCopy={handleCopy}
+      onCut={handleCut}
+      onDragEnd={handleDragEnd}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDragStart={handleDragStart}
       onFocus={handleFocus}
+      onKeyDown={handleKeyDown}
       ref={elementRef}
       role={role}
       spellCheck={spellCheck}
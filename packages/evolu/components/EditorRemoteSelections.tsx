@@ -0,0 +1,84 @@
+import { array, lookup } from 'fp-ts/lib/Array';
+import { flatten, fold, map, mapNullable } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { rectStyle, useSelectionsRects } from '../hooks/useSelectionsRects';
+import { EditorIO, RemoteSelection } from '../types';
+
+const labelHeight = 16;
+
+/**
+ * Carets and selections of collaborators rendered into document body, so
+ * the contentEditable DOM is not mutated. The component is not memoized, so
+ * it's repositioned on every editor render, and on window resize.
+ */
+export const EditorRemoteSelections = ({
+  editorIO,
+  remoteSelections,
+}: {
+  editorIO: EditorIO;
+  remoteSelections: RemoteSelection[];
+}) => {
+  const selections = useMemo(
+    () => remoteSelections.map(({ selection }) => selection),
+    [remoteSelections],
+  );
+  const selectionsRects = useSelectionsRects(editorIO, selections);
+
+  return pipe(
+    editorIO.getDocument(),
+    mapNullable(document => document.body),
+    fold(
+      () => null,
+      body =>
+        createPortal(
+          array.filterMapWithIndex(
+            remoteSelections,
+            (index, { id, name, color }) =>
+              pipe(
+                lookup(index, selectionsRects),
+                flatten,
+                map(({ caret, rects }) => (
+                  <div key={id} data-remote-selection={id}>
+                    {rects.map((rect, index) => (
+                      <div
+                        // eslint-disable-next-line react/no-array-index-key
+                        key={index}
+                        style={{
+                          ...rectStyle(rect),
+                          backgroundColor: color,
+                          opacity: 0.25,
+                        }}
+                      />
+                    ))}
+                    <div
+                      style={{
+                        ...rectStyle({ ...caret, width: 2 }),
+                        background: color,
+                      }}
+                    />
+                    <div
+                      style={{
+                        position: 'absolute',
+                        top: caret.top - labelHeight,
+                        left: caret.left,
+                        pointerEvents: 'none',
+                        padding: '0 2px',
+                        backgroundColor: color,
+                        color: '#fff',
+                        font: `11px/${labelHeight}px sans-serif`,
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {name}
+                    </div>
+                  </div>
+                )),
+              ),
+          ),
+          body,
+        ),
+    ),
+  );
+};
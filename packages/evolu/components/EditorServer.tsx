@@ -1,8 +1,9 @@
 import { constVoid } from 'fp-ts/lib/function';
 import React, { Fragment, memo } from 'react';
-import { normalizeElement, renderReactElement } from '../models/element';
+import { renderReactElement } from '../models/element';
+import { normalizeElementWithRules } from '../models/normalize';
 import { textIsBR } from '../models/text';
-import { Element, RenderElement } from '../types';
+import { Element, NormalizationRule, RenderElement } from '../types';
 
 interface ServerElementRendererProps {
   element: Element;
@@ -39,14 +40,18 @@ type ReactDivAtttributesUsefulForEditorServer = Pick<
 >;
 
 type EditorServerProps = ServerElementRendererProps &
-  ReactDivAtttributesUsefulForEditorServer;
+  ReactDivAtttributesUsefulForEditorServer & {
+    normalizationRules?: NormalizationRule[];
+  };
 
 /**
  * Just render. No edit. Good for performance and tree shaking.
  */
 export const EditorServer = memo<EditorServerProps>(
-  ({ element, renderElement, ...rest }) => {
-    const normalizedElement = normalizeElement(element);
+  ({ element, renderElement, normalizationRules = [], ...rest }) => {
+    const normalizedElement = normalizeElementWithRules(normalizationRules)(
+      element,
+    );
     return (
       <div {...rest}>
         <ServerElementRenderer
@@ -1,10 +1,12 @@
 /* eslint-env browser */
-import React, { Component, memo } from 'react';
+import React, { Component, Fragment, memo, ReactNode, useMemo } from 'react';
 import { findDOMNode } from 'react-dom';
 import { useSetDOMNodePathRef } from '../hooks/useSetDOMNodePathRef';
+import { useTextDecorations } from '../hooks/useTextDecorations';
+import { splitTextByDecorations } from '../models/decoration';
 import { eqPath } from '../models/path';
 import { stringIsBR } from '../models/string';
-import { SetDOMNodePathRef, NonEmptyPath } from '../types';
+import { SetDOMNodePathRef, NonEmptyPath, TextSegment } from '../types';
 import { DOMText } from '../types/dom';
 
 // Inspired by DraftEditorTextNode.
@@ -79,20 +81,56 @@ class Text extends Component<TextProps> {
   }
 }
 
+const TextSegmentRenderer = ({
+  text,
+  path,
+  index,
+}: {
+  text: string;
+  path: NonEmptyPath;
+  index: number;
+}) => {
+  const setNodePathRef = useSetDOMNodePathRef(path, index);
+  return (
+    <Text
+      // Reset when a path has been changed to enforce setNodePathRef update.
+      key={path.join()}
+      setNodePathRef={setNodePathRef}
+    >
+      {text}
+    </Text>
+  );
+};
+
+// Decorated texts are split into segments wrapped with spans. All segments
+// have the path of the text, and DOM offsets are mapped via their indexes.
 export const TextRenderer = memo<{
   text: string;
   path: NonEmptyPath;
 }>(
   ({ text, path }) => {
-    const setNodePathRef = useSetDOMNodePathRef(path);
+    const decorations = useTextDecorations(path);
+    const segments = useMemo<TextSegment[]>(
+      () =>
+        decorations.length === 0
+          ? [{ text, attrs: [] }]
+          : splitTextByDecorations(text, decorations),
+      [decorations, text],
+    );
     return (
-      <Text
-        // Reset when a path has been changed to enforce setNodePathRef update.
-        key={path.join()}
-        setNodePathRef={setNodePathRef}
-      >
-        {text}
-      </Text>
+      <>
+        {segments.map(({ text, attrs }, index) => (
+          // eslint-disable-next-line react/no-array-index-key
+          <Fragment key={index}>
+            {attrs.reduceRight<ReactNode>(
+              (children, attrs) => (
+                <span {...attrs}>{children}</span>
+              ),
+              <TextSegmentRenderer text={text} path={path} index={index} />,
+            )}
+          </Fragment>
+        ))}
+      </>
     );
   },
   (prevProps, nextProps) => {
@@ -10,19 +10,20 @@ import {
   Node,
   SetDOMNodePath,
   GetDOMNodeByPath,
+  GetDOMNodesByPath,
   GetPathByDOMNode,
   Path,
 } from '../types';
 
 const useDebugNodesPaths = (
-  domNodesPathsMap: Map<DOMNode, Path>,
+  pathsDOMNodesMap: Map<string, DOMNode>,
   element: Element,
 ) => {
   if (process.env.NODE_ENV !== 'production') {
     // eslint-disable-next-line react-hooks/rules-of-hooks
     useEffect(() => {
       // const nodes: [string, DOMNode][] = [];
-      // domNodesPathsMap.forEach((path, node) => {
+      // pathsDOMNodesMap.forEach((node, path) => {
       //   nodes.push([path.join(), node]);
       // });
       // console.log(nodes);
@@ -37,11 +38,12 @@ const useDebugNodesPaths = (
       };
       const domNodesLength = countNodes(element);
       // console.log(nodesLength, nodesPathsMap.size);
-      if (domNodesLength !== domNodesPathsMap.size)
+      // Decorated texts have several DOM nodes, so paths are counted.
+      if (domNodesLength !== pathsDOMNodesMap.size)
         warn(
           'It looks like the ref arg in the custom renderElement is not used.',
         );
-    }, [domNodesPathsMap, element]);
+    }, [pathsDOMNodesMap, element]);
   }
 };
 
@@ -54,34 +56,65 @@ export const useDOMNodesPathsMap = (
 ): {
   setDOMNodePath: SetDOMNodePath;
   getDOMNodeByPath: GetDOMNodeByPath;
+  getDOMNodesByPath: GetDOMNodesByPath;
   getPathByDOMNode: GetPathByDOMNode;
 } => {
   const nodesPathsMapRef = useRef<Map<DOMNode, Path>>(new Map());
   const pathsNodesMapRef = useRef<Map<string, DOMNode>>(new Map());
+  // Nodes of decorated texts by their indexes.
+  const pathsIndexedNodesMapRef = useRef<Map<string, DOMNode[]>>(new Map());
 
-  useDebugNodesPaths(nodesPathsMapRef.current, element);
+  useDebugNodesPaths(pathsNodesMapRef.current, element);
 
   const getDOMNodeByPath = useCallback<GetDOMNodeByPath>(
     path => () => pipe(pathsNodesMapRef.current.get(path.join()), fromNullable),
     [],
   );
 
+  const getDOMNodesByPath = useCallback<GetDOMNodesByPath>(
+    path => () => {
+      const key = path.join();
+      const nodes = pathsIndexedNodesMapRef.current.get(key);
+      if (nodes) return nodes.filter(Boolean);
+      const node = pathsNodesMapRef.current.get(key);
+      return node ? [node] : [];
+    },
+    [],
+  );
+
   const getPathByDOMNode = useCallback<GetPathByDOMNode>(
     node => () => pipe(nodesPathsMapRef.current.get(node), fromNullable),
     [],
   );
 
   const setDOMNodePath = useCallback<SetDOMNodePath>(
-    (operation, node, path) => {
+    (operation, node, path, index) => {
+      const key = path.join();
       switch (operation) {
-        case 'add':
+        case 'add': {
           nodesPathsMapRef.current.set(node, path);
-          pathsNodesMapRef.current.set(path.join(), node);
+          if (index == null || index === 0)
+            pathsNodesMapRef.current.set(key, node);
+          if (index != null) {
+            const nodes = pathsIndexedNodesMapRef.current.get(key) || [];
+            nodes[index] = node;
+            pathsIndexedNodesMapRef.current.set(key, nodes);
+          }
           break;
-        case 'remove':
+        }
+        case 'remove': {
           nodesPathsMapRef.current.delete(node);
-          pathsNodesMapRef.current.delete(path.join());
+          // The node can be already replaced by a new one.
+          if (pathsNodesMapRef.current.get(key) === node)
+            pathsNodesMapRef.current.delete(key);
+          const nodes = pathsIndexedNodesMapRef.current.get(key);
+          if (index != null && nodes && nodes[index] === node) {
+            delete nodes[index];
+            if (!nodes.some(Boolean))
+              pathsIndexedNodesMapRef.current.delete(key);
+          }
           break;
+        }
         default:
           absurd(operation);
       }
@@ -91,6 +124,7 @@ export const useDOMNodesPathsMap = (
   return {
     setDOMNodePath,
     getDOMNodeByPath,
+    getDOMNodesByPath,
     getPathByDOMNode,
   };
 };
@@ -1,14 +1,17 @@
 import { sequenceS, sequenceT } from 'fp-ts/lib/Apply';
-import { constVoid } from 'fp-ts/lib/function';
-import { io, map as mapIO } from 'fp-ts/lib/IO';
+import { constTrue, constVoid } from 'fp-ts/lib/function';
+import { IO } from 'fp-ts/lib/IO';
 import { head, last, snoc } from 'fp-ts/lib/NonEmptyArray';
 import {
   chain,
   filter,
   fold,
   fromNullable,
+  fromPredicate,
   map,
   mapNullable,
+  none,
+  Option,
   option,
   some,
 } from 'fp-ts/lib/Option';
@@ -16,27 +19,59 @@ import { pipe } from 'fp-ts/lib/pipeable';
 import { Task } from 'fp-ts/lib/Task';
 import { RefObject, useCallback, useMemo, useRef } from 'react';
 import { IORef } from 'fp-ts/lib/IORef';
-import { isDOMSelection, isValidDOMNodeOffset } from '../models/dom';
+import {
+  isDOMElement,
+  isDOMSelection,
+  isDOMText,
+  isInline,
+  isValidDOMNodeOffset,
+} from '../models/dom';
+import { findMatches, getNextMatch, replaceMatches } from '../models/find';
+import {
+  canRedoHistory,
+  canUndoHistory,
+  checkpointHistory,
+  emptyHistory,
+  redoHistory,
+  undoHistory,
+} from '../models/history';
 import { createInfo as modelCreateInfo } from '../models/info';
 import { initNonEmptyPath, toPathIndex } from '../models/path';
 import { eqSelection, isForward } from '../models/selection';
+import { select } from '../models/value';
 import {
+  ClipboardEventIORef,
+  CompositionEventIORef,
+  DragEventIORef,
   EditorIO,
+  FindQuery,
   GetDOMNodeByPath,
+  GetDOMNodesByPath,
   GetPathByDOMNode,
+  History,
+  Info,
   InputEventIORef,
   DOMNodeOffset,
+  KeyboardEventIORef,
+  NonEmptyPath,
+  Selection,
+  Value,
 } from '../types';
+import { DOMNode, DOMText } from '../types/dom';
 import { warn } from '../warn';
 
 export const useEditorIO = (
   afterTyping: Task<void>,
+  applyOperations: EditorIO['applyOperations'],
   elementRef: RefObject<HTMLDivElement>,
   getDOMNodeByPath: GetDOMNodeByPath,
+  getDOMNodesByPath: GetDOMNodesByPath,
   getPathByDOMNode: GetPathByDOMNode,
   getValue: EditorIO['getValue'],
   isTyping: EditorIO['isTyping'],
   modifyValue: EditorIO['modifyValue'],
+  setDropSelection: (selection: Option<Selection>) => void,
+  setFindQuery: (query: Option<FindQuery>) => void,
   setValue: EditorIO['setValue'],
 ): EditorIO => {
   const getElement = useCallback<EditorIO['getElement']>(
@@ -91,51 +126,112 @@ export const useEditorIO = (
     [getDocument],
   );
 
+  // Inline elements like links are not blocks.
+  const isBlock = useCallback(
+    (path: NonEmptyPath) =>
+      pipe(
+        getDOMNodeByPath(path)(),
+        filter(isDOMElement),
+        chain(node => getComputedStyle(node)()),
+        fold(constTrue, style => !isInline(style)),
+      ),
+    [getComputedStyle, getDOMNodeByPath],
+  );
+
   const createInfo = useCallback<EditorIO['createInfo']>(
-    selection => modelCreateInfo(selection, getValue().element),
-    [getValue],
+    selection => modelCreateInfo(selection, getValue().element, isBlock),
+    [getValue, isBlock],
   );
 
+  const infoCacheRef = useRef(new WeakMap<Value, Option<Info>>());
+
+  const getInfo = useCallback<EditorIO['getInfo']>(() => {
+    const value = getValue();
+    const cachedInfo = infoCacheRef.current.get(value);
+    if (cachedInfo) return cachedInfo;
+    const info = pipe(value.selection, map(createInfo));
+    infoCacheRef.current.set(value, info);
+    return info;
+  }, [createInfo, getValue]);
+
   const focus = useCallback<EditorIO['focus']>(() => {
     if (elementRef.current) elementRef.current.focus();
   }, [elementRef]);
 
+  // Decorated texts are split into several DOM text nodes, so the offset
+  // of the DOM text node in the text is added.
+  const DOMNodeOffsetToPoint = useCallback(
+    (node: DOMNode, offset: number): IO<Option<NonEmptyPath>> => () =>
+      pipe(
+        getPathByDOMNode(node)(),
+        chain(path => {
+          const nodes = isDOMText(node) ? getDOMNodesByPath(path)() : [];
+          const textOffset = nodes
+            .slice(0, Math.max(nodes.indexOf(node), 0))
+            .reduce(
+              (length, { textContent }) => length + (textContent || '').length,
+              0,
+            );
+          return pipe(
+            toPathIndex(offset + textOffset),
+            map(index => snoc(path, index)),
+          );
+        }),
+      ),
+    [getDOMNodesByPath, getPathByDOMNode],
+  );
+
   const getSelectionFromDOM = useCallback<EditorIO['getSelectionFromDOM']>(
     () =>
       pipe(
         getDOMSelection(),
         chain(({ anchorNode, anchorOffset, focusNode, focusOffset }) =>
-          pipe(
-            sequenceT(option)(
-              getPathByDOMNode(anchorNode)(),
-              toPathIndex(anchorOffset),
-              getPathByDOMNode(focusNode)(),
-              toPathIndex(focusOffset),
-            ),
-            map(([anchorPath, anchorOffset, focusPath, focusOffset]) => ({
-              anchor: snoc(anchorPath, anchorOffset),
-              focus: snoc(focusPath, focusOffset),
-            })),
-          ),
+          sequenceS(option)({
+            anchor: DOMNodeOffsetToPoint(anchorNode, anchorOffset)(),
+            focus: DOMNodeOffsetToPoint(focusNode, focusOffset)(),
+          }),
         ),
       ),
-    [getDOMSelection, getPathByDOMNode],
+    [DOMNodeOffsetToPoint, getDOMSelection],
   );
 
   const pathToNodeOffset = useCallback<EditorIO['pathToNodeOffset']>(
-    path =>
-      pipe(
-        initNonEmptyPath(path),
-        getDOMNodeByPath,
-        mapIO(node =>
+    path => () => {
+      const nodes = getDOMNodesByPath(initNonEmptyPath(path))();
+      // The offset in a decorated text is in the first DOM text node
+      // which ends at or after it.
+      let offset: number = last(path);
+      let index = 0;
+      while (
+        index < nodes.length - 1 &&
+        isDOMText(nodes[index]) &&
+        offset > (nodes[index] as DOMText).data.length
+      ) {
+        offset -= (nodes[index] as DOMText).data.length;
+        index++;
+      }
+      return pipe(
+        toPathIndex(offset),
+        chain(offset =>
           pipe(
-            node,
-            map(node => [node, last(path)] as DOMNodeOffset),
-            filter(isValidDOMNodeOffset),
+            fromNullable(nodes[index]),
+            map(node => [node, offset] as DOMNodeOffset),
           ),
         ),
+        filter(isValidDOMNodeOffset),
+      );
+    },
+    [getDOMNodesByPath],
+  );
+
+  const getDOMTextByPath = useCallback<EditorIO['getDOMTextByPath']>(
+    path => () =>
+      pipe(
+        getDOMNodesByPath(path)(),
+        fromPredicate(nodes => nodes.length > 0 && nodes.every(isDOMText)),
+        map(nodes => nodes.map(node => node.textContent || '').join('')),
       ),
-    [getDOMNodeByPath],
+    [getDOMNodesByPath],
   );
 
   const setDOMSelection = useCallback<EditorIO['setDOMSelection']>(
@@ -188,28 +284,106 @@ export const useEditorIO = (
   );
 
   const DOMRangeToSelection = useCallback<EditorIO['DOMRangeToSelection']>(
-    range =>
+    range => () =>
+      sequenceS(option)({
+        anchor: DOMNodeOffsetToPoint(range.startContainer, range.startOffset)(),
+        focus: DOMNodeOffsetToPoint(range.endContainer, range.endOffset)(),
+      }),
+    [DOMNodeOffsetToPoint],
+  );
+
+  const history = useRef(new IORef(emptyHistory)).current;
+
+  const checkpoint = useCallback<EditorIO['checkpoint']>(
+    () => history.modify(checkpointHistory)(),
+    [history],
+  );
+
+  const canUndo = useCallback<EditorIO['canUndo']>(
+    () => canUndoHistory(history.read()),
+    [history],
+  );
+
+  const canRedo = useCallback<EditorIO['canRedo']>(
+    () => canRedoHistory(history.read()),
+    [history],
+  );
+
+  const restoreHistory = useCallback(
+    (next: Option<History>) =>
       pipe(
-        sequenceS(io)({
-          anchorPath: getPathByDOMNode(range.startContainer),
-          focusPath: getPathByDOMNode(range.endContainer),
-        }),
-        mapIO(({ anchorPath, focusPath }) =>
-          sequenceS(option)({
-            anchorPath,
-            anchorOffset: toPathIndex(range.startOffset),
-            focusPath,
-            focusOffset: toPathIndex(range.endOffset),
-          }),
+        next,
+        chain(history =>
+          pipe(
+            history.current,
+            map(value => ({ history, value })),
+          ),
         ),
-        mapIO(
-          map(({ anchorPath, anchorOffset, focusPath, focusOffset }) => ({
-            anchor: snoc(anchorPath, anchorOffset),
-            focus: snoc(focusPath, focusOffset),
-          })),
+        fold(constVoid, ({ history: nextHistory, value }) => {
+          history.write(nextHistory)();
+          setValue(value)();
+        }),
+      ),
+    [history, setValue],
+  );
+
+  const undo = useCallback<EditorIO['undo']>(
+    () => restoreHistory(undoHistory(history.read())),
+    [history, restoreHistory],
+  );
+
+  const redo = useCallback<EditorIO['redo']>(
+    () => restoreHistory(redoHistory(history.read())),
+    [history, restoreHistory],
+  );
+
+  const findQuery = useRef(new IORef<Option<FindQuery>>(none)).current;
+
+  const getFindMatches = useCallback(
+    (value: Value) =>
+      pipe(
+        findQuery.read(),
+        fold(
+          () => [],
+          ({ query, options }) => findMatches(query, options)(value.element),
         ),
       ),
-    [getPathByDOMNode],
+    [findQuery],
+  );
+
+  const find = useCallback<EditorIO['find']>(
+    (query, options = {}) => () => {
+      const next = query === '' ? none : some({ query, options });
+      findQuery.write(next)();
+      setFindQuery(next);
+      return getFindMatches(getValue());
+    },
+    [findQuery, getFindMatches, getValue, setFindQuery],
+  );
+
+  const selectNextMatch = useCallback<EditorIO['selectNextMatch']>(() => {
+    const value = getValue();
+    pipe(
+      getNextMatch(value.element, getFindMatches(value))(value.selection),
+      fold(constVoid, match => setValue(select(match)(value))()),
+    );
+  }, [getFindMatches, getValue, setValue]);
+
+  const replaceAll = useCallback<EditorIO['replaceAll']>(
+    replacement => () => {
+      const value = getValue();
+      const next = replaceMatches(getFindMatches(value), replacement)(value);
+      if (next === value) return;
+      checkpoint();
+      setValue(next)();
+      checkpoint();
+    },
+    [checkpoint, getFindMatches, getValue, setValue],
+  );
+
+  const showDropCaret = useCallback<EditorIO['showDropCaret']>(
+    selection => () => setDropSelection(selection),
+    [setDropSelection],
   );
 
   const useIORef = () => useRef(new IORef(constVoid)).current;
@@ -218,6 +392,31 @@ export const useEditorIO = (
   const onFocus = useIORef();
   const onBlur = useIORef();
 
+  const onKeyDown = useRef<KeyboardEventIORef>(new IORef(() => constVoid))
+    .current;
+
+  const isComposing = useRef(new IORef(false)).current;
+
+  const useCompositionEventIORef = () =>
+    useRef<CompositionEventIORef>(new IORef(() => constVoid)).current;
+
+  const onCompositionStart = useCompositionEventIORef();
+  const onCompositionEnd = useCompositionEventIORef();
+
+  const useClipboardEventIORef = () =>
+    useRef<ClipboardEventIORef>(new IORef(() => constVoid)).current;
+
+  const onCopy = useClipboardEventIORef();
+  const onCut = useClipboardEventIORef();
+
+  const useDragEventIORef = () =>
+    useRef<DragEventIORef>(new IORef(() => constVoid)).current;
+
+  const onDragStart = useDragEventIORef();
+  const onDragOver = useDragEventIORef();
+  const onDragLeave = useDragEventIORef();
+  const onDragEnd = useDragEventIORef();
+
   const useInputEventIORef = () =>
     useRef<InputEventIORef>(new IORef(event => () => event.preventDefault()))
       .current;
@@ -283,23 +482,36 @@ export const useEditorIO = (
     () =>
       warnIfCalledRepeatedly({
         afterTyping,
+        applyOperations,
+        canRedo,
+        canUndo,
+        checkpoint,
         createDOMRange,
         createInfo,
         DOMRangeToSelection,
         ensureDOMSelectionIsActual,
         getComputedStyle,
+        getInfo,
+        find,
         focus,
         getWindow,
         getDocument,
+        history,
         getDOMNodeByPath,
         getDOMSelection,
+        getDOMTextByPath,
         getElement,
         getPathByDOMNode,
         getSelectionFromDOM,
         getValue,
+        isComposing,
         isTyping,
         modifyValue,
         onBlur,
+        onCompositionEnd,
+        onCompositionStart,
+        onCopy,
+        onCut,
         onDeleteByComposition,
         onDeleteByCut,
         onDeleteByDrag,
@@ -314,7 +526,12 @@ export const useEditorIO = (
         onDeleteSoftLineForward,
         onDeleteWordBackward,
         onDeleteWordForward,
+        onDragEnd,
+        onDragLeave,
+        onDragOver,
+        onDragStart,
         onFocus,
+        onKeyDown,
         onFormatBackColor,
         onFormatBold,
         onFormatFontColor,
@@ -352,28 +569,46 @@ export const useEditorIO = (
         onInsertUnorderedList,
         onSelectionChange,
         pathToNodeOffset,
+        redo,
+        replaceAll,
+        selectNextMatch,
         setDOMSelection,
         setValue,
+        showDropCaret,
+        undo,
       }),
     [
       afterTyping,
+      applyOperations,
+      canRedo,
+      canUndo,
+      checkpoint,
       createDOMRange,
       createInfo,
       DOMRangeToSelection,
       ensureDOMSelectionIsActual,
+      find,
       focus,
       getComputedStyle,
       getDocument,
+      getInfo,
       getDOMNodeByPath,
       getDOMSelection,
+      getDOMTextByPath,
       getElement,
       getPathByDOMNode,
       getSelectionFromDOM,
       getValue,
       getWindow,
+      history,
+      isComposing,
       isTyping,
       modifyValue,
       onBlur,
+      onCompositionEnd,
+      onCompositionStart,
+      onCopy,
+      onCut,
       onDeleteByComposition,
       onDeleteByCut,
       onDeleteByDrag,
@@ -388,7 +623,12 @@ export const useEditorIO = (
       onDeleteSoftLineForward,
       onDeleteWordBackward,
       onDeleteWordForward,
+      onDragEnd,
+      onDragLeave,
+      onDragOver,
+      onDragStart,
       onFocus,
+      onKeyDown,
       onFormatBackColor,
       onFormatBold,
       onFormatFontColor,
@@ -426,8 +666,13 @@ export const useEditorIO = (
       onInsertUnorderedList,
       onSelectionChange,
       pathToNodeOffset,
+      redo,
+      replaceAll,
+      selectNextMatch,
       setDOMSelection,
       setValue,
+      showDropCaret,
+      undo,
       warnIfCalledRepeatedly,
     ],
   );
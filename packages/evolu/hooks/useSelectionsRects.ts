@@ -0,0 +1,125 @@
+/* eslint-env browser */
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { constVoid } from 'fp-ts/lib/function';
+import { fold, map, option, Option } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { useCallback, useEffect, useLayoutEffect, useState } from 'react';
+import { isDOMElement } from '../models/dom';
+import { isForward, selectionToRange } from '../models/selection';
+import { EditorIO, Selection } from '../types';
+import { DOMRange } from '../types/dom';
+
+export interface Rect {
+  readonly top: number;
+  readonly left: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface SelectionRects {
+  readonly caret: Rect;
+  readonly rects: Rect[];
+}
+
+// Collapsed range before BR or in an empty element has no client rects.
+const getCaretClientRect = (range: DOMRange): ClientRect => {
+  const rects = range.getClientRects();
+  if (rects.length > 0) return rects[0];
+  const { startContainer, startOffset } = range;
+  const child = startContainer.childNodes[startOffset];
+  const element =
+    child && isDOMElement(child)
+      ? child
+      : isDOMElement(startContainer)
+      ? startContainer
+      : startContainer.parentElement;
+  return element
+    ? element.getBoundingClientRect()
+    : range.getBoundingClientRect();
+};
+
+const getSelectionRects = (editorIO: EditorIO, window: Window) => (
+  selection: Selection,
+): Option<SelectionRects> => {
+  const { start, end } = selectionToRange(selection);
+  // Rects are relative to the document, so scrolling does not move them.
+  const toRect = (rect: ClientRect): Rect => ({
+    top: rect.top + window.pageYOffset,
+    left: rect.left + window.pageXOffset,
+    width: rect.width,
+    height: rect.height,
+  });
+  return pipe(
+    sequenceT(option)(
+      editorIO.createDOMRange(),
+      editorIO.pathToNodeOffset(start)(),
+      editorIO.pathToNodeOffset(end)(),
+    ),
+    map(([range, [startNode, startOffset], [endNode, endOffset]]) => {
+      range.setStart(startNode, startOffset);
+      range.setEnd(endNode, endOffset);
+      const rects = Array.from(range.getClientRects())
+        .filter(rect => rect.width > 0)
+        .map(toRect);
+      range.collapse(!isForward(selection));
+      return { caret: toRect(getCaretClientRect(range)), rects };
+    }),
+  );
+};
+
+export const rectStyle = ({ top, left, width, height }: Rect) => ({
+  position: 'absolute' as const,
+  top,
+  left,
+  width,
+  height,
+  pointerEvents: 'none' as const,
+});
+
+/**
+ * Document relative rects of selections rendered by the editor, for
+ * overlays which must not mutate the contentEditable DOM. Selections with
+ * paths which do not exist have none. Rects are updated after every render
+ * and on window resize, so selections should be memoized.
+ */
+export const useSelectionsRects = (
+  editorIO: EditorIO,
+  selections: Selection[],
+): Option<SelectionRects>[] => {
+  const [selectionsRects, setSelectionsRects] = useState<
+    Option<SelectionRects>[]
+  >([]);
+
+  const update = useCallback(() => {
+    const next = pipe(
+      editorIO.getWindow(),
+      fold(
+        () => [],
+        window => selections.map(getSelectionRects(editorIO, window)),
+      ),
+    );
+    // Set state only when changed, otherwise it would render forever.
+    setSelectionsRects(current =>
+      JSON.stringify(current) === JSON.stringify(next) ? current : next,
+    );
+  }, [editorIO, selections]);
+
+  // Without deps, because the DOM can be changed by any render.
+  useLayoutEffect(update);
+
+  useEffect(
+    () =>
+      pipe(
+        editorIO.getWindow(),
+        fold(constVoid, window => {
+          window.addEventListener('resize', update);
+          return () => {
+            window.removeEventListener('resize', update);
+          };
+        }),
+      ),
+    [editorIO, update],
+  );
+
+  return selectionsRects;
+};
@@ -3,22 +3,26 @@ import { SetDOMNodePath, Path, SetDOMNodePathRef } from '../types';
 
 export const SetNodePathContext = createContext<SetDOMNodePath>(() => {});
 
-export const useSetDOMNodePathRef = (path: Path) => {
-  const previousRef = useRef<{ node: Node; path: Path } | null>(null);
+export const useSetDOMNodePathRef = (path: Path, index?: number) => {
+  const previousRef = useRef<{
+    node: Node;
+    path: Path;
+    index?: number;
+  } | null>(null);
   const setNodePath = useContext(SetNodePathContext);
   const setNodePathRef = useCallback<SetDOMNodePathRef>(
     node => {
       if (previousRef.current != null) {
-        const { node, path } = previousRef.current;
-        setNodePath('remove', node, path);
+        const { node, path, index } = previousRef.current;
+        setNodePath('remove', node, path, index);
         previousRef.current = null;
       }
       if (node) {
-        previousRef.current = { node, path };
-        setNodePath('add', node, path);
+        previousRef.current = { node, path, index };
+        setNodePath('add', node, path, index);
       }
     },
-    [path, setNodePath],
+    [index, path, setNodePath],
   );
   return setNodePathRef;
 };
@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+import { Path, TextDecoration } from '../types';
+
+export const emptyTextDecorations = new Map<string, TextDecoration[]>();
+
+export const TextDecorationsContext = createContext(emptyTextDecorations);
+
+const noDecorations: TextDecoration[] = [];
+
+export const useTextDecorations = (path: Path) =>
+  useContext(TextDecorationsContext).get(path.join()) || noDecorations;
@@ -1,22 +1,84 @@
+import { fold } from 'fp-ts/lib/Either';
+import { constVoid, Endomorphism, identity } from 'fp-ts/lib/function';
+import { IO } from 'fp-ts/lib/IO';
+import { none } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
 import { useLayoutEffect, useRef, useCallback } from 'react';
-import { EditorProps, EditorIO, Value } from '../types';
+import { EditorProps, EditorIO, Operation, Value } from '../types';
 import { eqValue } from '../models/value';
+import {
+  applyOperations as modelApplyOperations,
+  diffValue,
+} from '../models/operation';
+import { validateOrRepairElement } from '../models/schema';
+
+// The operations of the edit known upfront and the value they result in.
+// Later changes, like normalization, are found via diff from that value.
+interface Edit {
+  value: Value;
+  operations: Operation[];
+}
 
 export const useValue = (
   value: Value,
   onChange: EditorProps['onChange'],
-): [EditorIO['getValue'], EditorIO['setValue'], EditorIO['modifyValue']] => {
+  onOperations?: EditorProps['onOperations'],
+  schema?: EditorProps['schema'],
+  repairElement?: EditorProps['repairElement'],
+  normalize: Endomorphism<Value> = identity,
+  // The browser can render the rejected change itself, for example typed text.
+  onReject: IO<void> = constVoid,
+): [
+  EditorIO['getValue'],
+  EditorIO['setValue'],
+  EditorIO['modifyValue'],
+  EditorIO['applyOperations'],
+] => {
   const valueRef = useRef(value);
   useLayoutEffect(() => {
     valueRef.current = value;
   });
   const getValue = useCallback(() => valueRef.current, []);
-  const setValue = useCallback<EditorIO['setValue']>(
-    nextValue => () => {
+  const changeValue = useCallback(
+    (nextValue: Value, edit: Edit) => {
       if (eqValue.equals(nextValue, valueRef.current)) return;
+      if (onOperations) {
+        const operations = [
+          ...edit.operations,
+          ...diffValue(edit.value, nextValue),
+        ];
+        if (operations.length > 0) onOperations(operations);
+      }
       onChange(nextValue);
     },
-    [onChange],
+    [onChange, onOperations],
+  );
+  const normalizeAndChangeValue = useCallback(
+    (value: Value, edit: Edit) => {
+      const nextValue = normalize(value);
+      if (!schema || nextValue.element === valueRef.current.element) {
+        changeValue(nextValue, edit);
+        return;
+      }
+      // Invalid changes are rejected, so the value remains valid.
+      pipe(
+        validateOrRepairElement(
+          schema,
+          repairElement || (() => none),
+        )(nextValue.element),
+        fold(onReject, element => changeValue({ ...nextValue, element }, edit)),
+      );
+    },
+    [changeValue, normalize, onReject, repairElement, schema],
+  );
+  const setValue = useCallback<EditorIO['setValue']>(
+    value => () => {
+      normalizeAndChangeValue(value, {
+        value: valueRef.current,
+        operations: [],
+      });
+    },
+    [normalizeAndChangeValue],
   );
   const modifyValue = useCallback<EditorIO['modifyValue']>(
     callback => () => {
@@ -25,5 +87,13 @@ export const useValue = (
     },
     [getValue, setValue],
   );
-  return [getValue, setValue, modifyValue];
+  const applyOperations = useCallback<EditorIO['applyOperations']>(
+    getOperations => () => {
+      const operations = getOperations(getValue());
+      const value = modelApplyOperations(getValue(), operations);
+      normalizeAndChangeValue(value, { value, operations });
+    },
+    [getValue, normalizeAndChangeValue],
+  );
+  return [getValue, setValue, modifyValue, applyOperations];
 };
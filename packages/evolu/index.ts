@@ -1,6 +1,8 @@
 // Export everything. No reason to hide anything.
 export * from './components/Editor';
 export * from './components/EditorClient';
+export * from './components/EditorDropCaret';
+export * from './components/EditorRemoteSelections';
 export * from './components/EditorServer';
 export * from './components/ElementRenderer';
 export * from './components/TextRenderer';
@@ -10,21 +12,48 @@ export * from './hooks/useEditorRef';
 export * from './hooks/useLogValue';
 export * from './hooks/usePrevious';
 export * from './hooks/useSelectionChange';
+export * from './hooks/useSelectionsRects';
 export * from './hooks/useSetDOMNodePathRef';
+export * from './hooks/useTextDecorations';
 export * from './hooks/useValue';
 export * from './logPipe';
+export * from './models/clipboard';
+export * from './models/crdt';
+export * from './models/decoration';
 export * from './models/dom';
 export * from './models/element';
+export * from './models/find';
+export * from './models/history';
+export * from './models/html';
 export * from './models/info';
+export * from './models/inputRule';
+export * from './models/list';
+export * from './models/mark';
+export * from './models/markdown';
+export * from './models/normalize';
+export * from './models/operation';
 export * from './models/path';
+export * from './models/plainText';
+export * from './models/schema';
 export * from './models/selection';
 export * from './models/string';
 export * from './models/text';
 export * from './models/value';
+export * from './plugins/useClipboard';
+export * from './plugins/useComposition';
 export * from './plugins/useDeleteContent';
+export * from './plugins/useDeleteWordAndLine';
+export * from './plugins/useDragAndDrop';
 export * from './plugins/useFocus';
+export * from './plugins/useInputRules';
+export * from './plugins/useHistory';
+export * from './plugins/useInsertFromPaste';
+export * from './plugins/useInsertLineBreak';
+export * from './plugins/useInsertParagraph';
 export * from './plugins/useInsertReplacementText';
 export * from './plugins/useInsertText';
+export * from './plugins/useLists';
+export * from './plugins/useMarks';
 export * from './plugins/usePlugin';
 export * from './plugins/useSelection';
 export * from './types';
@@ -0,0 +1,107 @@
+import { isSome, none } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Element, Fragment, MarkElement, ReactElement } from '../types';
+import { decodeFragment, encodeFragment } from './clipboard';
+import { elementToIDless } from './element';
+import { fragmentToHTML } from './html';
+
+const id = createStableIDFactory();
+
+const fragment: Fragment = [
+  'a',
+  { id: id(), marks: ['bold'], children: ['b'] } as MarkElement,
+  {
+    id: id(),
+    tag: 'p',
+    props: { className: 'c' },
+    children: ['c', ''],
+  } as ReactElement,
+];
+
+test('decodeFragment restores the structure with new IDs', () => {
+  const decoded = decodeFragment(encodeFragment(fragment));
+  expect(isSome(decoded)).toBe(true);
+  if (!isSome(decoded)) return;
+  const toIDless = (fragment: Fragment) =>
+    fragment.map(node =>
+      typeof node === 'string' ? node : elementToIDless(node),
+    );
+  expect(toIDless(decoded.value)).toEqual(toIDless(fragment));
+  expect((decoded.value[1] as Element).id).not.toBe(
+    (fragment[1] as Element).id,
+  );
+});
+
+test('decodeFragment rejects invalid data', () => {
+  expect(decodeFragment('')).toEqual(none);
+  expect(decodeFragment('{')).toEqual(none);
+  expect(decodeFragment('[{"children":["a"]}]')).toEqual(none);
+});
+
+test('decodeFragment sanitizes elements', () => {
+  // eslint-disable-next-line no-script-url
+  const scriptURL = 'javascript:alert(1)';
+  const decoded = decodeFragment(
+    JSON.stringify([
+      {
+        id: id(),
+        tag: 'div',
+        props: {
+          dangerouslySetInnerHTML: { __html: '<img src=x onerror=alert(1)>' },
+        },
+        children: [],
+      },
+      {
+        id: id(),
+        tag: 'a',
+        props: { href: scriptURL, onClick: 'alert(1)', title: 't' },
+        children: ['a'],
+      },
+      {
+        id: id(),
+        tag: 'p',
+        props: { style: { color: 'red' } },
+        children: [{ id: id(), tag: 'script', props: {}, children: ['x'] }],
+      },
+      { id: id(), tag: 'link', href: scriptURL, children: ['b'] },
+    ]),
+  );
+  expect(isSome(decoded)).toBe(true);
+  if (!isSome(decoded)) return;
+  expect(
+    decoded.value.map(node =>
+      typeof node === 'string' ? node : elementToIDless(node),
+    ),
+  ).toEqual([
+    { tag: 'div', props: {}, children: [] },
+    { tag: 'a', props: { title: 't' }, children: ['a'] },
+    { tag: 'p', props: { style: { color: 'red' } }, children: [''] },
+    { tag: 'link', children: ['b'] },
+  ]);
+});
+
+test('decodeFragment rebuilds mark elements', () => {
+  const decoded = decodeFragment(
+    JSON.stringify([
+      {
+        id: id(),
+        marks: ['bold'],
+        tag: 'div',
+        props: {
+          dangerouslySetInnerHTML: { __html: '<img src=x onerror=alert(1)>' },
+        },
+        children: [],
+      },
+      { id: id(), marks: ['italic'], foo: 'bar', children: ['a'] },
+    ]),
+  );
+  expect(isSome(decoded)).toBe(true);
+  if (!isSome(decoded)) return;
+  expect(decoded.value.map(node => elementToIDless(node as Element))).toEqual([
+    { tag: 'div', props: {}, children: [] },
+    { marks: ['italic'], children: ['a'] },
+  ]);
+  expect(fragmentToHTML(decoded.value)).toBe(
+    '<div></div><span style="font-style:italic">a</span>',
+  );
+});
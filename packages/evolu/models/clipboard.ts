@@ -0,0 +1,72 @@
+import { IO } from 'fp-ts/lib/IO';
+import {
+  alt,
+  chain,
+  fromEither,
+  map,
+  none,
+  Option,
+  some,
+  tryCatch,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { Fragment, RenderElement, Value } from '../types';
+import { fragmentWithNewIDs, id } from './element';
+import { fragmentToHTML, htmlToFragment, sanitizeFragment } from './html';
+import { elementToPlainText } from './plainText';
+import { textToFragment } from './value';
+
+/**
+ * The editor clipboard format. It's JSON of io-ts encoded Fragment.
+ */
+export const fragmentMimeType = 'application/x-evolu-fragment+json';
+
+export const encodeFragment = (fragment: Fragment): string =>
+  JSON.stringify(Fragment.encode(fragment));
+
+/**
+ * Decode the fragment with new IDs, so it can be pasted more times.
+ * Invalid JSON or fragment is none. Any page can write the editor format,
+ * so the fragment is sanitized like HTML.
+ */
+export const decodeFragment = (json: string): Option<Fragment> =>
+  pipe(
+    tryCatch(() => JSON.parse(json) as unknown),
+    chain(json => fromEither(Fragment.decode(json))),
+    map(fragment => fragmentWithNewIDs(sanitizeFragment(fragment))),
+  );
+
+/**
+ * Write the fragment as plain text, HTML, and the editor format, which
+ * restores the exact structure.
+ */
+export const fragmentToDataTransfer = (
+  fragment: Fragment,
+  renderElement?: RenderElement,
+) => (dataTransfer: DataTransfer): IO<void> => () => {
+  dataTransfer.setData(
+    'text/plain',
+    elementToPlainText({ id: id(), children: fragment }),
+  );
+  dataTransfer.setData('text/html', fragmentToHTML(fragment, renderElement));
+  dataTransfer.setData(fragmentMimeType, encodeFragment(fragment));
+};
+
+/**
+ * Fragment of pasted or dropped data. The editor format is preferred,
+ * because it's exact, then HTML, because it has formatting. Plain text
+ * lines become blocks via textToFragment.
+ */
+export const dataTransferToFragment = (dataTransfer: DataTransfer) => (
+  value: Value,
+): Option<Fragment> =>
+  pipe(
+    decodeFragment(dataTransfer.getData(fragmentMimeType)),
+    alt(() => {
+      const html = dataTransfer.getData('text/html');
+      if (html.length > 0) return some(htmlToFragment(html));
+      const text = dataTransfer.getData('text/plain');
+      if (text.length > 0) return some(textToFragment(text)(value));
+      return none;
+    }),
+  );
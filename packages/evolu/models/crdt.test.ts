@@ -0,0 +1,272 @@
+import { isRight } from 'fp-ts/lib/Either';
+import { none, some, toNullable } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import {
+  CrdtChange,
+  CrdtReplica,
+  Element,
+  Operation,
+  PathIndex,
+  ReactElement,
+} from '../types';
+import { createCrdtReplica } from './crdt';
+import {
+  getDescendantPaths,
+  getNode,
+  id as createID,
+  normalizeElement,
+} from './element';
+import { applyOperation } from './operation';
+import { unsafeNonEmptyPath } from './path';
+import { isText } from './text';
+import { createValue } from './value';
+
+const id = createStableIDFactory();
+
+const element: ReactElement = {
+  id: id(),
+  tag: 'div',
+  props: { className: 'root' },
+  children: [
+    { id: id(), tag: 'p', props: {}, children: ['ab'] },
+    { id: id(), tag: 'p', props: {}, children: ['c', '', 'd'] },
+  ],
+};
+
+const createReplicas = (count: number): CrdtReplica[] => {
+  const replicas = Array.from({ length: count }, (_, index) =>
+    createCrdtReplica(`r${index}`),
+  );
+  replicas[0].setElement(element)();
+  const changes = replicas[0].getLocalChanges();
+  replicas.slice(1).forEach(replica => replica.applyRemote(changes)());
+  return replicas;
+};
+
+const edit = (replica: CrdtReplica, operation: Operation) => {
+  const current = toNullable(replica.getElement()) as Element;
+  // Editor elements are normalized, so adjacent texts are merged.
+  const next = normalizeElement(
+    applyOperation(createValue({ element: current }), operation).element,
+  );
+  replica.setElement(next)();
+  expect(replica.getElement()).toEqual(some(next));
+};
+
+const syncAll = (replicas: CrdtReplica[]) => {
+  const changes = replicas.map(replica => replica.getLocalChanges());
+  replicas.forEach((replica, index) =>
+    changes.forEach((changes, source) => {
+      if (source !== index) replica.applyRemote(changes)();
+    }),
+  );
+};
+
+const path = unsafeNonEmptyPath;
+const offset = (offset: number) => offset as PathIndex;
+
+test('createCrdtReplica', () => {
+  const replica = createCrdtReplica('a');
+  expect(replica.getElement()).toEqual(none);
+  replica.setElement(element)();
+  expect(replica.getElement()).toEqual(some(element));
+  const changes = replica.getLocalChanges();
+  expect(changes.length).toBeGreaterThan(0);
+  expect(replica.getLocalChanges()).toEqual([]);
+  changes.forEach(change => expect(CrdtChange.is(change)).toBe(true));
+
+  // Changes are serializable.
+  const other = createCrdtReplica('b');
+  other.applyRemote(
+    JSON.parse(JSON.stringify(changes)).map((change: unknown) => {
+      const decoded = CrdtChange.decode(change);
+      if (!isRight(decoded)) throw new Error('invalid change');
+      return decoded.right;
+    }),
+  )();
+  expect(other.getElement()).toEqual(some(element));
+
+  // No change, no changes.
+  replica.setElement(element)();
+  expect(replica.getLocalChanges()).toEqual([]);
+});
+
+test('concurrent text edits', () => {
+  const [a, b] = createReplicas(2);
+  edit(a, {
+    type: 'insertText',
+    path: path([0, 0]),
+    offset: offset(1),
+    text: 'x',
+  });
+  edit(b, {
+    type: 'insertText',
+    path: path([0, 0]),
+    offset: offset(1),
+    text: 'y',
+  });
+  edit(b, {
+    type: 'removeText',
+    path: path([0, 0]),
+    offset: offset(0),
+    text: 'a',
+  });
+  syncAll([a, b]);
+  expect(a.getElement()).toEqual(b.getElement());
+  expect(toNullable(a.getElement())).toMatchObject({
+    children: [{ children: ['yxb'] }, { children: ['c', '', 'd'] }],
+  });
+});
+
+test('concurrent props and nodes', () => {
+  const [a, b] = createReplicas(2);
+  edit(a, {
+    type: 'setProps',
+    path: path([1]),
+    properties: { tag: 'p' },
+    newProperties: { tag: 'h1' },
+  });
+  edit(b, {
+    type: 'setProps',
+    path: path([1]),
+    properties: { tag: 'p' },
+    newProperties: { tag: 'h2' },
+  });
+  edit(a, {
+    type: 'insertNode',
+    path: path([1]),
+    node: { id: createID(), children: ['e'] },
+  });
+  edit(b, { type: 'removeNode', path: path([0]), node: element.children[0] });
+  syncAll([a, b]);
+  expect(a.getElement()).toEqual(b.getElement());
+  expect(toNullable(a.getElement())).toMatchObject({
+    children: [{ children: ['e'] }, { tag: 'h2', children: ['c', '', 'd'] }],
+  });
+});
+
+test('changes can arrive in any order', () => {
+  const [a, b, c] = createReplicas(3);
+  edit(a, {
+    type: 'insertText',
+    path: path([0, 0]),
+    offset: offset(2),
+    text: 'x',
+  });
+  const first = a.getLocalChanges();
+  b.applyRemote(first)();
+  edit(b, {
+    type: 'insertText',
+    path: path([0, 0]),
+    offset: offset(3),
+    text: 'y',
+  });
+  const second = b.getLocalChanges();
+  c.applyRemote(second)();
+  expect(c.getElement()).toEqual(some(element));
+  c.applyRemote(first)();
+  expect(c.getElement()).toEqual(b.getElement());
+  // Applying changes again does nothing.
+  c.applyRemote([...first, ...second])();
+  expect(c.getElement()).toEqual(b.getElement());
+});
+
+// https://en.wikipedia.org/wiki/Lehmer_random_number_generator
+const createRandom = (seed: number) => {
+  let state = seed;
+  return (max: number) => {
+    state = (state * 48271) % 2147483647;
+    return state % max;
+  };
+};
+
+const createRandomOperation = (
+  random: (max: number) => number,
+  element: Element,
+): Operation | null => {
+  const paths = getDescendantPaths(element)([]);
+  if (paths.length === 0)
+    return {
+      type: 'insertNode',
+      path: path([0]),
+      node: { id: createID(), children: ['n'] },
+    };
+  const nodePath = paths[random(paths.length)];
+  const node = toNullable(getNode(element)(nodePath)) as Element['children'][0];
+  const chars = 'abc';
+  if (isText(node)) {
+    const at = random(node.length + 1);
+    if (random(2) === 0 || node.length === 0)
+      return {
+        type: 'insertText',
+        path: nodePath,
+        offset: offset(at),
+        text: chars[random(chars.length)].repeat(random(2) + 1),
+      };
+    const start = Math.min(at, node.length - 1);
+    return {
+      type: 'removeText',
+      path: nodePath,
+      offset: offset(start),
+      text: node.slice(start, start + 1 + random(2)),
+    };
+  }
+  switch (random(3)) {
+    case 0:
+      return {
+        type: 'insertNode',
+        path: path([
+          ...nodePath.slice(0, -1),
+          random(2) + nodePath[nodePath.length - 1],
+        ]),
+        node: { id: createID(), children: [chars[random(chars.length)]] },
+      };
+    case 1:
+      return { type: 'removeNode', path: nodePath, node };
+    default:
+      return {
+        type: 'setProps',
+        path: nodePath,
+        properties: {},
+        newProperties: { tag: ['p', 'h1', 'li'][random(3)] },
+      };
+  }
+};
+
+test('random concurrent edits converge', () => {
+  const random = createRandom(42);
+  const replicas = createReplicas(3);
+  const outboxes: CrdtChange[][][] = replicas.map(() => []);
+  const delivered = replicas.map(() => replicas.map(() => 0));
+
+  const deliver = (target: number, source: number) => {
+    const batches = outboxes[source].slice(delivered[target][source]);
+    delivered[target][source] = outboxes[source].length;
+    // Batches are applied in random order to test buffering.
+    batches
+      .map(batch => ({ batch, order: random(100) }))
+      .sort((x, y) => x.order - y.order)
+      .forEach(({ batch }) => replicas[target].applyRemote(batch)());
+  };
+
+  for (let round = 0; round < 200; round++) {
+    const index = random(replicas.length);
+    const replica = replicas[index];
+    const current = toNullable(replica.getElement()) as Element;
+    const operation = createRandomOperation(random, current);
+    if (operation) edit(replica, operation);
+    outboxes[index].push(replica.getLocalChanges());
+    if (random(3) === 0) {
+      const target = random(replicas.length);
+      const source = random(replicas.length);
+      if (target !== source) deliver(target, source);
+    }
+  }
+  replicas.forEach((_, target) =>
+    replicas.forEach((_, source) => {
+      if (target !== source) deliver(target, source);
+    }),
+  );
+  const [first, ...rest] = replicas.map(replica => replica.getElement());
+  rest.forEach(element => expect(element).toEqual(first));
+});
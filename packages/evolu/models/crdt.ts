@@ -0,0 +1,421 @@
+import { IO } from 'fp-ts/lib/IO';
+import { constVoid } from 'fp-ts/lib/function';
+import { exists, fold, map, none, Option, some } from 'fp-ts/lib/Option';
+import { fromCompare, Ord } from 'fp-ts/lib/Ord';
+import { pipe } from 'fp-ts/lib/pipeable';
+import {
+  CrdtChange,
+  CrdtID,
+  CrdtReplica,
+  Element,
+  ElementID,
+  Node,
+} from '../types';
+import { isText, textIsBR } from './text';
+
+/**
+ * Lamport order. The replica breaks ties, so the order is total.
+ */
+export const byCrdtID: Ord<CrdtID> = fromCompare((x, y) => {
+  if (x.counter !== y.counter) return x.counter < y.counter ? -1 : 1;
+  if (x.replica === y.replica) return 0;
+  return x.replica < y.replica ? -1 : 1;
+});
+
+type ItemValue =
+  | { readonly type: 'char'; readonly char: string }
+  | { readonly type: 'br' }
+  | { readonly type: 'element'; readonly id: ElementID };
+
+interface Item {
+  readonly id: CrdtID;
+  readonly value: ItemValue;
+  // Deleted items are kept as tombstones, so positions stay stable.
+  deleted: boolean;
+}
+
+interface Register {
+  readonly timestamp: CrdtID;
+  readonly value: unknown;
+  readonly removed: boolean;
+}
+
+interface ElementRecord {
+  readonly items: Item[];
+  readonly itemsByKey: Map<string, Item>;
+  readonly props: Map<string, Register>;
+}
+
+// The state is mutable for performance. It never leaks from the replica.
+interface State {
+  readonly replica: string;
+  clock: number;
+  root: Option<Register>;
+  readonly records: Map<ElementID, ElementRecord>;
+}
+
+const idToKey = (id: CrdtID) => `${id.counter}@${id.replica}`;
+
+const getRecord = (state: State, id: ElementID): ElementRecord => {
+  const record = state.records.get(id);
+  if (record) return record;
+  const newRecord: ElementRecord = {
+    items: [],
+    itemsByKey: new Map(),
+    props: new Map(),
+  };
+  state.records.set(id, newRecord);
+  return newRecord;
+};
+
+const observe = (state: State, counter: number) => {
+  state.clock = Math.max(state.clock, counter);
+};
+
+// RGA insertion. Concurrent inserts after the same item are ordered
+// by their IDs, the greater first.
+const insertItem = (
+  record: ElementRecord,
+  after: CrdtID | null,
+  item: Item,
+) => {
+  const key = idToKey(item.id);
+  if (record.itemsByKey.has(key)) return;
+  const afterItem = after && record.itemsByKey.get(idToKey(after));
+  let index = afterItem ? record.items.indexOf(afterItem) + 1 : 0;
+  while (
+    index < record.items.length &&
+    byCrdtID.compare(record.items[index].id, item.id) > 0
+  )
+    index++;
+  record.items.splice(index, 0, item);
+  record.itemsByKey.set(key, item);
+};
+
+const setRegister = (
+  registers: Map<string, Register>,
+  key: string,
+  register: Register,
+) => {
+  const current = registers.get(key);
+  if (current && byCrdtID.compare(current.timestamp, register.timestamp) >= 0)
+    return;
+  registers.set(key, register);
+};
+
+const isReady = (state: State, change: CrdtChange) => {
+  switch (change.type) {
+    case 'insert':
+      return (
+        change.after == null ||
+        getRecord(state, change.parent).itemsByKey.has(idToKey(change.after))
+      );
+    case 'delete':
+      return getRecord(state, change.parent).itemsByKey.has(
+        idToKey(change.target),
+      );
+    default:
+      return true;
+  }
+};
+
+const applyChange = (state: State, change: CrdtChange) => {
+  switch (change.type) {
+    case 'setRoot': {
+      const { timestamp } = change;
+      observe(state, timestamp.counter);
+      const register = { timestamp, value: change.id, removed: false };
+      const isOlder = pipe(
+        state.root,
+        exists(root => byCrdtID.compare(timestamp, root.timestamp) <= 0),
+      );
+      if (!isOlder) state.root = some(register);
+      break;
+    }
+    case 'insert': {
+      const record = getRecord(state, change.parent);
+      const { id, value } = change;
+      if (value.type !== 'text') {
+        observe(state, id.counter);
+        insertItem(record, change.after, { id, value, deleted: false });
+        break;
+      }
+      // Every char has its own ID, so it can be deleted.
+      observe(state, id.counter + value.text.length - 1);
+      value.text.split('').reduce<CrdtID | null>((after, char, index) => {
+        const charID = { counter: id.counter + index, replica: id.replica };
+        insertItem(record, after, {
+          id: charID,
+          value: { type: 'char', char },
+          deleted: false,
+        });
+        return charID;
+      }, change.after);
+      break;
+    }
+    case 'delete': {
+      const item = getRecord(state, change.parent).itemsByKey.get(
+        idToKey(change.target),
+      );
+      if (item) item.deleted = true;
+      break;
+    }
+    case 'setProp':
+    case 'removeProp': {
+      const { timestamp } = change;
+      observe(state, timestamp.counter);
+      setRegister(getRecord(state, change.element).props, change.key, {
+        timestamp,
+        value: change.type === 'setProp' ? change.value : null,
+        removed: change.type === 'removeProp',
+      });
+      break;
+    }
+    default:
+  }
+};
+
+// Changes are applied when their dependencies are, so the pass is repeated
+// until nothing is applied. The remaining changes are returned.
+const applyReadyChanges = (
+  state: State,
+  changes: CrdtChange[],
+): CrdtChange[] => {
+  const pending = changes.filter(change => {
+    if (!isReady(state, change)) return true;
+    applyChange(state, change);
+    return false;
+  });
+  return pending.length < changes.length
+    ? applyReadyChanges(state, pending)
+    : pending;
+};
+
+// Visible items of elements reachable from the root. An element can be
+// inserted into more than one place by concurrent moves, so only its first
+// occurrence in the tree order is visible.
+const getVisibleItems = (state: State): Map<ElementID, Item[]> => {
+  const visible = new Map<ElementID, Item[]>();
+  const visit = (id: ElementID) => {
+    const items: Item[] = [];
+    visible.set(id, items);
+    getRecord(state, id).items.forEach(item => {
+      if (item.deleted) return;
+      if (item.value.type === 'element') {
+        if (visible.has(item.value.id)) return;
+        items.push(item);
+        visit(item.value.id);
+        return;
+      }
+      items.push(item);
+    });
+  };
+  pipe(
+    state.root,
+    fold(constVoid, root => visit(root.value as ElementID)),
+  );
+  return visible;
+};
+
+const getProps = (element: Element): { [key: string]: unknown } => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id, children, ...props } = element as Element & {
+    [key: string]: unknown;
+  };
+  return props;
+};
+
+const toElement = (
+  state: State,
+  visible: Map<ElementID, Item[]>,
+  id: ElementID,
+): Element => {
+  const props: { [key: string]: unknown } = {};
+  getRecord(state, id).props.forEach((register, key) => {
+    if (!register.removed) props[key] = register.value;
+  });
+  const children = (visible.get(id) || []).reduce<Node[]>((nodes, item) => {
+    const { value } = item;
+    if (value.type === 'br') return [...nodes, ''];
+    if (value.type === 'element')
+      return [...nodes, toElement(state, visible, value.id)];
+    // Adjacent chars are one text.
+    const lastNode = nodes[nodes.length - 1];
+    if (lastNode != null && isText(lastNode) && !textIsBR(lastNode))
+      return [...nodes.slice(0, -1), lastNode + value.char];
+    return [...nodes, value.char];
+  }, []);
+  return { ...props, id, children } as Element;
+};
+
+const nodesToItemValues = (nodes: Node[]): ItemValue[] =>
+  nodes.reduce<ItemValue[]>((values, node) => {
+    if (!isText(node)) return [...values, { type: 'element', id: node.id }];
+    if (textIsBR(node)) return [...values, { type: 'br' }];
+    return [
+      ...values,
+      ...node.split('').map((char): ItemValue => ({ type: 'char', char })),
+    ];
+  }, []);
+
+const eqItemValue = (x: ItemValue, y: ItemValue) => {
+  switch (x.type) {
+    case 'char':
+      return y.type === 'char' && x.char === y.char;
+    case 'element':
+      return y.type === 'element' && x.id === y.id;
+    default:
+      return x.type === y.type;
+  }
+};
+
+/**
+ * Create CRDT replica. The replica ID must be unique across all replicas.
+ * Replicas which applied the same changes in any order have the same element.
+ */
+export const createCrdtReplica = (replica: string): CrdtReplica => {
+  const state: State = { replica, clock: 0, root: none, records: new Map() };
+  let localChanges: CrdtChange[] = [];
+  let pendingChanges: CrdtChange[] = [];
+
+  const createID = (count = 1): CrdtID => {
+    const id = { counter: state.clock + 1, replica };
+    state.clock += count;
+    return id;
+  };
+
+  const applyLocalChange = (change: CrdtChange) => {
+    applyChange(state, change);
+    localChanges.push(change);
+  };
+
+  const syncProps = (element: Element) => {
+    const record = getRecord(state, element.id);
+    const props = getProps(element);
+    Object.keys(props).forEach(key => {
+      const register = record.props.get(key);
+      if (register && !register.removed && register.value === props[key])
+        return;
+      applyLocalChange({
+        type: 'setProp',
+        element: element.id,
+        key,
+        value: props[key],
+        timestamp: createID(),
+      });
+    });
+    record.props.forEach((register, key) => {
+      if (register.removed || key in props) return;
+      applyLocalChange({
+        type: 'removeProp',
+        element: element.id,
+        key,
+        timestamp: createID(),
+      });
+    });
+  };
+
+  const insertValues = (
+    parent: ElementID,
+    after: CrdtID | null,
+    values: ItemValue[],
+  ) =>
+    values.reduce<CrdtID | null>((after, value, index) => {
+      const previous = values[index - 1];
+      // Chars were inserted with the previous char.
+      if (value.type === 'char' && previous && previous.type === 'char')
+        return { counter: (after as CrdtID).counter + 1, replica };
+      if (value.type !== 'char') {
+        const id = createID();
+        applyLocalChange({ type: 'insert', id, parent, after, value });
+        return id;
+      }
+      const nextIndex = values.findIndex(
+        (value, nextIndex) => nextIndex > index && value.type !== 'char',
+      );
+      const text = values
+        .slice(index, nextIndex === -1 ? values.length : nextIndex)
+        .map(value => (value.type === 'char' ? value.char : ''))
+        .join('');
+      const id = createID(text.length);
+      applyLocalChange({
+        type: 'insert',
+        id,
+        parent,
+        after,
+        value: { type: 'text', text },
+      });
+      return id;
+    }, after);
+
+  // Only the changed middle of children is replaced, like in diffValue.
+  const syncChildren = (element: Element, visible: Map<ElementID, Item[]>) => {
+    const items =
+      visible.get(element.id) ||
+      getRecord(state, element.id).items.filter(item => !item.deleted);
+    const values = nodesToItemValues(element.children);
+    const maxLength = Math.min(items.length, values.length);
+    let start = 0;
+    while (start < maxLength && eqItemValue(items[start].value, values[start]))
+      start++;
+    let end = 0;
+    while (
+      end < maxLength - start &&
+      eqItemValue(
+        items[items.length - 1 - end].value,
+        values[values.length - 1 - end],
+      )
+    )
+      end++;
+    items.slice(start, items.length - end).forEach(item => {
+      applyLocalChange({ type: 'delete', parent: element.id, target: item.id });
+    });
+    insertValues(
+      element.id,
+      start > 0 ? items[start - 1].id : null,
+      values.slice(start, values.length - end),
+    );
+  };
+
+  const syncElement = (element: Element, visible: Map<ElementID, Item[]>) => {
+    syncProps(element);
+    syncChildren(element, visible);
+    element.children.forEach(child => {
+      if (!isText(child)) syncElement(child, visible);
+    });
+  };
+
+  const getElement: CrdtReplica['getElement'] = () =>
+    pipe(
+      state.root,
+      map(root =>
+        toElement(state, getVisibleItems(state), root.value as ElementID),
+      ),
+    );
+
+  const setElement: CrdtReplica['setElement'] = element => () => {
+    const isRoot = pipe(
+      state.root,
+      exists(root => root.value === element.id),
+    );
+    if (!isRoot)
+      applyLocalChange({
+        type: 'setRoot',
+        id: element.id,
+        timestamp: createID(),
+      });
+    syncElement(element, getVisibleItems(state));
+  };
+
+  const applyRemote: CrdtReplica['applyRemote'] = changes => () => {
+    pendingChanges = applyReadyChanges(state, [...pendingChanges, ...changes]);
+  };
+
+  const getLocalChanges: IO<CrdtChange[]> = () => {
+    const changes = localChanges;
+    localChanges = [];
+    return changes;
+  };
+
+  return { getElement, setElement, applyRemote, getLocalChanges };
+};
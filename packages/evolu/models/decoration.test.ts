@@ -0,0 +1,73 @@
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { MarkElement, Node, ReactElement } from '../types';
+import { getTextDecorations, splitTextByDecorations } from './decoration';
+import { unsafeSelection } from './selection';
+
+const id = createStableIDFactory();
+
+const el = (tag: string, children: Node[]): ReactElement =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+const bold = (text: string): MarkElement => ({
+  id: id(),
+  marks: ['bold'],
+  children: [text],
+});
+
+const a = { className: 'a' };
+const b = { className: 'b' };
+
+test('getTextDecorations', () => {
+  const element = el('div', [
+    el('p', ['abc', bold('de'), 'f']),
+    el('p', ['']),
+    el('p', ['gh']),
+  ]);
+  const decorations = getTextDecorations(element, [
+    {
+      selection: unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 2] }),
+      attrs: a,
+    },
+    // Backward selection across texts and elements.
+    {
+      selection: unsafeSelection({ anchor: [2, 0, 1], focus: [0, 1, 0, 1] }),
+      attrs: b,
+    },
+  ]);
+  expect(Array.from(decorations.entries())).toEqual([
+    ['0,0', [{ start: 1, end: 2, attrs: a }]],
+    ['0,1,0', [{ start: 1, end: 2, attrs: b }]],
+    ['0,2', [{ start: 0, end: 1, attrs: b }]],
+    ['2,0', [{ start: 0, end: 1, attrs: b }]],
+  ]);
+  // Collapsed selections and selections at text boundaries have no ranges.
+  expect(
+    getTextDecorations(element, [
+      {
+        selection: unsafeSelection({ anchor: [0, 0, 3], focus: [0, 1, 0, 0] }),
+        attrs: a,
+      },
+      {
+        selection: unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] }),
+        attrs: a,
+      },
+    ]).size,
+  ).toBe(0);
+});
+
+test('splitTextByDecorations', () => {
+  expect(splitTextByDecorations('abcd', [])).toEqual([
+    { text: 'abcd', attrs: [] },
+  ]);
+  expect(
+    splitTextByDecorations('abcd', [
+      { start: 1, end: 3, attrs: a },
+      { start: 2, end: 4, attrs: b },
+    ]),
+  ).toEqual([
+    { text: 'a', attrs: [] },
+    { text: 'b', attrs: [a] },
+    { text: 'c', attrs: [a, b] },
+    { text: 'd', attrs: [b] },
+  ]);
+});
@@ -0,0 +1,107 @@
+import { snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  Decoration,
+  DecorationAttrs,
+  Element,
+  NonEmptyPath,
+  PathIndex,
+  TextDecoration,
+  TextSegment,
+} from '../types';
+import { byTreeOrder, eqPath, initNonEmptyPath } from './path';
+import { selectionToRange } from './selection';
+import { isText, textIsBR } from './text';
+
+interface TextWithPath {
+  readonly path: NonEmptyPath;
+  readonly length: number;
+}
+
+const getTexts = (element: Element, path: number[] = []): TextWithPath[] =>
+  element.children.reduce<TextWithPath[]>((texts, child, index) => {
+    const childPath = [...path, index] as NonEmptyPath;
+    if (!isText(child)) return texts.concat(getTexts(child, childPath));
+    // BRs have no text to decorate.
+    if (textIsBR(child)) return texts;
+    texts.push({ path: childPath, length: child.length });
+    return texts;
+  }, []);
+
+const isBefore = (x: NonEmptyPath, y: NonEmptyPath) =>
+  byTreeOrder.compare(x, y) < 0;
+
+/**
+ * Ranges of decorations within texts, by text paths joined with a comma.
+ * Decorations spanning several texts are split, and BRs are skipped.
+ */
+export const getTextDecorations = (
+  element: Element,
+  decorations: Decoration[],
+): Map<string, TextDecoration[]> => {
+  const textDecorations = new Map<string, TextDecoration[]>();
+  if (decorations.length === 0) return textDecorations;
+  const texts = getTexts(element);
+  const textPoint = ({ path }: TextWithPath, offset: number) =>
+    snoc(path, offset as PathIndex);
+  decorations.forEach(({ selection, attrs }) => {
+    const { start, end } = selectionToRange(selection);
+    // Binary search for the first text not ending before the start.
+    let low = 0;
+    let high = texts.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const text = texts[middle];
+      if (isBefore(textPoint(text, text.length), start)) low = middle + 1;
+      else high = middle;
+    }
+    for (
+      let i = low;
+      i < texts.length && isBefore(textPoint(texts[i], 0), end);
+      i++
+    ) {
+      const text = texts[i];
+      const startOffset = eqPath.equals(initNonEmptyPath(start), text.path)
+        ? Math.min(start[start.length - 1], text.length)
+        : 0;
+      const endOffset = eqPath.equals(initNonEmptyPath(end), text.path)
+        ? Math.min(end[end.length - 1], text.length)
+        : text.length;
+      if (startOffset < endOffset) {
+        const key = text.path.join();
+        const current = textDecorations.get(key) || [];
+        textDecorations.set(key, [
+          ...current,
+          { start: startOffset, end: endOffset, attrs },
+        ]);
+      }
+    }
+  });
+  return textDecorations;
+};
+
+/**
+ * Split the text at decoration boundaries. Every segment has attrs of all
+ * decorations covering it, in the order of decorations.
+ */
+export const splitTextByDecorations = (
+  text: string,
+  decorations: TextDecoration[],
+): TextSegment[] => {
+  const boundaries = Array.from(
+    new Set([
+      0,
+      text.length,
+      ...decorations.map(({ start }) => start),
+      ...decorations.map(({ end }) => end),
+    ]),
+  )
+    .filter(offset => offset >= 0 && offset <= text.length)
+    .sort((a, b) => a - b);
+  return boundaries.slice(1).map((end, index) => {
+    const start = boundaries[index];
+    const attrs: DecorationAttrs[] = decorations
+      .filter(decoration => decoration.start <= start && decoration.end >= end)
+      .map(decoration => decoration.attrs);
+    return { text: text.slice(start, end), attrs };
+  });
+};
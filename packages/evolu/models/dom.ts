@@ -50,6 +50,12 @@ export const getDOMRangeFromInputEvent = (
   // @ts-ignore Outdated types.
   fromNullable(event.getTargetRanges()[0]);
 
+export const getDataTransferFromInputEvent = (
+  event: InputEvent,
+): Option<DataTransfer> =>
+  // @ts-ignore Outdated types.
+  fromNullable(event.dataTransfer);
+
 export const isCollapsedDOMSelectionOnTextOrBR: Predicate<DOMSelection> = selection =>
   selection.isCollapsed &&
   (isDOMText(selection.focusNode) ||
@@ -1,5 +1,5 @@
 import { pipe } from 'fp-ts/lib/pipeable';
-import { fold } from 'fp-ts/lib/Option';
+import { fold, none, some } from 'fp-ts/lib/Option';
 import { constVoid } from 'fp-ts/lib/function';
 import { createStableIDFactory } from '../../web/tests/integration/helpers';
 import {
@@ -8,9 +8,37 @@ import {
   childrenLens,
   getChildAt,
   eqElement,
+  splitElement,
+  getFirstSelectionPoint,
+  elementToIDless,
+  deleteContentElement,
+  getNode,
+  getParent,
+  getChildrenCount,
+  hasChildren,
+  getFirstChildPath,
+  getLastChildPath,
+  getPreviousSiblingPath,
+  getNextSiblingPath,
+  getLastInclusiveDescendantPath,
+  getPrecedingPath,
+  getFollowingPath,
+  getAncestors,
+  getChildrenPaths,
+  getDescendantPaths,
+  removeNode,
+  insertBefore,
+  insertAfter,
+  prependChild,
+  appendChild,
+  getParentBlockPath,
+  insertFragmentElement,
+  getFragment,
 } from './element';
-import { Element } from '../types';
-import { toPathIndex } from './path';
+import { Element, MarkElement, ReactElement } from '../types';
+import { toPathIndex, unsafeNonEmptyPath, unsafePath } from './path';
+
+const nonEmptyPath = unsafeNonEmptyPath;
 
 const id = createStableIDFactory();
 
@@ -147,6 +175,757 @@ test('eqElement', () => {
   expect(eqElement.equals(el1, el2)).toBe(true);
   el2.children.push(el1);
   expect(eqElement.equals(el1, el2)).toBe(false);
+  // Other properties are compared structurally.
+  const p = (props: {}) =>
+    ({ id: someId, tag: 'p', props, children: [] } as Element);
+  expect(
+    eqElement.equals(
+      p({ style: { color: 'red' } }),
+      p({ style: { color: 'red' } }),
+    ),
+  ).toBe(true);
+  expect(
+    eqElement.equals(p({ style: { color: 'red' } }), p({ style: {} })),
+  ).toBe(false);
+  expect(eqElement.equals(p({}), { ...p({}), tag: 'div' } as Element)).toBe(
+    false,
+  );
+  expect(
+    eqElement.equals(
+      { id: someId, marks: ['bold'], children: [] } as Element,
+      { id: someId, marks: ['bold', 'italic'], children: [] } as Element,
+    ),
+  ).toBe(false);
+});
+
+test('splitElement splits text', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['ab'] }],
+  };
+  const path = nonEmptyPath([0]);
+  const splitted = splitElement({ path, point: nonEmptyPath([0, 0, 1]) })(
+    element,
+  );
+  expect(elementToIDless(splitted)).toEqual({
+    children: [{ children: ['a'] }, { children: ['b'] }],
+  });
+  const [first, second] = splitted.children as Element[];
+  expect(first.id).toBe((element.children[0] as Element).id);
+  expect(second.id).not.toBe(first.id);
+});
+
+test('splitElement leaves BR in empty parts', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['ab'] }],
+  };
+  const path = nonEmptyPath([0]);
+  expect(
+    elementToIDless(
+      splitElement({ path, point: nonEmptyPath([0, 0, 2]) })(element),
+    ),
+  ).toEqual({ children: [{ children: ['ab'] }, { children: [''] }] });
+  expect(
+    elementToIDless(
+      splitElement({ path, point: nonEmptyPath([0, 0, 0]) })(element),
+    ),
+  ).toEqual({ children: [{ children: [''] }, { children: ['ab'] }] });
+  // BR is selected via its parent element.
+  expect(
+    elementToIDless(
+      splitElement({ path, point: nonEmptyPath([0, 0]) })({
+        id: id(),
+        children: [{ id: id(), children: [''] }],
+      }),
+    ),
+  ).toEqual({ children: [{ children: [''] }, { children: [''] }] });
+});
+
+test('splitElement splits nested elements', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      {
+        id: id(),
+        children: [
+          'a',
+          { id: id(), children: ['bc'] },
+          'd',
+          { id: id(), children: ['e'] },
+        ],
+      },
+    ],
+  };
+  const splitted = splitElement({
+    path: nonEmptyPath([0]),
+    point: nonEmptyPath([0, 1, 0, 1]),
+  })(element);
+  expect(elementToIDless(splitted)).toEqual({
+    children: [
+      { children: ['a', { children: ['b'] }] },
+      { children: [{ children: ['c'] }, 'd', { children: ['e'] }] },
+    ],
+  });
+  // Untouched nodes are preserved.
+  expect((splitted.children[1] as Element).children[2]).toBe(
+    (element.children[0] as Element).children[3],
+  );
+  // Split text at the edge is not left as BR.
+  expect(
+    elementToIDless(
+      splitElement({
+        path: nonEmptyPath([0]),
+        point: nonEmptyPath([0, 2, 0]),
+      })(element),
+    ),
+  ).toEqual({
+    children: [
+      { children: ['a', { children: ['bc'] }] },
+      { children: ['d', { children: ['e'] }] },
+    ],
+  });
+});
+
+test('splitElement splits list item', () => {
+  // The list from SchemaExample.
+  const element: Element = {
+    id: id(),
+    children: [
+      {
+        id: id(),
+        children: [
+          {
+            id: id(),
+            children: [
+              'listitem',
+              { id: id(), children: [{ id: id(), children: ['nested'] }] },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  expect(
+    elementToIDless(
+      splitElement({
+        path: nonEmptyPath([0, 0]),
+        point: nonEmptyPath([0, 0, 0, 4]),
+      })(element),
+    ),
+  ).toEqual({
+    children: [
+      {
+        children: [
+          { children: ['list'] },
+          { children: ['item', { children: [{ children: ['nested'] }] }] },
+        ],
+      },
+    ],
+  });
+});
+
+test('splitElement ignores point outside of element', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['a'] },
+      { id: id(), children: ['b'] },
+    ],
+  };
+  expect(
+    splitElement({ path: nonEmptyPath([0]), point: nonEmptyPath([1, 0, 0]) })(
+      element,
+    ),
+  ).toBe(element);
+});
+
+test('getFirstSelectionPoint', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: [{ id: id(), children: ['a'] }] },
+      { id: id(), children: [''] },
+      { id: id(), children: [] },
+    ],
+  };
+  expect(getFirstSelectionPoint(element)(unsafePath([0]))).toEqual([
+    0,
+    0,
+    0,
+    0,
+  ]);
+  expect(getFirstSelectionPoint(element)(unsafePath([1]))).toEqual([1, 0]);
+  expect(getFirstSelectionPoint(element)(unsafePath([2]))).toEqual([2, 0]);
+});
+
+const deleteContent = (element: Element, start: number[], end: number[]) => {
+  const result = deleteContentElement({
+    start: nonEmptyPath(start),
+    end: nonEmptyPath(end),
+  })(element);
+  return { element: elementToIDless(result.element), point: result.point };
+};
+
+test('deleteContentElement within text', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['abc'] }],
+  };
+  expect(deleteContent(element, [0, 0, 1], [0, 0, 2])).toEqual({
+    element: { children: [{ children: ['ac'] }] },
+    point: [0, 0, 1],
+  });
+  // Deleted text becomes BR.
+  expect(deleteContent(element, [0, 0, 0], [0, 0, 3])).toEqual({
+    element: { children: [{ children: [''] }] },
+    point: [0, 0],
+  });
+  expect(
+    deleteContentElement({
+      start: nonEmptyPath([0, 0, 1]),
+      end: nonEmptyPath([0, 0, 1]),
+    })(element).element,
+  ).toBe(element);
+});
+
+test('deleteContentElement merges blocks', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['ab'] },
+      { id: id(), children: ['cd'] },
+      { id: id(), children: ['ef'] },
+    ],
+  };
+  expect(deleteContent(element, [0, 0, 1], [2, 0, 1])).toEqual({
+    element: { children: [{ children: ['af'] }] },
+    point: [0, 0, 1],
+  });
+  expect(deleteContent(element, [0, 0, 0], [1, 0, 1])).toEqual({
+    element: { children: [{ children: ['d'] }, { children: ['ef'] }] },
+    point: [0, 0, 0],
+  });
+  expect(deleteContent(element, [0, 0, 2], [1, 0, 0])).toEqual({
+    element: { children: [{ children: ['abcd'] }, { children: ['ef'] }] },
+    point: [0, 0, 2],
+  });
+  expect(deleteContent(element, [0, 0, 0], [2, 0, 2])).toEqual({
+    element: { children: [{ children: [''] }] },
+    point: [0, 0],
+  });
+});
+
+test('deleteContentElement with element positions', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['ab'] },
+      { id: id(), children: ['cd'] },
+    ],
+  };
+  expect(deleteContent(element, [0], [1])).toEqual({
+    element: { children: [{ children: ['cd'] }] },
+    point: [0, 0, 0],
+  });
+  expect(deleteContent(element, [0], [0, 0, 1])).toEqual({
+    element: { children: [{ children: ['b'] }, { children: ['cd'] }] },
+    point: [0, 0, 0],
+  });
+});
+
+test('deleteContentElement merges nested blocks', () => {
+  // List from SchemaExample.
+  const element: Element = {
+    id: id(),
+    children: [
+      {
+        id: id(),
+        children: [
+          { id: id(), children: ['ab'] },
+          { id: id(), children: ['cd'] },
+        ],
+      },
+      { id: id(), children: ['ef'] },
+    ],
+  };
+  expect(deleteContent(element, [0, 0, 0, 1], [1, 0, 1])).toEqual({
+    element: { children: [{ children: [{ children: ['af'] }] }] },
+    point: [0, 0, 0, 1],
+  });
+  expect(deleteContent(element, [0, 0, 0, 1], [0, 1, 0, 1])).toEqual({
+    element: {
+      children: [{ children: [{ children: ['ad'] }] }, { children: ['ef'] }],
+    },
+    point: [0, 0, 0, 1],
+  });
+});
+
+test('deleteContentElement removes emptied ancestors', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['ab'] },
+      {
+        id: id(),
+        children: [
+          {
+            id: id(),
+            children: [
+              'cd',
+              { id: id(), children: [{ id: id(), children: ['ef'] }] },
+            ],
+          },
+          { id: id(), children: ['gh'] },
+        ],
+      },
+    ],
+  };
+  expect(deleteContent(element, [0, 0, 1], [1, 0, 1, 0, 0, 1])).toEqual({
+    element: {
+      children: [{ children: ['af'] }, { children: [{ children: ['gh'] }] }],
+    },
+    point: [0, 0, 1],
+  });
+});
+
+test('deleteContentElement merges block into text', () => {
+  const element: Element = {
+    id: id(),
+    children: ['ab', { id: id(), children: ['cd'] }, 'ef'],
+  };
+  expect(deleteContent(element, [0, 1], [1, 0, 1])).toEqual({
+    element: { children: ['adef'] },
+    point: [0, 1],
+  });
+});
+
+const list: Element = {
+  id: id(),
+  children: [
+    { id: id(), children: ['a'] },
+    { id: id(), children: ['b'] },
+  ],
+};
+const tree: Element = {
+  id: id(),
+  children: [list, { id: id(), children: ['c'] }],
+};
+const n = unsafeNonEmptyPath;
+
+test('getNode and getParent', () => {
+  expect(getNode(tree)(n([0]))).toEqual(some(list));
+  expect(getNode(tree)(n([0, 1, 0]))).toEqual(some('b'));
+  expect(getNode(tree)(n([0, 2]))).toEqual(none);
+  expect(getParent(tree)(n([0, 1]))).toEqual(some(list));
+  expect(getParent(tree)(n([0]))).toEqual(some(tree));
+});
+
+test('getChildrenCount and hasChildren', () => {
+  expect(getChildrenCount(tree)(unsafePath([]))).toEqual(some(2));
+  expect(getChildrenCount(tree)(unsafePath([0, 0, 0]))).toEqual(none);
+  expect(hasChildren(tree)(unsafePath([0]))).toBe(true);
+  expect(hasChildren(tree)(unsafePath([0, 0, 0]))).toBe(false);
+});
+
+test('getFirstChildPath and getLastChildPath', () => {
+  expect(getFirstChildPath(tree)(unsafePath([0]))).toEqual(some([0, 0]));
+  expect(getLastChildPath(tree)(unsafePath([0]))).toEqual(some([0, 1]));
+  expect(getFirstChildPath(tree)(unsafePath([0, 0, 0]))).toEqual(none);
+  expect(getFirstChildPath({ id: id(), children: [] })(unsafePath([]))).toEqual(
+    none,
+  );
+});
+
+test('getPreviousSiblingPath and getNextSiblingPath', () => {
+  expect(getPreviousSiblingPath(tree)(n([0, 1]))).toEqual(some([0, 0]));
+  expect(getPreviousSiblingPath(tree)(n([0, 0]))).toEqual(none);
+  expect(getNextSiblingPath(tree)(n([0, 0]))).toEqual(some([0, 1]));
+  expect(getNextSiblingPath(tree)(n([0, 1]))).toEqual(none);
+});
+
+test('getLastInclusiveDescendantPath', () => {
+  expect(getLastInclusiveDescendantPath(tree)(n([0]))).toEqual([0, 1, 0]);
+  expect(getLastInclusiveDescendantPath(tree)(n([1, 0]))).toEqual([1, 0]);
+});
+
+test('getPrecedingPath and getFollowingPath', () => {
+  expect(getPrecedingPath(tree)(n([1]))).toEqual(some([0, 1, 0]));
+  expect(getPrecedingPath(tree)(n([0, 1]))).toEqual(some([0, 0, 0]));
+  expect(getPrecedingPath(tree)(n([0, 0]))).toEqual(some([0]));
+  expect(getPrecedingPath(tree)(n([0]))).toEqual(none);
+  expect(getFollowingPath(tree)(n([0]))).toEqual(some([0, 0]));
+  expect(getFollowingPath(tree)(n([0, 0, 0]))).toEqual(some([0, 1]));
+  expect(getFollowingPath(tree)(n([0, 1, 0]))).toEqual(some([1]));
+  expect(getFollowingPath(tree)(n([1, 0]))).toEqual(none);
+});
+
+test('getAncestors', () => {
+  expect(getAncestors(tree)(n([0, 1, 0]))).toEqual(
+    some([list.children[1], list, tree]),
+  );
+  expect(getAncestors(tree)(n([1]))).toEqual(some([tree]));
+  expect(getAncestors(tree)(n([2]))).toEqual(none);
+});
+
+test('getChildrenPaths and getDescendantPaths', () => {
+  expect(getChildrenPaths(tree)(unsafePath([0]))).toEqual([
+    [0, 0],
+    [0, 1],
+  ]);
+  expect(getDescendantPaths(tree)(unsafePath([]))).toEqual([
+    [0],
+    [0, 0],
+    [0, 0, 0],
+    [0, 1],
+    [0, 1, 0],
+    [1],
+    [1, 0],
+  ]);
+});
+
+test('removeNode', () => {
+  expect(elementToIDless(removeNode(n([0, 0]))(tree))).toEqual({
+    children: [{ children: [{ children: ['b'] }] }, { children: ['c'] }],
+  });
+  expect(removeNode(n([0, 2]))(tree)).toBe(tree);
+});
+
+test('insertBefore and insertAfter', () => {
+  expect(
+    elementToIDless(insertBefore({ path: n([1, 0]), node: 'x' })(tree)),
+  ).toEqual({
+    children: [
+      { children: [{ children: ['a'] }, { children: ['b'] }] },
+      { children: ['x', 'c'] },
+    ],
+  });
+  expect(
+    elementToIDless(insertAfter({ path: n([1, 0]), node: 'x' })(tree)),
+  ).toEqual({
+    children: [
+      { children: [{ children: ['a'] }, { children: ['b'] }] },
+      { children: ['c', 'x'] },
+    ],
+  });
+  expect(insertAfter({ path: n([1, 1]), node: 'x' })(tree)).toBe(tree);
+});
+
+test('prependChild and appendChild', () => {
+  expect(
+    elementToIDless(prependChild({ path: unsafePath([1]), node: 'x' })(tree)),
+  ).toEqual({
+    children: [
+      { children: [{ children: ['a'] }, { children: ['b'] }] },
+      { children: ['x', 'c'] },
+    ],
+  });
+  expect(
+    elementToIDless(appendChild({ path: unsafePath([1]), node: 'x' })(tree)),
+  ).toEqual({
+    children: [
+      { children: [{ children: ['a'] }, { children: ['b'] }] },
+      { children: ['c', 'x'] },
+    ],
+  });
+});
+
+const markElement = (element: MarkElement) => element;
+
+test('deleteContentElement keeps inline elements', () => {
+  const link = (children: string[]) =>
+    ({ id: id(), tag: 'a', props: { href: 'x' }, children } as ReactElement);
+  const bold = (children: string[]) =>
+    markElement({ id: id(), marks: ['bold'], children });
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['ab', bold(['cd']), 'ef'] }],
+  };
+  expect(deleteContent(element, [0, 0, 1], [0, 1, 0, 1])).toEqual({
+    element: {
+      children: [
+        { children: ['a', { marks: ['bold'], children: ['d'] }, 'ef'] },
+      ],
+    },
+    point: [0, 0, 1],
+  });
+  // Emptied inline element is removed.
+  expect(deleteContent(element, [0, 1, 0, 0], [0, 1, 0, 2])).toEqual({
+    element: { children: [{ children: ['abef'] }] },
+    point: [0, 0, 2],
+  });
+  expect(deleteContent(element, [0, 0, 0], [0, 2, 2])).toEqual({
+    element: { children: [{ children: [''] }] },
+    point: [0, 0],
+  });
+  const withLink: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['x', bold(['foo']), link(['ln'])] }],
+  };
+  expect(deleteContent(withLink, [0, 0, 0], [0, 2, 0, 1])).toEqual({
+    element: {
+      children: [
+        { children: [{ tag: 'a', props: { href: 'x' }, children: ['n'] }] },
+      ],
+    },
+    point: [0, 0, 0, 0],
+  });
+});
+
+test('deleteContentElement merges blocks with inline elements', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['ab'] },
+      {
+        id: id(),
+        children: [
+          markElement({ id: id(), marks: ['bold'], children: ['cd'] }),
+          'ef',
+        ],
+      },
+    ],
+  };
+  expect(deleteContent(element, [0, 0, 1], [1, 0, 0, 1])).toEqual({
+    element: {
+      children: [
+        { children: ['a', { marks: ['bold'], children: ['d'] }, 'ef'] },
+      ],
+    },
+    point: [0, 0, 1],
+  });
+  // The point at the start of the mark stays in the mark.
+  expect(deleteContent(element, [1, 0, 0, 0], [1, 0, 0, 1])).toEqual({
+    element: {
+      children: [
+        { children: ['ab'] },
+        { children: [{ marks: ['bold'], children: ['d'] }, 'ef'] },
+      ],
+    },
+    point: [1, 0, 0, 0],
+  });
+});
+
+test('getParentBlockPath', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      {
+        id: id(),
+        children: [
+          'a',
+          markElement({ id: id(), marks: ['bold'], children: ['b'] }),
+        ],
+      },
+      'c',
+    ],
+  };
+  const getPath = (point: number[]) =>
+    getParentBlockPath(element)(nonEmptyPath(point));
+  expect(getPath([0, 0, 1])).toEqual([0]);
+  expect(getPath([0, 1, 0, 1])).toEqual([0]);
+  expect(getPath([0, 1])).toEqual([0]);
+  expect(getPath([1, 0])).toEqual([]);
+});
+
+test('insertFragmentElement', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['ab'] },
+      {
+        id: id(),
+        children: [
+          markElement({ id: id(), marks: ['bold'], children: ['cd'] }),
+        ],
+      },
+      { id: id(), children: [''] },
+    ],
+  };
+  const insert = (point: number[], fragment: Element['children']) => {
+    const next = insertFragmentElement({
+      point: nonEmptyPath(point),
+      fragment,
+    })(element);
+    return { element: elementToIDless(next.element), point: next.point };
+  };
+
+  expect(insert([0, 0, 1], [])).toEqual({
+    element: elementToIDless(element),
+    point: [0, 0, 1],
+  });
+
+  expect(insert([0, 0, 1], ['x'])).toEqual({
+    element: {
+      children: [
+        { children: ['axb'] },
+        { children: [{ marks: ['bold'], children: ['cd'] }] },
+        { children: [''] },
+      ],
+    },
+    point: [0, 0, 2],
+  });
+
+  // Mark element is split.
+  expect(
+    insert(
+      [1, 0, 0, 1],
+      ['x', markElement({ id: id(), marks: ['italic'], children: ['y'] })],
+    ),
+  ).toEqual({
+    element: {
+      children: [
+        { children: ['ab'] },
+        {
+          children: [
+            { marks: ['bold'], children: ['c'] },
+            'x',
+            { marks: ['italic'], children: ['y'] },
+            { marks: ['bold'], children: ['d'] },
+          ],
+        },
+        { children: [''] },
+      ],
+    },
+    point: [1, 2, 0, 1],
+  });
+
+  // BR is replaced.
+  expect(insert([2, 0], ['x'])).toEqual({
+    element: {
+      children: [
+        { children: ['ab'] },
+        { children: [{ marks: ['bold'], children: ['cd'] }] },
+        { children: ['x'] },
+      ],
+    },
+    point: [2, 0, 1],
+  });
+
+  // One block is inserted like its content.
+  expect(insert([0, 0, 2], [{ id: id(), children: ['x'] }])).toEqual({
+    element: {
+      children: [
+        { children: ['abx'] },
+        { children: [{ marks: ['bold'], children: ['cd'] }] },
+        { children: [''] },
+      ],
+    },
+    point: [0, 0, 3],
+  });
+
+  // Blocks split the block.
+  expect(
+    insert(
+      [0, 0, 1],
+      [
+        { id: id(), children: ['x'] },
+        { id: id(), children: ['y'] },
+        { id: id(), children: ['z'] },
+      ],
+    ),
+  ).toEqual({
+    element: {
+      children: [
+        { children: ['ax'] },
+        { children: ['y'] },
+        { children: ['zb'] },
+        { children: [{ marks: ['bold'], children: ['cd'] }] },
+        { children: [''] },
+      ],
+    },
+    point: [2, 0, 1],
+  });
+
+  // Inline nodes around blocks are merged into split parts.
+  expect(
+    insert([1, 0, 0, 2], ['x', { id: id(), children: ['y'] }, 'z']),
+  ).toEqual({
+    element: {
+      children: [
+        { children: ['ab'] },
+        { children: [{ marks: ['bold'], children: ['cd'] }, 'xy'] },
+        { children: ['z'] },
+        { children: [''] },
+      ],
+    },
+    point: [2, 0, 1],
+  });
+});
+
+test('insertFragmentElement inserts inline elements into text', () => {
+  const link = (children: string[]) =>
+    ({ id: id(), tag: 'a', props: { href: 'x' }, children } as ReactElement);
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), tag: 'p', props: {}, children: ['abcd'] } as Element,
+    ],
+  };
+  const next = insertFragmentElement({
+    point: nonEmptyPath([0, 0, 2]),
+    fragment: ['see ', link(['this']), ' link'],
+  })(element);
+  expect(elementToIDless(next.element)).toEqual({
+    children: [
+      {
+        tag: 'p',
+        props: {},
+        children: [
+          'absee ',
+          { tag: 'a', props: { href: 'x' }, children: ['this'] },
+          ' linkcd',
+        ],
+      },
+    ],
+  });
+  expect(next.point).toEqual([0, 2, 5]);
+  // The point in the link is in the same block.
+  expect(getParentBlockPath(next.element)(nonEmptyPath([0, 1, 0, 1]))).toEqual([
+    0,
+  ]);
+});
+
+test('getFragment', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      {
+        id: id(),
+        children: [
+          'ab',
+          markElement({ id: id(), marks: ['bold'], children: ['cd'] }),
+        ],
+      },
+      { id: id(), children: [''] },
+      { id: id(), children: ['ef'] },
+    ],
+  };
+  const copy = (start: number[], end: number[]) =>
+    getFragment({ start: nonEmptyPath(start), end: nonEmptyPath(end) })(
+      element,
+    ).map(node => (typeof node === 'string' ? node : elementToIDless(node)));
+
+  expect(copy([0, 0, 1], [0, 0, 1])).toEqual([]);
+  expect(copy([0, 0, 1], [0, 1, 0, 1])).toEqual([
+    'b',
+    { marks: ['bold'], children: ['c'] },
+  ]);
+  // The mark element containing the range is kept.
+  expect(copy([0, 1, 0, 0], [0, 1, 0, 1])).toEqual([
+    { marks: ['bold'], children: ['c'] },
+  ]);
+  expect(copy([0, 1, 0, 1], [2, 0, 1])).toEqual([
+    { children: [{ marks: ['bold'], children: ['d'] }] },
+    { children: [''] },
+    { children: ['e'] },
+  ]);
+  // Copied elements get new IDs.
+  const [block] = getFragment({
+    start: nonEmptyPath([0, 0, 0]),
+    end: nonEmptyPath([2, 0, 0]),
+  })(element) as Element[];
+  expect(block.id).not.toBe((element.children[0] as Element).id);
 });
 
 // eslint-disable-next-line jest/no-commented-out-tests
@@ -1,29 +1,90 @@
-import { getEq, last, unsafeUpdateAt } from 'fp-ts/lib/Array';
-import { Eq, fromEquals, getStructEq, strictEqual } from 'fp-ts/lib/Eq';
+import { findFirst, getEq, last, unsafeUpdateAt } from 'fp-ts/lib/Array';
+import { Eq, fromEquals, strictEqual } from 'fp-ts/lib/Eq';
 import { Endomorphism, Predicate } from 'fp-ts/lib/function';
 import { IO } from 'fp-ts/lib/IO';
-import { last as lastNonEmptyArray } from 'fp-ts/lib/NonEmptyArray';
-import { chain, fold, fromPredicate } from 'fp-ts/lib/Option';
+import {
+  cons,
+  last as lastNonEmptyArray,
+  NonEmptyArray,
+  snoc,
+} from 'fp-ts/lib/NonEmptyArray';
+import {
+  alt,
+  chain,
+  exists,
+  filter,
+  fold,
+  fromPredicate,
+  getOrElse,
+  isSome,
+  map,
+  none,
+  Option,
+  some,
+} from 'fp-ts/lib/Option';
+import { gt } from 'fp-ts/lib/Ord';
 import { pipe } from 'fp-ts/lib/pipeable';
 import { Lens, Optional, Prism } from 'monocle-ts/lib';
 import { indexArray } from 'monocle-ts/lib/Index/Array';
 import nanoid from 'nanoid';
-import { Children, createElement } from 'react';
+import { Children, createElement, CSSProperties } from 'react';
 import {
   Element,
   ElementID,
+  Fragment,
+  Mark,
+  MarkElement,
   Node,
   NonEmptyPath,
   Path,
   PathIndex,
+  Range,
   ReactElement,
   RenderElement,
+  Text,
 } from '../types';
-import { initNonEmptyPath } from './path';
+import {
+  byContains,
+  byTreeOrder,
+  eqPath,
+  initNonEmptyPath,
+  toNonEmptyPath,
+  tryInitNonEmptyPath,
+} from './path';
 import { isText, isTextNotBR, textIsBR } from './text';
 
 export const eqElementID: Eq<ElementID> = { equals: strictEqual };
 
+const inlineTags = [
+  'a',
+  'abbr',
+  'b',
+  'cite',
+  'code',
+  'del',
+  'em',
+  'i',
+  'img',
+  'ins',
+  'kbd',
+  'mark',
+  'q',
+  's',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'u',
+];
+
+/**
+ * Mark elements and React elements with inline tags like a or code.
+ */
+export const isInlineElement: Predicate<Element> = element =>
+  MarkElement.is(element) ||
+  inlineTags.includes((element as Partial<ReactElement>).tag as string);
+
 export const eqNode: Eq<Node> = fromEquals((x, y) =>
   isText(x)
     ? isText(y)
@@ -38,12 +99,40 @@ export const eqNode: Eq<Node> = fromEquals((x, y) =>
 
 export const eqNodes = getEq(eqNode);
 
-// Recursive checking is cheap because fromEquals is using strict comparison.
-export const eqElement: Eq<Element> = getStructEq({
-  id: eqElementID,
-  children: eqNodes,
+/**
+ * Marks are equal regardless of their order.
+ */
+export const eqMarks: Eq<Mark[]> = fromEquals(
+  (x, y) => x.length === y.length && x.every(mark => y.includes(mark)),
+);
+
+type JSONRecord = { [key: string]: unknown };
+
+/**
+ * Structural equality of JSON like values, for example element props.
+ */
+export const eqJSON: Eq<unknown> = fromEquals((x, y) => {
+  if (typeof x !== 'object' || typeof y !== 'object' || x == null || y == null)
+    return false;
+  if (Array.isArray(x) !== Array.isArray(y)) return false;
+  const xKeys = Object.keys(x);
+  return (
+    xKeys.length === Object.keys(y).length &&
+    xKeys.every(
+      key =>
+        Object.prototype.hasOwnProperty.call(y, key) &&
+        eqJSON.equals((x as JSONRecord)[key], (y as JSONRecord)[key]),
+    )
+  );
 });
 
+// Recursive checking is cheap because fromEquals is using strict comparison.
+// Other properties like tag, props, or marks are compared structurally.
+export const eqElement: Eq<Element> = fromEquals(
+  ({ children: xChildren, ...x }, { children: yChildren, ...y }) =>
+    eqNodes.equals(xChildren, yChildren) && eqJSON.equals(x, y),
+);
+
 /**
  * Create ElementID via nanoid(8).
  * https://zelark.github.io/nano-id-cc
@@ -72,12 +161,33 @@ export const jsx = (element: JSX.Element): ReactElement => {
   };
 };
 
+const markStyles: { [mark in Mark]: CSSProperties } = {
+  bold: { fontWeight: 'bold' },
+  italic: { fontStyle: 'italic' },
+  underline: { textDecoration: 'underline' },
+  strikethrough: { textDecoration: 'line-through' },
+};
+
+// One span for all marks, so texts are its direct children.
+const getMarksStyle = (marks: Mark[]): CSSProperties => {
+  const style = marks.reduce<CSSProperties>(
+    (style, mark) => ({ ...style, ...markStyles[mark] }),
+    {},
+  );
+  if (marks.includes('underline') && marks.includes('strikethrough'))
+    return { ...style, textDecoration: 'underline line-through' };
+  return style;
+};
+
 export const renderReactElement: RenderElement = (element, children, ref) => {
   let tag = 'div';
   let props = {};
   if (ReactElement.is(element)) {
     tag = element.tag;
     props = element.props;
+  } else if (MarkElement.is(element)) {
+    tag = 'span';
+    props = { style: getMarksStyle(element.marks) };
   }
   if (Children.count(children) === 0) {
     return createElement(tag, { ...props, ref });
@@ -85,6 +195,12 @@ export const renderReactElement: RenderElement = (element, children, ref) => {
   return createElement(tag, { ...props, ref }, children);
 };
 
+/**
+ * Empty element is rendered as BR, so it can be selected.
+ */
+export const ensureBR = (children: Node[]) =>
+  children.length > 0 ? children : [''];
+
 /**
  * Like https://developer.mozilla.org/en-US/docs/Web/API/Node/normalize,
  * except strings can be empty. Empty strings are rendered as BR.
@@ -93,24 +209,54 @@ export const renderReactElement: RenderElement = (element, children, ref) => {
 export const normalizeElement: Endomorphism<Element> = element => {
   // This flag is good enough for now. We can use fp-ts These later.
   let somethingHasBeenNormalized = false;
-  const children = element.children.reduce<Node[]>((array, child) => {
-    if (Element.is(child)) {
-      const normalizedChild = normalizeElement(child);
-      if (normalizedChild !== child) somethingHasBeenNormalized = true;
-      return [...array, normalizedChild];
-    }
-    if (textIsBR(child)) return [...array, child];
+  const appendText = (array: Node[], text: Text): Node[] => {
+    if (textIsBR(text)) return [...array, text];
     return pipe(
       last(array),
       chain(fromPredicate(isTextNotBR)),
       fold(
-        () => [...array, child],
+        () => [...array, text],
         previousText => {
           somethingHasBeenNormalized = true;
-          return unsafeUpdateAt(array.length - 1, previousText + child, array);
+          return unsafeUpdateAt(array.length - 1, previousText + text, array);
         },
       ),
     );
+  };
+  const children = element.children.reduce<Node[]>((array, child) => {
+    if (Element.is(child)) {
+      const normalizedChild = normalizeElement(child);
+      if (normalizedChild !== child) somethingHasBeenNormalized = true;
+      if (!MarkElement.is(normalizedChild)) return [...array, normalizedChild];
+      // Mark element without marks is just text.
+      if (normalizedChild.marks.length === 0) {
+        somethingHasBeenNormalized = true;
+        return normalizedChild.children.reduce(appendText, array);
+      }
+      // Adjacent mark elements with equal marks are merged.
+      return pipe(
+        last(array),
+        filter(MarkElement.is),
+        filter(previous =>
+          eqMarks.equals(previous.marks, normalizedChild.marks),
+        ),
+        fold(
+          () => [...array, normalizedChild],
+          previous => {
+            somethingHasBeenNormalized = true;
+            return unsafeUpdateAt(
+              array.length - 1,
+              normalizeElement({
+                ...previous,
+                children: [...previous.children, ...normalizedChild.children],
+              }),
+              array,
+            );
+          },
+        ),
+      );
+    }
+    return appendText(array, child);
   }, []);
   // Preserve identity, otherwise it would always create new objects.
   // https://github.com/gcanti/fp-ts/issues/976
@@ -165,16 +311,20 @@ export const getElementTraversal = (path: Path): Optional<Element, Element> =>
     elementPrism.asOptional() as Optional<Element, Element>,
   );
 
+/**
+ * Focus on Node by Path.
+ */
+export const getNodeTraversal = (path: NonEmptyPath): Optional<Element, Node> =>
+  getElementTraversal(initNonEmptyPath(path))
+    .composeLens(childrenLens)
+    .composeOptional(getChildAt(lastNonEmptyArray(path)));
+
 /**
  * Focus on Text by Path.
  */
 export const getTextTraversal = (
   path: NonEmptyPath,
-): Optional<Element, string> =>
-  getElementTraversal(initNonEmptyPath(path))
-    .composeLens(childrenLens)
-    .composeOptional(getChildAt(lastNonEmptyArray(path)))
-    .composePrism(textPrism);
+): Optional<Element, string> => getNodeTraversal(path).composePrism(textPrism);
 
 export const setTextElement = ({
   text,
@@ -185,29 +335,814 @@ export const setTextElement = ({
 }): Endomorphism<Element> => element =>
   pipe(element, getTextTraversal(path).set(text));
 
-// TODO: Some of those from symbol-tree lib.
-// hasChildren
-// firstChild
-// lastChild
-// previousSibling
-// nextSibling
-// parent
-// lastInclusiveDescendant
-// preceding
-// following
-// childrenToArray
-// ancestorsToArray
-// treeToArray
-// childrenIterator
-// previousSiblingsIterator
-// nextSiblingsIterator
-// ancestorsIterator
-// treeIterator
-// index
-// childrenCount
-// compareTreePosition
-// remove
-// insertBefore
-// insertAfter
-// prependChild
-// appendChild
+export const getNode = (element: Element) => (
+  path: NonEmptyPath,
+): Option<Node> => getNodeTraversal(path).getOption(element);
+
+export const getParent = (element: Element) => (
+  path: NonEmptyPath,
+): Option<Element> =>
+  getElementTraversal(initNonEmptyPath(path)).getOption(element);
+
+export const getChildrenCount = (element: Element) => (
+  path: Path,
+): Option<number> =>
+  pipe(
+    getElementTraversal(path).getOption(element),
+    map(element => element.children.length),
+  );
+
+export const hasChildren = (element: Element) => (path: Path): boolean =>
+  pipe(
+    getChildrenCount(element)(path),
+    exists(count => count > 0),
+  );
+
+const toNodePath = (element: Element) => (
+  path: number[],
+): Option<NonEmptyPath> =>
+  pipe(
+    toNonEmptyPath(path),
+    filter(path => isSome(getNode(element)(path))),
+  );
+
+export const getFirstChildPath = (element: Element) => (
+  path: Path,
+): Option<NonEmptyPath> => toNodePath(element)([...path, 0]);
+
+export const getLastChildPath = (element: Element) => (
+  path: Path,
+): Option<NonEmptyPath> =>
+  pipe(
+    getChildrenCount(element)(path),
+    chain(count => toNodePath(element)([...path, count - 1])),
+  );
+
+export const getPreviousSiblingPath = (element: Element) => (
+  path: NonEmptyPath,
+): Option<NonEmptyPath> =>
+  toNodePath(element)([...initNonEmptyPath(path), lastNonEmptyArray(path) - 1]);
+
+export const getNextSiblingPath = (element: Element) => (
+  path: NonEmptyPath,
+): Option<NonEmptyPath> =>
+  toNodePath(element)([...initNonEmptyPath(path), lastNonEmptyArray(path) + 1]);
+
+/**
+ * The path of the last descendant in tree order, or the path itself.
+ */
+export const getLastInclusiveDescendantPath = (element: Element) => (
+  path: NonEmptyPath,
+): NonEmptyPath =>
+  pipe(
+    getLastChildPath(element)(path),
+    fold(() => path, getLastInclusiveDescendantPath(element)),
+  );
+
+/**
+ * The path of the previous node in tree order. The root is not a node.
+ */
+export const getPrecedingPath = (element: Element) => (
+  path: NonEmptyPath,
+): Option<NonEmptyPath> =>
+  pipe(
+    getPreviousSiblingPath(element)(path),
+    map(getLastInclusiveDescendantPath(element)),
+    alt(() => tryInitNonEmptyPath(path)),
+  );
+
+/**
+ * The path of the next node in tree order.
+ */
+export const getFollowingPath = (element: Element) => (
+  path: NonEmptyPath,
+): Option<NonEmptyPath> => {
+  const getNextSiblingOrAncestorSibling = (
+    path: NonEmptyPath,
+  ): Option<NonEmptyPath> =>
+    pipe(
+      getNextSiblingPath(element)(path),
+      alt(() =>
+        pipe(tryInitNonEmptyPath(path), chain(getNextSiblingOrAncestorSibling)),
+      ),
+    );
+  return pipe(
+    getFirstChildPath(element)(path),
+    alt(() => getNextSiblingOrAncestorSibling(path)),
+  );
+};
+
+/**
+ * Ancestors of the node at path, from its parent to the root.
+ */
+export const getAncestors = (element: Element) => (
+  path: NonEmptyPath,
+): Option<NonEmptyArray<Element>> => {
+  const ancestors = initNonEmptyPath(path).reduce<
+    Option<NonEmptyArray<Element>>
+  >(
+    (ancestors, index, i) =>
+      pipe(
+        ancestors,
+        chain(ancestors =>
+          pipe(
+            getElementTraversal(path.slice(0, i + 1) as Path).getOption(
+              element,
+            ),
+            map(parent => cons(parent, ancestors)),
+          ),
+        ),
+      ),
+    some([element]),
+  );
+  return pipe(
+    ancestors,
+    filter(() => isSome(getNode(element)(path))),
+  );
+};
+
+/**
+ * Paths of children of the element at path.
+ */
+export const getChildrenPaths = (element: Element) => (
+  path: Path,
+): NonEmptyPath[] =>
+  pipe(
+    getElementTraversal(path).getOption(element),
+    fold(
+      () => [],
+      ({ children }) =>
+        children.map((_, index) => snoc(path, index as PathIndex)),
+    ),
+  );
+
+/**
+ * Paths of all descendants of the element at path in tree order.
+ */
+export const getDescendantPaths = (element: Element) => (
+  path: Path,
+): NonEmptyPath[] =>
+  getChildrenPaths(element)(path).reduce<NonEmptyPath[]>(
+    (paths, childPath) => [
+      ...paths,
+      childPath,
+      ...getDescendantPaths(element)(childPath),
+    ],
+    [],
+  );
+
+const getTexts = (element: Element): [NonEmptyPath, Text][] =>
+  getDescendantPaths(element)([]).reduce<[NonEmptyPath, Text][]>(
+    (texts, path) =>
+      pipe(
+        getNode(element)(path),
+        fold(
+          () => texts,
+          node => (isTextNotBR(node) ? [...texts, [path, node]] : texts),
+        ),
+      ),
+    [],
+  );
+
+/**
+ * The count of chars before the point. It does not depend on how texts are
+ * split or wrapped into inline elements.
+ */
+export const getTextOffset = (element: Element) => (
+  point: NonEmptyPath,
+): number =>
+  getTexts(element).reduce((offset, [path, text]) => {
+    if (eqPath.equals(initNonEmptyPath(point), path))
+      return offset + Math.min(lastNonEmptyArray(point), text.length);
+    return byTreeOrder.compare(path, point) < 0 ? offset + text.length : offset;
+  }, 0);
+
+/**
+ * The text point of the text offset. An offset between two texts is at
+ * the start of the next text, or at the end of the previous text if backward.
+ */
+export const getPointByTextOffset = (element: Element, backward = false) => (
+  offset: number,
+): Option<NonEmptyPath> => {
+  const texts = getTexts(element).reduce<[NonEmptyPath, number, number][]>(
+    (texts, [path, text]) => {
+      const start = texts.length > 0 ? texts[texts.length - 1][2] : 0;
+      return [...texts, [path, start, start + text.length]];
+    },
+    [],
+  );
+  const isInText = ([, start, end]: [NonEmptyPath, number, number]) =>
+    backward
+      ? start < offset && offset <= end
+      : start <= offset && offset < end;
+  return pipe(
+    findFirst(isInText)(texts),
+    map(([path, start]) => snoc(path, (offset - start) as PathIndex)),
+    alt(() => (backward ? none : getPointByTextOffset(element, true)(offset))),
+  );
+};
+
+/**
+ * The selection point of the node at path. Text is selected at its start.
+ * Empty string is BR, and BR is selected via its parent element and index,
+ * like in DOM. Element is selected at its first selection point.
+ */
+export const getNodeSelectionPoint = (element: Element) => (
+  path: NonEmptyPath,
+): NonEmptyPath =>
+  pipe(
+    getNodeTraversal(path).getOption(element),
+    fold(
+      () => path,
+      node => {
+        if (isText(node))
+          return textIsBR(node) ? path : snoc(path, 0 as PathIndex);
+        // eslint-disable-next-line @typescript-eslint/no-use-before-define
+        return getFirstSelectionPoint(element)(path);
+      },
+    ),
+  );
+
+/**
+ * The first selection point in the element at path.
+ */
+export const getFirstSelectionPoint = (element: Element) => (
+  path: Path,
+): NonEmptyPath => getNodeSelectionPoint(element)(snoc(path, 0 as PathIndex));
+
+const splitNode = (node: Node, point: Path): [Node, Node] => {
+  if (isText(node)) {
+    const offset = point.length > 0 ? point[0] : node.length;
+    return [node.slice(0, offset), node.slice(offset)];
+  }
+  const [index, ...rest] = point;
+  const { children } = node;
+  const splitChildren = (): [Node[], Node[]] => {
+    const child = children[index];
+    if (rest.length === 0 || child == null)
+      return [children.slice(0, index), children.slice(index)];
+    const [left, right] = splitNode(child, rest);
+    const before = children.slice(0, index);
+    const after = children.slice(index + 1);
+    // Do not leave split text as BR next to other nodes.
+    return [
+      isText(left) && textIsBR(left) && before.length > 0
+        ? before
+        : [...before, left],
+      isText(right) && textIsBR(right) && after.length > 0
+        ? after
+        : [right, ...after],
+    ];
+  };
+  const [left, right] = splitChildren();
+  return [
+    { ...node, children: ensureBR(left) },
+    { ...node, id: id(), children: ensureBR(right) },
+  ];
+};
+
+/**
+ * Split the element at path into two siblings at the point. The point must be
+ * inside the element. The first part keeps its ID, the second part gets
+ * a new ID. Split descendants get new IDs as well.
+ */
+export const splitElement = ({
+  path,
+  point,
+}: {
+  path: NonEmptyPath;
+  point: NonEmptyPath;
+}): Endomorphism<Element> => element =>
+  pipe(
+    getElementTraversal(path).getOption(element),
+    filter(() => gt(byContains)(path, point)),
+    fold(
+      () => element,
+      child => {
+        const index = lastNonEmptyArray(path);
+        return pipe(
+          element,
+          getElementTraversal(initNonEmptyPath(path))
+            .composeLens(childrenLens)
+            .modify(children => [
+              ...children.slice(0, index),
+              ...splitNode(child, point.slice(path.length)),
+              ...children.slice(index + 1),
+            ]),
+        );
+      },
+    ),
+  );
+
+/**
+ * The path of the closest element containing the point, except inline
+ * elements like marks or links.
+ */
+export const getParentBlockPath = (element: Element) => (
+  point: NonEmptyPath,
+): Path => {
+  const parentPath = pipe(
+    tryInitNonEmptyPath(point),
+    filter(path => isSome(getTextTraversal(path).getOption(element))),
+    fold(() => initNonEmptyPath(point), initNonEmptyPath),
+  );
+  const skipInlines = (path: Path): Path =>
+    pipe(
+      toNonEmptyPath(path),
+      filter(path =>
+        pipe(
+          getElementTraversal(path).getOption(element),
+          exists(isInlineElement),
+        ),
+      ),
+      fold(
+        () => path,
+        path => skipInlines(initNonEmptyPath(path)),
+      ),
+    );
+  return skipInlines(parentPath);
+};
+
+const isInline = (node: Node) => isText(node) || isInlineElement(node);
+
+/**
+ * The length of all texts in the nodes.
+ */
+export const getTextLength = (nodes: Node[]): number =>
+  nodes.reduce(
+    (length, node) =>
+      length + (isText(node) ? node.length : getTextLength(node.children)),
+    0,
+  );
+
+// Splitting can leave an empty text or an inline element with empty texts.
+// Void inline elements like img have no children, so they are not empty.
+const isEmptyInline = (node: Node): boolean =>
+  isText(node)
+    ? textIsBR(node)
+    : isInlineElement(node) &&
+      node.children.length > 0 &&
+      node.children.every(isEmptyInline);
+
+const modifyChildren = (
+  path: Path,
+  f: Endomorphism<Node[]>,
+): Endomorphism<Element> =>
+  getElementTraversal(path)
+    .composeLens(childrenLens)
+    .modify(f);
+
+// Inline nodes at the edges emptied by deleting are removed, so they are not
+// left as BRs.
+const isDeletedInline = (node: Node): boolean =>
+  isText(node)
+    ? textIsBR(node)
+    : isInlineElement(node) && node.children.every(isEmptyInline);
+
+// Delete content between relative points. Missing start means from the
+// beginning, missing end means to the end.
+const deleteBetween = (element: Element, start?: Path, end?: Path): Element => {
+  const { children } = element;
+  const startIndex = start ? start[0] : 0;
+  const endIndex = end ? end[0] : children.length;
+  const startRest = start && start.length > 1 ? start.slice(1) : undefined;
+  const endRest = end && end.length > 1 ? end.slice(1) : undefined;
+  if (
+    endIndex < startIndex ||
+    (endIndex === startIndex && startRest && !endRest)
+  )
+    return element;
+  const deleteInEdge = (index: number, start?: Path, end?: Path): Node[] => {
+    const child = children[index];
+    if (child == null) return [];
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    const node = deleteInNode(child, start, end);
+    return isDeletedInline(node) ? [] : [node];
+  };
+  if (startRest && endRest && startIndex === endIndex) {
+    if (children[startIndex] == null) return element;
+    return {
+      ...element,
+      children: [
+        ...children.slice(0, startIndex),
+        ...deleteInEdge(startIndex, startRest, endRest),
+        ...children.slice(startIndex + 1),
+      ],
+    };
+  }
+  return {
+    ...element,
+    children: [
+      ...children.slice(0, startIndex),
+      ...(startRest ? deleteInEdge(startIndex, startRest) : []),
+      ...(endRest ? deleteInEdge(endIndex, undefined, endRest) : []),
+      ...children.slice(endRest ? endIndex + 1 : endIndex),
+    ],
+  };
+};
+
+const deleteInNode = (node: Node, start?: Path, end?: Path): Node =>
+  isText(node)
+    ? node.slice(0, start ? start[0] : 0) +
+      node.slice(end ? end[0] : node.length)
+    : deleteBetween(node, start, end);
+
+/**
+ * Delete content in the range. Inline elements like marks or links keep their
+ * remaining content, and emptied inline elements are removed. When the range
+ * starts and ends in different blocks, the rest of the end block is merged
+ * into the start block, and the end block is removed with its emptied
+ * ancestors. Returns the normalized element and the collapsed selection point.
+ */
+export const deleteContentElement = (range: Range) => (
+  element: Element,
+): { element: Element; point: NonEmptyPath } => {
+  const { start, end } = range;
+  const divergence = start.findIndex((index, i) => index !== end[i]);
+  if (divergence === -1 && start.length === end.length)
+    return { element, point: start };
+
+  const startBlockPath = getParentBlockPath(element)(start);
+  const endBlockPath = getParentBlockPath(element)(end);
+  const deleted = deleteBetween(element, start, end);
+
+  // Whether the ancestor of the start at the level is kept after deleting.
+  const isKeptAt = (level: number) =>
+    start.length > level + 1 &&
+    pipe(
+      getNode(element)(start.slice(0, level + 1) as NonEmptyPath),
+      exists(
+        node => !isDeletedInline(deleteInNode(node, start.slice(level + 1))),
+      ),
+    );
+
+  const mergeEndIntoStart = (level: number): Element => {
+    // Nodes before the end were deleted, so the end block ancestors are
+    // always the first children.
+    const endParentPath = [
+      ...start.slice(0, level),
+      start[level] + (isKeptAt(level) ? 1 : 0),
+      ...endBlockPath.slice(level + 1).map(() => 0),
+    ] as Path;
+    const insertIndex =
+      start[startBlockPath.length] + (isKeptAt(startBlockPath.length) ? 1 : 0);
+    return pipe(
+      getElementTraversal(endParentPath).getOption(deleted),
+      fold(
+        () => deleted,
+        endParent => {
+          // Remove the end block and its emptied ancestors.
+          const removeEmpty = (path: Path) => (element: Element): Element => {
+            if (path.length <= level) return element;
+            const isEmpty = pipe(
+              getElementTraversal(path).getOption(element),
+              exists(element => element.children.length === 0),
+            );
+            if (!isEmpty) return element;
+            const parentPath = path.slice(0, -1);
+            return pipe(
+              element,
+              modifyChildren(parentPath, children =>
+                children.filter(
+                  (_, index) => index !== path[parentPath.length],
+                ),
+              ),
+              removeEmpty(parentPath),
+            );
+          };
+          return pipe(
+            deleted,
+            modifyChildren(endParentPath, () => []),
+            removeEmpty(endParentPath),
+            modifyChildren(startBlockPath, children => [
+              ...children.slice(0, insertIndex),
+              ...endParent.children,
+              ...children.slice(insertIndex),
+            ]),
+          );
+        },
+      ),
+    );
+  };
+
+  // Only blocks are merged. The end block is merged, if it is not an ancestor
+  // of the start.
+  const merged =
+    divergence !== -1 && endBlockPath.length > divergence
+      ? mergeEndIntoStart(divergence)
+      : deleted;
+  const nextElement = normalizeElement(
+    modifyChildren(startBlockPath, ensureBR)(merged),
+  );
+
+  // Content before the start is not changed, so the point is found by its
+  // text offset in the start block. The point in a text stays at the end of
+  // the previous text.
+  const backward =
+    lastNonEmptyArray(start) > 0 &&
+    pipe(
+      tryInitNonEmptyPath(start),
+      exists(path => isSome(getTextTraversal(path).getOption(element))),
+    );
+  const getBlock = getElementTraversal(startBlockPath).getOption;
+  const point = pipe(
+    getBlock(element),
+    map(block =>
+      getTextOffset(block)(start.slice(startBlockPath.length) as NonEmptyPath),
+    ),
+    chain(offset =>
+      pipe(
+        getBlock(nextElement),
+        chain(block => getPointByTextOffset(block, backward)(offset)),
+      ),
+    ),
+    map(point => [...startBlockPath, ...point] as NonEmptyPath),
+    getOrElse(() => getFirstSelectionPoint(nextElement)(startBlockPath)),
+  );
+
+  return { element: nextElement, point };
+};
+
+// Copy content between relative points like deleteBetween. Texts emptied
+// by slicing are skipped, and copied elements get new IDs.
+const copyBetween = (element: Element, start?: Path, end?: Path): Node[] => {
+  const { children } = element;
+  const startIndex = start ? start[0] : 0;
+  const endIndex = end ? end[0] : children.length;
+  const startRest = start && start.length > 1 ? start.slice(1) : undefined;
+  const endRest = end && end.length > 1 ? end.slice(1) : undefined;
+  const lastIndex = endRest ? endIndex : endIndex - 1;
+  return children
+    .slice(startIndex, lastIndex + 1)
+    .reduce<Node[]>((nodes, child, i) => {
+      const index = startIndex + i;
+      const childStart = index === startIndex ? startRest : undefined;
+      const childEnd = index === endIndex ? endRest : undefined;
+      if (isText(child)) {
+        const text = child.slice(
+          childStart ? childStart[0] : 0,
+          childEnd ? childEnd[0] : child.length,
+        );
+        return text.length > 0 || textIsBR(child) ? [...nodes, text] : nodes;
+      }
+      const copied = copyBetween(child, childStart, childEnd);
+      if (MarkElement.is(child))
+        return copied.length > 0
+          ? [...nodes, { ...child, id: id(), children: copied }]
+          : nodes;
+      return [...nodes, { ...child, id: id(), children: ensureBR(copied) }];
+    }, []);
+};
+
+/**
+ * Copy content in the range, for example for drag and drop or clipboard.
+ * Elements partially in the range are sliced. Copied elements get new IDs,
+ * so the fragment can be inserted into the same element. The mark element
+ * containing the whole range is copied too, so its marks are kept.
+ */
+export const getFragment = (range: Range) => (element: Element): Fragment => {
+  const { start, end } = range;
+  const getParentPath = (point: NonEmptyPath): Path =>
+    pipe(
+      tryInitNonEmptyPath(point),
+      filter(path => isSome(getTextTraversal(path).getOption(element))),
+      fold(() => initNonEmptyPath(point), initNonEmptyPath),
+    );
+  const startParentPath = getParentPath(start);
+  const endParentPath = getParentPath(end);
+  const divergence = startParentPath.findIndex(
+    (index, i) => index !== endParentPath[i],
+  );
+  const parentPath =
+    divergence === -1 ? startParentPath : startParentPath.slice(0, divergence);
+  return pipe(
+    getElementTraversal(parentPath).getOption(element),
+    fold(
+      () => [],
+      parent => {
+        const nodes = copyBetween(
+          parent,
+          start.slice(parentPath.length),
+          end.slice(parentPath.length),
+        );
+        return MarkElement.is(parent) && nodes.length > 0
+          ? [{ ...parent, id: id(), children: nodes }]
+          : nodes;
+      },
+    ),
+  );
+};
+
+/**
+ * Copy of the fragment with new IDs, so it can be inserted into an element
+ * which can contain the original.
+ */
+export const fragmentWithNewIDs = (fragment: Fragment): Fragment =>
+  fragment.map(node =>
+    isText(node)
+      ? node
+      : { ...node, id: id(), children: fragmentWithNewIDs(node.children) },
+  );
+
+const spliceChildren = (
+  path: NonEmptyPath,
+  remove: number,
+  nodes: Node[],
+): Endomorphism<Element> => {
+  const index = lastNonEmptyArray(path);
+  return modifyChildren(initNonEmptyPath(path), children =>
+    index > children.length
+      ? children
+      : [
+          ...children.slice(0, index),
+          ...nodes,
+          ...children.slice(index + remove),
+        ],
+  );
+};
+
+/**
+ * Remove the node at path.
+ */
+export const removeNode = (
+  path: NonEmptyPath,
+): Endomorphism<Element> => element =>
+  isSome(getNode(element)(path))
+    ? spliceChildren(path, 1, [])(element)
+    : element;
+
+/**
+ * Insert the node before the node at path.
+ */
+export const insertBefore = ({
+  path,
+  node,
+}: {
+  path: NonEmptyPath;
+  node: Node;
+}): Endomorphism<Element> => element =>
+  isSome(getNode(element)(path))
+    ? spliceChildren(path, 0, [node])(element)
+    : element;
+
+/**
+ * Insert the node after the node at path.
+ */
+export const insertAfter = ({
+  path,
+  node,
+}: {
+  path: NonEmptyPath;
+  node: Node;
+}): Endomorphism<Element> => element =>
+  isSome(getNode(element)(path))
+    ? spliceChildren(
+        snoc(
+          initNonEmptyPath(path),
+          (lastNonEmptyArray(path) + 1) as PathIndex,
+        ),
+        0,
+        [node],
+      )(element)
+    : element;
+
+/**
+ * Insert the node as the first child of the element at path.
+ */
+export const prependChild = ({
+  path,
+  node,
+}: {
+  path: Path;
+  node: Node;
+}): Endomorphism<Element> =>
+  modifyChildren(path, children => [node, ...children]);
+
+/**
+ * Insert the node as the last child of the element at path.
+ */
+export const appendChild = ({
+  path,
+  node,
+}: {
+  path: Path;
+  node: Node;
+}): Endomorphism<Element> =>
+  modifyChildren(path, children => [...children, node]);
+
+// Empty element has BR, which is replaced by inserted nodes.
+const withoutBR = (children: Node[]) =>
+  children.length === 1 && children[0] === '' ? [] : children;
+
+// Insert inline nodes at the point. Text or mark element at the point
+// is split.
+const insertInlines = (
+  point: NonEmptyPath,
+  nodes: Node[],
+): Endomorphism<Element> => element => {
+  const blockPath = getParentBlockPath(element)(point);
+  const childPath = point.slice(0, blockPath.length + 1) as NonEmptyPath;
+  const index = lastNonEmptyArray(childPath);
+  return modifyChildren(blockPath, children => {
+    const child = children[index];
+    if (point.length === childPath.length || child == null) {
+      const rest = withoutBR(children);
+      return [...rest.slice(0, index), ...nodes, ...rest.slice(index)];
+    }
+    const [left, right] = splitNode(child, point.slice(childPath.length));
+    return [
+      ...children.slice(0, index),
+      ...(isEmptyInline(left) ? [] : [left]),
+      ...nodes,
+      ...(isEmptyInline(right) ? [] : [right]),
+      ...children.slice(index + 1),
+    ];
+  })(element);
+};
+
+// One block is inserted like its content.
+const unwrapBlock = (fragment: Fragment): Fragment => {
+  const [node] = fragment;
+  return fragment.length === 1 && !isInline(node) && !isText(node)
+    ? unwrapBlock(node.children)
+    : fragment;
+};
+
+/**
+ * Insert the fragment at the collapsed point. Inline nodes are inserted into
+ * the text at the point. Blocks split the block containing the point,
+ * the first block is merged into its first part, and the last block is merged
+ * into its second part. Returns the normalized element and the point after
+ * the inserted fragment.
+ */
+export const insertFragmentElement = ({
+  point,
+  fragment,
+}: {
+  point: NonEmptyPath;
+  fragment: Fragment;
+}) => (element: Element): { element: Element; point: NonEmptyPath } => {
+  const nodes = unwrapBlock(fragment);
+  if (nodes.length === 0) return { element, point };
+  const blocks = nodes.filter(node => !isInline(node));
+  const blockPath = getParentBlockPath(element)(point);
+
+  const insertBlocks = (blockPath: NonEmptyPath): Element => {
+    const firstIndex = nodes.indexOf(blocks[0]);
+    const lastIndex = nodes.lastIndexOf(blocks[blocks.length - 1]);
+    const getChildren = (node: Node) => (isText(node) ? [node] : node.children);
+    const head = [
+      ...nodes.slice(0, firstIndex),
+      ...getChildren(nodes[firstIndex]),
+    ];
+    const middle = nodes.slice(firstIndex + 1, lastIndex);
+    const tail =
+      lastIndex === firstIndex
+        ? nodes.slice(lastIndex + 1)
+        : [...getChildren(nodes[lastIndex]), ...nodes.slice(lastIndex + 1)];
+    const rightPath = snoc(
+      initNonEmptyPath(blockPath),
+      (lastNonEmptyArray(blockPath) + 1) as PathIndex,
+    );
+    // Splitting at the edges of texts can leave empty inlines.
+    const trimLeft = (children: Node[]) =>
+      pipe(
+        last(children),
+        filter(isEmptyInline),
+        fold(
+          () => children,
+          () => children.slice(0, -1),
+        ),
+      );
+    const trimRight = (children: Node[]) =>
+      children.length > 0 && isEmptyInline(children[0])
+        ? children.slice(1)
+        : children;
+    return pipe(
+      element,
+      splitElement({ path: blockPath, point }),
+      modifyChildren(blockPath, children =>
+        ensureBR([...trimLeft(children), ...head]),
+      ),
+      modifyChildren(rightPath, children =>
+        ensureBR([...tail, ...trimRight(children)]),
+      ),
+      spliceChildren(rightPath, 0, middle),
+    );
+  };
+
+  const inserted = pipe(
+    toNonEmptyPath(blockPath),
+    filter(() => blocks.length > 0),
+    fold(() => insertInlines(point, nodes)(element), insertBlocks),
+  );
+  const nextElement = normalizeElement(inserted);
+  const offset = getTextOffset(element)(point) + getTextLength(nodes);
+  return {
+    element: nextElement,
+    point: pipe(
+      getPointByTextOffset(nextElement, true)(offset),
+      getOrElse(() => getFirstSelectionPoint(nextElement)([])),
+    ),
+  };
+};
@@ -0,0 +1,110 @@
+import { none, some } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { MarkElement, Node, ReactElement } from '../types';
+import { elementToIDless } from './element';
+import { findMatches, getNextMatch, replaceMatches } from './find';
+import { unsafeSelection } from './selection';
+import { createValue } from './value';
+
+const id = createStableIDFactory();
+
+const el = (tag: string, children: Node[]): ReactElement =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+const bold = (text: string): MarkElement => ({
+  id: id(),
+  marks: ['bold'],
+  children: [text],
+});
+
+test('findMatches', () => {
+  const element = el('div', [el('p', ['Foo foo']), el('p', ['food'])]);
+  expect(findMatches('foo')(element)).toEqual([
+    { anchor: [0, 0, 0], focus: [0, 0, 3] },
+    { anchor: [0, 0, 4], focus: [0, 0, 7] },
+    { anchor: [1, 0, 0], focus: [1, 0, 3] },
+  ]);
+  expect(findMatches('foo', { caseSensitive: true })(element)).toHaveLength(2);
+  expect(findMatches('foo', { wholeWord: true })(element)).toHaveLength(2);
+  expect(findMatches(/fo+d?/)(element)).toHaveLength(2);
+  expect(findMatches(/fo+d?/, { caseSensitive: false })(element)).toEqual([
+    { anchor: [0, 0, 0], focus: [0, 0, 3] },
+    { anchor: [0, 0, 4], focus: [0, 0, 7] },
+    { anchor: [1, 0, 0], focus: [1, 0, 4] },
+  ]);
+  expect(findMatches('')(element)).toEqual([]);
+  // Empty matches are skipped.
+  expect(findMatches(/x*/)(element)).toEqual([]);
+  expect(findMatches('a.b')(el('div', ['axb']))).toEqual([]);
+});
+
+test('findMatches across texts and elements', () => {
+  const element = el('div', [el('p', ['a', bold('bc'), 'd']), el('p', ['e'])]);
+  expect(findMatches('abcd')(element)).toEqual([
+    { anchor: [0, 0, 0], focus: [0, 2, 1] },
+  ]);
+  // The end is in the text with the last char.
+  expect(findMatches('ab')(element)).toEqual([
+    { anchor: [0, 0, 0], focus: [0, 1, 0, 1] },
+  ]);
+  expect(findMatches('bc')(element)).toEqual([
+    { anchor: [0, 1, 0, 0], focus: [0, 1, 0, 2] },
+  ]);
+  expect(findMatches('d\ne')(element)).toEqual([
+    { anchor: [0, 2, 0], focus: [1, 0, 1] },
+  ]);
+});
+
+test('getNextMatch', () => {
+  const element = el('div', [el('p', ['aXbXcX'])]);
+  const matches = findMatches('x')(element);
+  const next = getNextMatch(element, matches);
+  expect(next(none)).toEqual(some(matches[0]));
+  expect(
+    next(some(unsafeSelection({ anchor: [0, 0, 2], focus: [0, 0, 2] }))),
+  ).toEqual(some(matches[1]));
+  expect(next(some(matches[1]))).toEqual(some(matches[2]));
+  // Wraps around.
+  expect(next(some(matches[2]))).toEqual(some(matches[0]));
+  expect(getNextMatch(element, [])(none)).toEqual(none);
+});
+
+test('replaceMatches', () => {
+  const value = createValue({
+    element: el('div', [el('p', ['a', bold('bc'), 'd']), el('p', ['abcd'])]),
+    selection: none,
+  });
+  const next = replaceMatches(findMatches('bc')(value.element), 'x')(value);
+  expect(elementToIDless(next.element)).toMatchObject({
+    children: [
+      { children: ['a', { marks: ['bold'], children: ['x'] }, 'd'] },
+      { children: ['axd'] },
+    ],
+  });
+  expect(next.selection).toEqual(
+    some({ anchor: [0, 1, 0, 1], focus: [0, 1, 0, 1] }),
+  );
+  const deleted = replaceMatches(findMatches('d\na')(value.element), '')(value);
+  expect(elementToIDless(deleted.element)).toMatchObject({
+    children: [
+      { children: ['a', { marks: ['bold'], children: ['bc'] }, 'bcd'] },
+    ],
+  });
+  expect(replaceMatches([], 'x')(value)).toBe(value);
+});
+
+test('replaceMatches across elements', () => {
+  const value = createValue({
+    element: el('div', [el('p', ['xa', bold('bc'), 'd'])]),
+    selection: none,
+  });
+  const next = replaceMatches(findMatches('ab')(value.element), 'Z')(value);
+  expect(elementToIDless(next.element)).toMatchObject({
+    children: [{ children: ['xZ', { marks: ['bold'], children: ['c'] }, 'd'] }],
+  });
+  expect(next.selection).toEqual(some({ anchor: [0, 0, 2], focus: [0, 0, 2] }));
+  const deleted = replaceMatches(findMatches('ab')(value.element), '')(value);
+  expect(elementToIDless(deleted.element)).toMatchObject({
+    children: [{ children: ['x', { marks: ['bold'], children: ['c'] }, 'd'] }],
+  });
+});
@@ -0,0 +1,180 @@
+import { sequenceS } from 'fp-ts/lib/Apply';
+import { findFirst, head } from 'fp-ts/lib/Array';
+import { constVoid, Endomorphism } from 'fp-ts/lib/function';
+import { last, snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  alt,
+  chain,
+  filter,
+  fold,
+  getOrElse,
+  map,
+  Option,
+  option,
+  some,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { Element, FindOptions, PathIndex, Selection, Value } from '../types';
+import { getTextTraversal, setTextElement } from './element';
+import { eqPath, initNonEmptyPath, tryInitNonEmptyPath } from './path';
+import {
+  elementToPlainText,
+  plainTextOffsetToPoint,
+  pointToPlainTextOffset,
+} from './plainText';
+import { selectionFromPath, selectionToRange } from './selection';
+import { escapeRegExp } from './string';
+import { deleteContent, insertFragment, select, textToFragment } from './value';
+
+const createRegExp = (
+  query: string | RegExp,
+  { caseSensitive, wholeWord = false }: FindOptions,
+) => {
+  const source = typeof query === 'string' ? escapeRegExp(query) : query.source;
+  const ignoreCase =
+    caseSensitive != null
+      ? !caseSensitive
+      : typeof query === 'string' || query.ignoreCase;
+  const flags =
+    (typeof query === 'string' ? '' : query.flags.replace(/[gi]/g, '')) +
+    (ignoreCase ? 'gi' : 'g');
+  return new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, flags);
+};
+
+/**
+ * Find matches in the plain text of the element, so they can span texts
+ * and elements. Blocks are separated with a newline. String queries are
+ * case insensitive by default, RegExp queries use their own i flag.
+ * Empty matches are skipped.
+ */
+export const findMatches = (
+  query: string | RegExp,
+  options: FindOptions = {},
+) => (element: Element): Selection[] => {
+  const text = elementToPlainText(element);
+  if (text.length === 0 || query === '') return [];
+  const toPoint = plainTextOffsetToPoint(element);
+  const toOffset = pointToPlainTextOffset(element);
+  // The end of a match is the end of the text with the last matched char,
+  // not the start of the next text.
+  const toEndPoint = (offset: number) =>
+    pipe(
+      toPoint(offset - 1),
+      map(point =>
+        snoc(initNonEmptyPath(point), (last(point) + 1) as PathIndex),
+      ),
+      chain(point =>
+        pipe(
+          toOffset(point),
+          filter(endOffset => endOffset === offset),
+          map(() => point),
+        ),
+      ),
+      alt(() => toPoint(offset)),
+    );
+  const regExp = createRegExp(query, options);
+  const selections: Selection[] = [];
+  let match = regExp.exec(text);
+  while (match != null) {
+    const [matched] = match;
+    if (matched.length === 0) regExp.lastIndex++;
+    else {
+      const start = match.index;
+      pipe(
+        sequenceS(option)({
+          anchor: toPoint(start),
+          focus: toEndPoint(start + matched.length),
+        }),
+        fold(constVoid, selection => {
+          selections.push(selection);
+        }),
+      );
+    }
+    match = regExp.exec(text);
+  }
+  return selections;
+};
+
+/**
+ * The first match after the selection, or the first match when there is
+ * no selection or no match after it.
+ */
+export const getNextMatch = (element: Element, matches: Selection[]) => (
+  selection: Option<Selection>,
+): Option<Selection> => {
+  const toOffset = pointToPlainTextOffset(element);
+  const getStart = (match: Selection) =>
+    toOffset(selectionToRange(match).start);
+  return pipe(
+    selection,
+    chain(selection => toOffset(selectionToRange(selection).end)),
+    chain(end =>
+      findFirst((match: Selection) =>
+        pipe(
+          getStart(match),
+          map(start => start >= end),
+          getOrElse<boolean>(() => false),
+        ),
+      )(matches),
+    ),
+    alt(() => head(matches)),
+  );
+};
+
+// A match in one text is replaced in the text, so its mark is preserved.
+// Empty text would be BR, so deleted texts are deleted via deleteContent.
+const replaceMatch = (
+  match: Selection,
+  replacement: string,
+): Endomorphism<Value> => value => {
+  const { start, end } = selectionToRange(match);
+  return pipe(
+    tryInitNonEmptyPath(start),
+    filter(path => eqPath.equals(path, initNonEmptyPath(end))),
+    chain(path =>
+      pipe(
+        getTextTraversal(path).getOption(value.element),
+        map(text => ({ path, text })),
+      ),
+    ),
+    filter(
+      ({ text }) =>
+        text.length - (last(end) - last(start)) + replacement.length > 0,
+    ),
+    fold(
+      () => {
+        const selected = select(match)(value);
+        return replacement.length === 0
+          ? deleteContent(match)(selected)
+          : insertFragment(textToFragment(replacement)(selected))(selected);
+      },
+      ({ path, text }) => ({
+        ...value,
+        element: setTextElement({
+          path,
+          text:
+            text.slice(0, last(start)) + replacement + text.slice(last(end)),
+        })(value.element),
+        selection: some(
+          selectionFromPath(
+            snoc(path, (last(start) + replacement.length) as PathIndex),
+          ),
+        ),
+      }),
+    ),
+  );
+};
+
+/**
+ * Replace matches with the text in one change. Matches are replaced from
+ * the last one, so paths of the previous matches remain valid.
+ * The selection is collapsed after the first replaced match.
+ */
+export const replaceMatches = (
+  matches: Selection[],
+  replacement: string,
+): Endomorphism<Value> => value =>
+  matches.reduceRight(
+    (value, match) => replaceMatch(match, replacement)(value),
+    value,
+  );
@@ -0,0 +1,180 @@
+import { isNone, none, some, toNullable } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { History, Value } from '../types';
+import {
+  canRedoHistory,
+  canUndoHistory,
+  checkpointHistory,
+  emptyHistory,
+  getTypingPath,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from './history';
+import { unsafeNonEmptyPath } from './path';
+import { unsafeSelection } from './selection';
+import { createValue, setText } from './value';
+
+const id = createStableIDFactory();
+
+const depth = 100;
+
+const createTestValue = () =>
+  createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), children: ['a'] },
+        { id: id(), children: ['b'] },
+      ],
+    },
+  });
+
+const type = (text: string, path: number[], offset: number) =>
+  setText({
+    text,
+    path: unsafeNonEmptyPath(path),
+    selection: unsafeSelection({
+      anchor: [...path, offset],
+      focus: [...path, offset],
+    }),
+  });
+
+const getCurrent = (history: History) => toNullable(history.current) as Value;
+
+test('getTypingPath', () => {
+  const value = createTestValue();
+  expect(getTypingPath(value.element, value.element)).toEqual(none);
+  expect(
+    getTypingPath(value.element, type('ab', [0, 0], 2)(value).element),
+  ).toEqual(some([0, 0]));
+  expect(
+    getTypingPath(value.element, {
+      ...value.element,
+      children: [...value.element.children, 'c'],
+    }),
+  ).toEqual(none);
+});
+
+test('recordHistory merges typing', () => {
+  const value1 = createTestValue();
+  const value2 = type('ab', [0, 0], 2)(value1);
+  const value3 = type('abc', [0, 0], 3)(value2);
+  const history = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+    recordHistory(value3, depth),
+  );
+  expect(history.undos).toEqual([value1]);
+  expect(getCurrent(history)).toBe(value3);
+});
+
+test('recordHistory does not merge typing into another text', () => {
+  const value1 = createTestValue();
+  const value2 = type('ab', [0, 0], 2)(value1);
+  const value3 = type('bc', [1, 0], 2)(value2);
+  const history = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+    recordHistory(value3, depth),
+  );
+  expect(history.undos).toEqual([value1, value2]);
+});
+
+test('recordHistory ignores selection only changes', () => {
+  const value1 = createTestValue();
+  const value2 = {
+    ...value1,
+    selection: some(unsafeSelection({ anchor: [0, 0, 0], focus: [0, 0, 1] })),
+  };
+  const history = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+  );
+  expect(canUndoHistory(history)).toBe(false);
+  expect(getCurrent(history)).toBe(value2);
+});
+
+test('checkpointHistory stops typing merging', () => {
+  const value1 = createTestValue();
+  const value2 = type('ab', [0, 0], 2)(value1);
+  const value3 = type('abc', [0, 0], 3)(value2);
+  const history = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+    checkpointHistory,
+    recordHistory(value3, depth),
+  );
+  expect(history.undos).toEqual([value1, value2]);
+});
+
+test('recordHistory respects depth', () => {
+  const value1 = createTestValue();
+  const value2 = type('ab', [0, 0], 2)(value1);
+  const value3 = type('bc', [1, 0], 2)(value2);
+  const history = pipe(
+    emptyHistory,
+    recordHistory(value1, 1),
+    recordHistory(value2, 1),
+    recordHistory(value3, 1),
+  );
+  expect(history.undos).toEqual([value2]);
+});
+
+test('undoHistory and redoHistory', () => {
+  const value1 = createTestValue();
+  const value2 = type('ab', [0, 0], 2)(value1);
+  const history = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+  );
+  expect(isNone(redoHistory(history))).toBe(true);
+
+  const undone = toNullable(undoHistory(history)) as History;
+  expect(getCurrent(undone).element).toBe(value1.element);
+  expect(getCurrent(undone).selection).toBe(value1.selection);
+  expect(canUndoHistory(undone)).toBe(false);
+  expect(canRedoHistory(undone)).toBe(true);
+  expect(isNone(undoHistory(undone))).toBe(true);
+
+  const redone = toNullable(redoHistory(undone)) as History;
+  expect(getCurrent(redone).element).toBe(value2.element);
+  expect(getCurrent(redone).selection).toBe(value2.selection);
+  expect(canRedoHistory(redone)).toBe(false);
+
+  // Recording the restored value does nothing.
+  expect(recordHistory(getCurrent(redone), depth)(redone)).toBe(redone);
+});
+
+test('undoHistory keeps focus', () => {
+  const value1 = createTestValue();
+  const value2 = { ...type('ab', [0, 0], 2)(value1), hasFocus: true };
+  const undone = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+    undoHistory,
+    toNullable,
+  ) as History;
+  expect(getCurrent(undone).hasFocus).toBe(true);
+});
+
+test('recordHistory clears redos', () => {
+  const value1 = createTestValue();
+  const value2 = type('ab', [0, 0], 2)(value1);
+  const undone = pipe(
+    emptyHistory,
+    recordHistory(value1, depth),
+    recordHistory(value2, depth),
+    undoHistory,
+    toNullable,
+  ) as History;
+  const value3 = type('bc', [1, 0], 2)(getCurrent(undone));
+  expect(canRedoHistory(recordHistory(value3, depth)(undone))).toBe(false);
+});
@@ -0,0 +1,154 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { init, isEmpty, last, snoc as snocArray } from 'fp-ts/lib/Array';
+import { Endomorphism } from 'fp-ts/lib/function';
+import { snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  chain,
+  fold,
+  getEq,
+  isSome,
+  map,
+  none,
+  Option,
+  option,
+  some,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { Element, History, Node, NonEmptyPath, Path, Value } from '../types';
+import { eqPath, toPathIndex } from './path';
+import { eqSelection } from './selection';
+import { isText } from './text';
+
+export const emptyHistory: History = {
+  undos: [],
+  redos: [],
+  current: none,
+  typingPath: none,
+};
+
+const eqOptionPath = getEq(eqPath);
+const eqOptionSelection = getEq(eqSelection);
+
+const getChangedTextPath = (
+  prev: Node,
+  next: Node,
+  path: Path,
+): Option<NonEmptyPath> => {
+  if (isText(prev) || isText(next) || prev.id !== next.id) return none;
+  if (prev.children.length !== next.children.length) return none;
+  const changedIndexes = prev.children
+    .map((child, index) => (child !== next.children[index] ? index : -1))
+    .filter(index => index !== -1);
+  if (changedIndexes.length !== 1) return none;
+  const [index] = changedIndexes;
+  const prevChild = prev.children[index];
+  const nextChild = next.children[index];
+  return pipe(
+    toPathIndex(index),
+    chain(index => {
+      const childPath = snoc(path, index);
+      if (isText(prevChild) && isText(nextChild)) return some(childPath);
+      return getChangedTextPath(prevChild, nextChild, childPath);
+    }),
+  );
+};
+
+/**
+ * If only one text has been changed, return its path. It's fast, because
+ * unchanged nodes are compared by identity.
+ */
+export const getTypingPath = (
+  prev: Element,
+  next: Element,
+): Option<NonEmptyPath> => getChangedTextPath(prev, next, []);
+
+const takeRightMax = (depth: number) => (values: Value[]) =>
+  values.length > depth ? values.slice(values.length - depth) : values;
+
+/**
+ * Record the value. Selection only changes are not recorded, but they stop
+ * typing merging. Consecutive typing into the same text is one step.
+ */
+export const recordHistory = (
+  value: Value,
+  depth: number,
+): Endomorphism<History> => history =>
+  pipe(
+    history.current,
+    fold(
+      () => ({ ...history, current: some(value) }),
+      current => {
+        if (current === value) return history;
+        if (current.element === value.element) {
+          const selectionHasBeenChanged = !eqOptionSelection.equals(
+            current.selection,
+            value.selection,
+          );
+          return {
+            ...history,
+            current: some(value),
+            typingPath: selectionHasBeenChanged ? none : history.typingPath,
+          };
+        }
+        const typingPath = getTypingPath(current.element, value.element);
+        const isMerged =
+          isSome(typingPath) &&
+          eqOptionPath.equals(typingPath, history.typingPath);
+        return {
+          undos: isMerged
+            ? history.undos
+            : takeRightMax(depth)(snocArray(history.undos, current)),
+          redos: [],
+          current: some(value),
+          typingPath,
+        };
+      },
+    ),
+  );
+
+/**
+ * The next change will be a new step, even if it's typing.
+ */
+export const checkpointHistory: Endomorphism<History> = history =>
+  isSome(history.typingPath) ? { ...history, typingPath: none } : history;
+
+// Restore the element and the selection, but keep the focus as it is.
+const restore = (current: Value, snapshot: Value): Value => ({
+  ...current,
+  element: snapshot.element,
+  selection: snapshot.selection,
+});
+
+export const undoHistory = (history: History): Option<History> =>
+  pipe(
+    sequenceT(option)(
+      history.current,
+      last(history.undos),
+      init(history.undos),
+    ),
+    map(([current, snapshot, undos]) => ({
+      undos,
+      redos: snocArray(history.redos, current),
+      current: some(restore(current, snapshot)),
+      typingPath: none,
+    })),
+  );
+
+export const redoHistory = (history: History): Option<History> =>
+  pipe(
+    sequenceT(option)(
+      history.current,
+      last(history.redos),
+      init(history.redos),
+    ),
+    map(([current, snapshot, redos]) => ({
+      undos: snocArray(history.undos, current),
+      redos,
+      current: some(restore(current, snapshot)),
+      typingPath: none,
+    })),
+  );
+
+export const canUndoHistory = (history: History) => !isEmpty(history.undos);
+
+export const canRedoHistory = (history: History) => !isEmpty(history.redos);
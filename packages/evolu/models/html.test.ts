@@ -0,0 +1,202 @@
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { ReactElement } from '../types';
+import { elementToIDless } from './element';
+import {
+  elementToHTML,
+  fragmentToHTML,
+  htmlToElement,
+  htmlToFragment,
+  isSafeURL,
+} from './html';
+
+const id = createStableIDFactory();
+
+const element: ReactElement = {
+  id: id(),
+  tag: 'div',
+  props: { className: 'root' },
+  children: [
+    {
+      id: id(),
+      tag: 'div',
+      props: { style: { fontSize: '24px' } },
+      children: ['heading'],
+    },
+    {
+      id: id(),
+      tag: 'div',
+      props: { className: 'paragraph' },
+      children: [
+        'a',
+        '',
+        'b ',
+        { id: id(), tag: 'a', props: { href: '/c' }, children: ['c'] },
+      ],
+    },
+    { id: id(), tag: 'div', props: { className: 'empty' }, children: [''] },
+  ],
+};
+
+test('elementToHTML', () => {
+  expect(elementToHTML(element)).toBe(
+    '<div class="root"><div style="font-size:24px">heading</div>' +
+      '<div class="paragraph">a<br/>b <a href="/c">c</a></div>' +
+      '<div class="empty"><br/></div></div>',
+  );
+});
+
+test('elementToHTML with renderElement', () => {
+  expect(
+    elementToHTML({ id: id(), children: ['a'] }, (_, children) => children),
+  ).toBe('a');
+});
+
+test('elementToHTML escapes text', () => {
+  expect(
+    elementToHTML({ ...element, children: ['<b>&</b>'] } as ReactElement),
+  ).toBe('<div class="root">&lt;b&gt;&amp;&lt;/b&gt;</div>');
+});
+
+test('fragmentToHTML', () => {
+  expect(fragmentToHTML(['a<', '', ...element.children.slice(2)])).toBe(
+    'a&lt;<br/><div class="empty"><br/></div>',
+  );
+});
+
+test('htmlToElement round trip', () => {
+  expect(elementToIDless(htmlToElement(elementToHTML(element)))).toEqual(
+    elementToIDless(element),
+  );
+});
+
+test('htmlToElement round trip with marks', () => {
+  const withMarks = {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [
+      'a',
+      { id: id(), marks: ['bold'], children: ['b'] },
+      { id: id(), marks: ['italic', 'underline'], children: ['c'] },
+      { id: id(), marks: ['underline', 'strikethrough'], children: ['d'] },
+    ],
+  } as ReactElement;
+  expect(elementToIDless(htmlToElement(elementToHTML(withMarks)))).toEqual(
+    elementToIDless(withMarks),
+  );
+});
+
+test('htmlToElement generates IDs and normalizes', () => {
+  const parsed = htmlToElement(
+    '<div class="a">a<b>b</b><strong>c</strong></div>',
+  );
+  expect(parsed.id).toHaveLength(8);
+  expect(elementToIDless(parsed)).toEqual({
+    tag: 'div',
+    props: { className: 'a' },
+    children: ['a', { marks: ['bold'], children: ['bc'] }],
+  });
+});
+
+test('htmlToElement parses legacy content', () => {
+  expect(
+    elementToIDless(
+      htmlToElement(`
+        <p onclick="alert(1)" class="p">a&amp;b&nbsp;<b>b<i>c</i></b></p>
+        <script>alert('<p>')</script>
+        <p><a href="javascript:alert(1)" title='t'>d</a><p></p>
+      `),
+    ),
+  ).toEqual({
+    tag: 'div',
+    props: {},
+    children: [
+      {
+        tag: 'p',
+        props: { className: 'p' },
+        children: [
+          'a&b ',
+          { marks: ['bold'], children: ['b'] },
+          { marks: ['bold', 'italic'], children: ['c'] },
+        ],
+      },
+      {
+        tag: 'p',
+        props: {},
+        children: [
+          { tag: 'a', props: { title: 't' }, children: ['d'] },
+          { tag: 'p', props: {}, children: [''] },
+        ],
+      },
+    ],
+  });
+});
+
+test('isSafeURL allows only relative, http, https, and mailto URLs', () => {
+  [
+    '/a',
+    'a.png',
+    '#a',
+    '?a',
+    'http://a.com',
+    'HTTPS://a.com',
+    'mailto:a@b.com',
+  ].forEach(url => expect(isSafeURL(url)).toBe(true));
+  [
+    '\njavascript:alert(1)',
+    ' JavaScript:alert(1)',
+    '\u0001javascript:alert(1)',
+    'java\tscript:alert(1)',
+    'data:text/html,a',
+    'vbscript:a',
+    'file:///a',
+  ].forEach(url => expect(isSafeURL(url)).toBe(false));
+});
+
+test('htmlToFragment drops entity encoded unsafe URLs', () => {
+  expect(
+    htmlToFragment(
+      [
+        '<a href="&#1;javascript:alert(1)">a</a>',
+        '<a href="&#106;avascript:alert(1)">b</a>',
+        '<a href="java&#x09;script:alert(1)">c</a>',
+        '<a href="&#x6A;AVA&#x0A;script:alert(1)">d</a>',
+      ].join(''),
+    ).map(node => elementToIDless(node as ReactElement)),
+  ).toEqual(
+    ['a', 'b', 'c', 'd'].map(text => ({
+      tag: 'a',
+      props: {},
+      children: [text],
+    })),
+  );
+});
+
+test('htmlToElement parses text', () => {
+  expect(elementToIDless(htmlToElement('a<br>b'))).toEqual({
+    tag: 'div',
+    props: {},
+    children: ['a', '', 'b'],
+  });
+  expect(elementToIDless(htmlToElement(''))).toEqual({
+    tag: 'div',
+    props: {},
+    children: [''],
+  });
+});
+
+test('htmlToFragment', () => {
+  const html =
+    '<html><head><meta charset="utf-8"><title>t</title></head><body>' +
+    '<!--StartFragment-->a<b>b</b><p>c</p><!--EndFragment--></body></html>';
+  expect(
+    htmlToFragment(html).map(node =>
+      typeof node === 'string' ? node : elementToIDless(node),
+    ),
+  ).toEqual([
+    'a',
+    { marks: ['bold'], children: ['b'] },
+    { tag: 'p', props: {}, children: ['c'] },
+  ]);
+  expect(htmlToFragment('')).toEqual([]);
+});
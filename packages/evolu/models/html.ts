@@ -0,0 +1,487 @@
+import { constVoid } from 'fp-ts/lib/function';
+import { createElement, Fragment as ReactFragment, ReactNode } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import {
+  Element,
+  Fragment,
+  Mark,
+  MarkElement,
+  Node,
+  ReactElement,
+  RenderElement,
+} from '../types';
+import { ensureBR, id, normalizeElement, renderReactElement } from './element';
+import { isText, textIsBR } from './text';
+
+const childrenToReactNodes = (
+  children: Node[],
+  renderElement: RenderElement,
+): ReactNode[] =>
+  children.map((child, index) => {
+    if (!isText(child))
+      return createElement(
+        ReactFragment,
+        { key: child.id },
+        renderElement(
+          child,
+          childrenToReactNodes(child.children, renderElement),
+          constVoid,
+        ),
+      );
+    const key = index.toString();
+    return textIsBR(child)
+      ? createElement('br', { key })
+      : createElement(ReactFragment, { key }, child);
+  });
+
+const elementToReactNode = (
+  element: Element,
+  renderElement: RenderElement,
+): ReactNode =>
+  renderElement(
+    element,
+    childrenToReactNodes(element.children, renderElement),
+    constVoid,
+  );
+
+/**
+ * Serialize Element to HTML via renderElement. Empty strings are rendered
+ * as BR.
+ */
+export const elementToHTML = (
+  element: Element,
+  renderElement: RenderElement = renderReactElement,
+): string =>
+  renderToStaticMarkup(
+    createElement(
+      ReactFragment,
+      null,
+      elementToReactNode(normalizeElement(element), renderElement),
+    ),
+  );
+
+/**
+ * Serialize Fragment to HTML via renderElement, for example for clipboard.
+ */
+export const fragmentToHTML = (
+  fragment: Fragment,
+  renderElement: RenderElement = renderReactElement,
+): string =>
+  renderToStaticMarkup(
+    createElement(
+      ReactFragment,
+      null,
+      childrenToReactNodes(
+        normalizeElement({ id: id(), children: fragment }).children,
+        renderElement,
+      ),
+    ),
+  );
+
+type Token =
+  | { type: 'open'; tag: string; attributes: Attributes; selfClosing: boolean }
+  | { type: 'close'; tag: string }
+  | { type: 'text'; text: string };
+
+interface Attributes {
+  [name: string]: string;
+}
+
+const voidTags = [
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+];
+
+// Those are removed with their content.
+const removedTags = [
+  'base',
+  'embed',
+  'head',
+  'link',
+  'meta',
+  'iframe',
+  'noscript',
+  'object',
+  'script',
+  'style',
+  'template',
+  'title',
+];
+
+// Those are removed, but their content is kept.
+const unwrappedTags = ['body', 'html'];
+
+const markTags: { [tag: string]: Mark } = {
+  b: 'bold',
+  strong: 'bold',
+  i: 'italic',
+  em: 'italic',
+  u: 'underline',
+  s: 'strikethrough',
+  strike: 'strikethrough',
+  del: 'strikethrough',
+};
+
+const entities: { [name: string]: string } = {
+  amp: '&',
+  apos: "'",
+  gt: '>',
+  lt: '<',
+  nbsp: ' ',
+  quot: '"',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return entities[name.toLowerCase()] || entity;
+    const code =
+      name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+    return code > 0x10ffff ? entity : String.fromCodePoint(code);
+  });
+
+const attributeRegExp = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const parseAttributes = (source: string): Attributes => {
+  const attributes: Attributes = {};
+  source.replace(
+    attributeRegExp,
+    (match, name: string, double?: string, single?: string, bare?: string) => {
+      const value = double != null ? double : single != null ? single : bare;
+      attributes[name.toLowerCase()] = decodeEntities(value || '');
+      return match;
+    },
+  );
+  return attributes;
+};
+
+const tagRegExp = /<!--[\s\S]*?-->|<![^>]*>|<\/\s*([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:\s+[^\s"'<>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+
+// It's a small tokenizer, not a spec compliant HTML parser. It's good enough
+// for HTML produced by elementToHTML and for common legacy content.
+const tokenize = (html: string): Token[] => {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+  const pushText = (text: string) => {
+    if (text.length > 0)
+      tokens.push({ type: 'text', text: decodeEntities(text) });
+  };
+  html.replace(
+    tagRegExp,
+    (
+      match,
+      closeTag: string | undefined,
+      openTag: string | undefined,
+      attributes: string | undefined,
+      selfClosing: string | undefined,
+      index: number,
+    ) => {
+      pushText(html.slice(lastIndex, index));
+      lastIndex = index + match.length;
+      if (closeTag) tokens.push({ type: 'close', tag: closeTag.toLowerCase() });
+      else if (openTag)
+        tokens.push({
+          type: 'open',
+          tag: openTag.toLowerCase(),
+          attributes: parseAttributes(attributes || ''),
+          selfClosing: selfClosing === '/',
+        });
+      return match;
+    },
+  );
+  pushText(html.slice(lastIndex));
+  return tokens;
+};
+
+interface Style {
+  [property: string]: string;
+}
+
+const parseStyle = (style: string): Style =>
+  style.split(';').reduce<Style>((style, declaration) => {
+    const colonIndex = declaration.indexOf(':');
+    if (colonIndex === -1) return style;
+    const property = declaration.slice(0, colonIndex).trim();
+    const value = declaration.slice(colonIndex + 1).trim();
+    if (property.length === 0 || value.length === 0) return style;
+    const name = property.startsWith('--')
+      ? property
+      : property.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+    return { ...style, [name]: value };
+  }, {});
+
+const safeSchemes = ['http', 'https', 'mailto'];
+
+/**
+ * Only relative URLs and URLs with http, https, or mailto scheme are safe
+ * for href and src. Browsers ignore control characters and spaces, so they
+ * are ignored as well.
+ */
+export const isSafeURL = (url: string) => {
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(
+    Array.from(url)
+      .filter(char => char > ' ')
+      .join(''),
+  );
+  return scheme == null || safeSchemes.includes(scheme[1].toLowerCase());
+};
+
+type Props = { [name: string]: unknown };
+
+const urlAttributes = ['href', 'src'];
+const textAttributes = ['alt', 'rel', 'target', 'title'];
+
+// Other attributes like event handlers are dropped.
+const attributesToProps = (attributes: Attributes) =>
+  Object.keys(attributes).reduce<Props>((props, name) => {
+    const value = attributes[name];
+    if (name === 'class') return { ...props, className: value };
+    if (name === 'style') {
+      const style = parseStyle(value);
+      return Object.keys(style).length > 0 ? { ...props, style } : props;
+    }
+    if (urlAttributes.includes(name))
+      return isSafeURL(value) ? { ...props, [name]: value } : props;
+    if (textAttributes.includes(name)) return { ...props, [name]: value };
+    return props;
+  }, {});
+
+const isStyle = (value: unknown): value is Style =>
+  typeof value === 'object' &&
+  value != null &&
+  Object.values(value).every(value => typeof value === 'string');
+
+// Props allowed by attributesToProps, so React elements from other sources
+// can't have event handlers, dangerouslySetInnerHTML, or unsafe URLs.
+const sanitizeProps = (props: Props) =>
+  Object.keys(props).reduce<Props>((safeProps, name) => {
+    const value = props[name];
+    if (typeof value === 'string') {
+      if (name === 'className' || textAttributes.includes(name))
+        return { ...safeProps, [name]: value };
+      if (urlAttributes.includes(name) && isSafeURL(value))
+        return { ...safeProps, [name]: value };
+    }
+    if (name === 'style' && isStyle(value))
+      return { ...safeProps, style: value };
+    return safeProps;
+  }, {});
+
+const styleMarks: [string, string, Mark][] = [
+  ['fontWeight', 'bold', 'bold'],
+  ['fontStyle', 'italic', 'italic'],
+  ['textDecoration', 'underline', 'underline'],
+  ['textDecoration', 'line-through', 'strikethrough'],
+];
+
+// Span with only mark styles is a mark element rendered by renderReactElement.
+const getSpanMarks = (attributes: Attributes): Mark[] | null => {
+  const names = Object.keys(attributes);
+  if (names.length !== 1 || names[0] !== 'style') return null;
+  const style = parseStyle(attributes.style);
+  const properties = Object.keys(style);
+  if (properties.length === 0) return null;
+  const isMarkStyle = properties.every(property =>
+    styleMarks.some(([markProperty]) => markProperty === property),
+  );
+  if (!isMarkStyle) return null;
+  return styleMarks
+    .filter(
+      ([property, value]) =>
+        style[property] != null && style[property].split(/\s+/).includes(value),
+    )
+    .map(([, , mark]) => mark);
+};
+
+const addMarks = (marks: Mark[], added: Mark[]) => [
+  ...marks,
+  ...added.filter(mark => !marks.includes(mark)),
+];
+
+interface OpenElement {
+  readonly tag: string;
+  readonly element: ReactElement | null;
+  readonly marks: Mark[];
+  readonly children: Node[];
+}
+
+/**
+ * Parse HTML to Fragment. Elements get fresh IDs, disallowed tags and
+ * attributes are dropped, and mark tags like b or em become mark elements.
+ */
+export const htmlToFragment = (html: string): Fragment => {
+  const root: OpenElement = {
+    tag: '',
+    element: null,
+    marks: [],
+    children: [],
+  };
+  const stack: OpenElement[] = [root];
+  let removedTag: string | null = null;
+  const current = () => stack[stack.length - 1];
+
+  const pushNode = (node: Node, marks: Mark[]) => {
+    const { children } = current();
+    if (!isText(node) || marks.length === 0 || textIsBR(node)) {
+      children.push(node);
+      return;
+    }
+    const markElement: MarkElement = { id: id(), marks, children: [node] };
+    children.push(markElement);
+  };
+
+  const closeElement = () => {
+    const open = stack.pop();
+    if (open == null || open.element == null) return;
+    pushNode(
+      { ...open.element, children: ensureBR(open.children) } as ReactElement,
+      [],
+    );
+  };
+
+  tokenize(html).forEach(token => {
+    if (removedTag != null) {
+      if (token.type === 'close' && token.tag === removedTag) removedTag = null;
+      return;
+    }
+    switch (token.type) {
+      case 'text': {
+        // Whitespace with newlines is HTML formatting.
+        if (/^\s*$/.test(token.text) && token.text.includes('\n')) return;
+        pushNode(token.text, current().marks);
+        return;
+      }
+      case 'open': {
+        const { tag, attributes, selfClosing } = token;
+        if (unwrappedTags.includes(tag)) return;
+        if (removedTags.includes(tag)) {
+          if (!selfClosing && !voidTags.includes(tag)) removedTag = tag;
+          return;
+        }
+        if (tag === 'br') {
+          pushNode('', []);
+          return;
+        }
+        const marks = markTags[tag]
+          ? [markTags[tag]]
+          : tag === 'span'
+          ? getSpanMarks(attributes)
+          : null;
+        if (marks != null) {
+          if (selfClosing) return;
+          stack.push({
+            tag,
+            element: null,
+            marks: addMarks(current().marks, marks),
+            children: current().children,
+          });
+          return;
+        }
+        stack.push({
+          tag,
+          element: {
+            id: id(),
+            tag,
+            props: attributesToProps(attributes),
+            children: [],
+          },
+          marks: current().marks,
+          children: [],
+        });
+        if (selfClosing || voidTags.includes(tag)) closeElement();
+        return;
+      }
+      case 'close': {
+        if (unwrappedTags.includes(token.tag)) return;
+        const index = stack.map(open => open.tag).lastIndexOf(token.tag);
+        // Unmatched close tags are ignored.
+        if (index < 1) return;
+        while (stack.length > index) closeElement();
+        break;
+      }
+      default:
+    }
+  });
+  while (stack.length > 1) closeElement();
+
+  return normalizeElement({ id: id(), children: root.children }).children;
+};
+
+const tagNameRegExp = /^[a-zA-Z][\w-]*$/;
+
+/**
+ * Apply the tags and attributes rules of htmlToFragment to the fragment from
+ * untrusted source, like the editor format of the clipboard. Removed tags are
+ * dropped with their content, unwrapped tags are replaced by their children.
+ * React and mark elements are rebuilt from their known fields, because io-ts
+ * keeps unknown fields. URLs of other elements are checked as well, because
+ * their renderElement can render them.
+ */
+export const sanitizeFragment = (fragment: Fragment): Fragment =>
+  fragment.reduce<Fragment>((nodes, node) => {
+    if (isText(node)) return [...nodes, node];
+    if (!ReactElement.is(node) && MarkElement.is(node)) {
+      const { id, marks, children } = node;
+      const markElement: MarkElement = { id, marks, children };
+      return [...nodes, markElement];
+    }
+    const sanitized = sanitizeFragment(node.children);
+    // Element with removed content must remain selectable.
+    const children =
+      sanitized.length === 0 && node.children.length > 0 ? [''] : sanitized;
+    if (!ReactElement.is(node)) {
+      const element = node as Element & Props;
+      const safeElement = Object.keys(element).reduce<Props>(
+        (safeElement, key) => {
+          const value = element[key];
+          return urlAttributes.includes(key) &&
+            !(typeof value === 'string' && isSafeURL(value))
+            ? safeElement
+            : { ...safeElement, [key]: value };
+        },
+        {},
+      );
+      return [...nodes, { ...safeElement, children } as Element];
+    }
+    const tag = node.tag.toLowerCase();
+    if (!tagNameRegExp.test(tag) || removedTags.includes(tag)) return nodes;
+    if (unwrappedTags.includes(tag)) return [...nodes, ...children];
+    return [
+      ...nodes,
+      {
+        id: node.id,
+        tag,
+        props: sanitizeProps(node.props),
+        children,
+      } as ReactElement,
+    ];
+  }, []);
+
+/**
+ * Parse HTML to Element. Multiple root nodes are wrapped in div.
+ */
+export const htmlToElement = (html: string): Element => {
+  const fragment = htmlToFragment(html);
+  const [firstChild] = fragment;
+  if (fragment.length === 1 && !isText(firstChild)) return firstChild;
+  const element: ReactElement = {
+    id: id(),
+    tag: 'div',
+    props: {},
+    children: ensureBR(fragment) as ReactElement['children'],
+  };
+  return element;
+};
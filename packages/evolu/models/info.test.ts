@@ -0,0 +1,83 @@
+import { none, some } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Element, Info } from '../types';
+import { createInfo } from './info';
+import { unsafeSelection } from './selection';
+
+const id = createStableIDFactory();
+
+const link: Element = { id: id(), children: ['c'] };
+const paragraph: Element = { id: id(), children: ['ab', link, 'd'] };
+const emptyParagraph: Element = { id: id(), children: [''] };
+const element: Element = {
+  id: id(),
+  children: [paragraph, emptyParagraph, { id: id(), children: ['ef'] }],
+};
+
+const info = (anchor: number[], focus: number[]) =>
+  createInfo(unsafeSelection({ anchor, focus }), element);
+
+const infoPaths = ({ nodes }: Info) => nodes.map(({ path }) => path);
+
+test('createInfo collapsed in text', () => {
+  const result = info([0, 0, 1], [0, 0, 1]);
+  expect(infoPaths(result)).toEqual([[0], [0, 0]]);
+  expect(result.text).toBe('');
+  const [paragraphInfo, textInfo] = result.nodes;
+  expect(paragraphInfo.textOffsets).toEqual(none);
+  expect(paragraphInfo.parents).toEqual([element]);
+  expect(textInfo.node).toBe('ab');
+  expect(textInfo.textOffsets).toEqual(some([1, 1]));
+  expect(textInfo.parents).toEqual([paragraph, element]);
+  expect(textInfo.parentBlocks).toEqual([paragraph, element]);
+  expect(textInfo.previousSibling).toEqual(none);
+  expect(textInfo.nextSibling).toEqual(some(link));
+});
+
+test('createInfo collapsed on BR', () => {
+  const result = info([1, 0], [1, 0]);
+  expect(infoPaths(result)).toEqual([[1], [1, 0]]);
+  expect(result.nodes[1].node).toBe('');
+});
+
+test('createInfo expanded', () => {
+  const result = info([2, 0, 1], [0, 0, 1]);
+  expect(result.range).toEqual({ start: [0, 0, 1], end: [2, 0, 1] });
+  expect(infoPaths(result)).toEqual([
+    [0],
+    [0, 0],
+    [0, 1],
+    [0, 1, 0],
+    [0, 2],
+    [1],
+    [1, 0],
+    [2],
+    [2, 0],
+  ]);
+  expect(result.text).toBe('bcde');
+  expect(result.nodes[1].textOffsets).toEqual(some([1, 2]));
+  expect(result.nodes[8].textOffsets).toEqual(some([0, 1]));
+});
+
+test('createInfo expanded within text', () => {
+  const result = info([0, 1, 0, 0], [0, 1, 0, 1]);
+  expect(infoPaths(result)).toEqual([[0], [0, 1], [0, 1, 0]]);
+  expect(result.text).toBe('c');
+});
+
+test('createInfo does not select touching texts', () => {
+  const result = info([0, 0, 2], [0, 2, 0]);
+  expect(infoPaths(result)).toEqual([[0], [0, 1], [0, 1, 0]]);
+  expect(result.text).toBe('c');
+});
+
+test('createInfo with inline elements', () => {
+  const result = createInfo(
+    unsafeSelection({ anchor: [0, 1, 0, 0], focus: [0, 1, 0, 0] }),
+    element,
+    path => path.length !== 2,
+  );
+  const textInfo = result.nodes[2];
+  expect(textInfo.parents).toEqual([link, paragraph, element]);
+  expect(textInfo.parentBlocks).toEqual([paragraph, element]);
+});
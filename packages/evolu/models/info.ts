@@ -1,63 +1,107 @@
-import { Info, NodeInfo, Selection, Element } from '../types';
-
-type SearchingFor = 'start' | 'end' | 'nothing';
-
-// TODO: Measure then optimize via memoization.
-export const createInfo = (selection: Selection, element: Element): Info => {
-  // eslint-disable-next-line no-console
-  console.log(selection);
-  // eslint-disable-next-line no-console
-  console.log(element);
-  // let sf: SearchingFor = 'start';
-  // const range = selectionToRange(selection);
+import { lookup } from 'fp-ts/lib/Array';
+import { constTrue, Predicate } from 'fp-ts/lib/function';
+import { cons, NonEmptyArray, snoc } from 'fp-ts/lib/NonEmptyArray';
+import { none, some } from 'fp-ts/lib/Option';
+import {
+  Element,
+  Info,
+  NodeInfo,
+  NonEmptyPath,
+  Path,
+  PathIndex,
+  Selection,
+} from '../types';
+import { byTreeOrder, eqPath, initNonEmptyPath } from './path';
+import { isCollapsed, selectionToRange } from './selection';
+import { isText, textIsBR } from './text';
+
+/**
+ * Create Info for the selection. Elements are blocks by default. Pass isBlock
+ * predicate to distinguish inline elements like links.
+ */
+export const createInfo = (
+  selection: Selection,
+  element: Element,
+  isBlock: Predicate<NonEmptyPath> = constTrue,
+): Info => {
+  const range = selectionToRange(selection);
+  const { start, end } = range;
+  const collapsed = isCollapsed(selection);
+
+  // Whether the node span [nodeStart, nodeEnd] intersects the range.
+  const isSelected = (
+    nodeStart: Path,
+    nodeEnd: Path,
+    endIsInclusive: boolean,
+  ) =>
+    collapsed
+      ? byTreeOrder.compare(nodeStart, start) <= 0 &&
+        byTreeOrder.compare(start, nodeEnd) < (endIsInclusive ? 1 : 0)
+      : byTreeOrder.compare(nodeStart, end) < 0 &&
+        byTreeOrder.compare(nodeEnd, start) > 0;
+
   const nodes: NodeInfo[] = [];
+  let text = '';
+
+  const walk = (
+    parent: Element,
+    parentPath: Path,
+    parents: NonEmptyArray<Element>,
+    parentBlocks: NonEmptyArray<Element>,
+  ) => {
+    parent.children.forEach((node, index) => {
+      const path = snoc(parentPath, index as PathIndex);
+      const createNodeInfo = (
+        textOffsets: NodeInfo['textOffsets'],
+      ): NodeInfo => ({
+        node,
+        path,
+        parents,
+        parentBlocks,
+        previousSibling: lookup(index - 1, parent.children),
+        nextSibling: lookup(index + 1, parent.children),
+        textOffsets,
+      });
 
-  // const walk = (node: Node, path: Path) => {
-  //   if (isNonEmpty(path)) {
-  //     switch (sf) {
-  //       case 'start': {
-  //         // console.log(path, range.start);
-  //         if (isText(node) && geq(byContains)(path, range.start)) {
-  //           // sf = 'end';
-  //           sf = 'nothing';
-  //         }
-  //         break;
-  //       }
-  //       case 'end':
-  //         if (geq(byContains)(path, range.end)) sf = 'nothing';
-  //         break;
-  //       case 'nothing':
-  //         return;
-  //       default:
-  //         absurd(sf);
-  //     }
-  //     const selected = sf === 'end' || sf === 'nothing';
-
-  //     if (selected) {
-  //       nodes.push({ node, path });
-  //     }
-  //   }
-
-  //   if (sf === 'nothing' || !isElement(node)) return;
-  //   node.children.forEach((nodeChild, index) => {
-  //     if (sf === 'nothing') return;
-  //     pipe(
-  //       toPathIndex(index),
-  //       fold(constVoid, index => {
-  //         walk(nodeChild, snoc(path, index));
-  //       }),
-  //     );
-  //   });
-  // };
-
-  // walk(element, empty);
-
-  // eslint-disable-next-line no-console
-  // console.log(JSON.stringify(nodes));
-
-  return {
-    // selection,
-    // range,
-    nodes,
+      if (isText(node)) {
+        if (textIsBR(node)) {
+          // BR is selected like an element, via its parent and index.
+          if (
+            isSelected(path, snoc(parentPath, (index + 1) as PathIndex), false)
+          )
+            nodes.push(createNodeInfo(some([0, 0])));
+          return;
+        }
+        if (
+          !isSelected(
+            snoc(path, 0 as PathIndex),
+            snoc(path, node.length as PathIndex),
+            true,
+          )
+        )
+          return;
+        const isInNode = (point: NonEmptyPath) =>
+          eqPath.equals(initNonEmptyPath(point), path);
+        const startOffset = isInNode(start) ? start[start.length - 1] : 0;
+        const endOffset = isInNode(end) ? end[end.length - 1] : node.length;
+        nodes.push(createNodeInfo(some([startOffset, endOffset])));
+        text += node.slice(startOffset, endOffset);
+        return;
+      }
+
+      if (!isSelected(path, snoc(parentPath, (index + 1) as PathIndex), false))
+        return;
+      nodes.push(createNodeInfo(none));
+      walk(
+        node,
+        path,
+        cons(node, parents),
+        isBlock(path) ? cons(node, parentBlocks) : parentBlocks,
+      );
+    });
   };
+
+  walk(element, [], [element], [element]);
+
+  return { selection, range, nodes, text };
 };
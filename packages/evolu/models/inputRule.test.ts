@@ -0,0 +1,130 @@
+import { some } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Node, ReactElement, Value } from '../types';
+import { elementToIDless } from './element';
+import { applyInputRules, markdownInputRules } from './inputRule';
+import { unsafeSelection } from './selection';
+import { createValue } from './value';
+
+const id = createStableIDFactory();
+
+const el = (tag: string, children: Node[]): ReactElement =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+// The caret is at the offset of the first text of the first block.
+const valueWith = (block: ReactElement, offset: number) =>
+  createValue({
+    element: el('div', [block]),
+    selection: some(
+      unsafeSelection({ anchor: [0, 0, offset], focus: [0, 0, offset] }),
+    ),
+  });
+
+const apply = applyInputRules(markdownInputRules);
+
+const toIDless = (value: Value) => ({
+  element: elementToIDless(value.element),
+  selection: value.selection,
+});
+
+test('heading', () => {
+  expect(toIDless(apply(valueWith(el('p', ['## a']), 3)))).toMatchObject({
+    element: { children: [{ tag: 'h2', children: ['a'] }] },
+    selection: some({ anchor: [0, 0, 0], focus: [0, 0, 0] }),
+  });
+  // Empty heading has BR.
+  expect(toIDless(apply(valueWith(el('p', ['# ']), 2)))).toMatchObject({
+    element: { children: [{ tag: 'h1', children: [''] }] },
+    selection: some({ anchor: [0, 0], focus: [0, 0] }),
+  });
+});
+
+test('lists and blockquote', () => {
+  expect(toIDless(apply(valueWith(el('p', ['- a']), 2)))).toMatchObject({
+    element: {
+      children: [{ tag: 'ul', children: [{ tag: 'li', children: ['a'] }] }],
+    },
+    selection: some({ anchor: [0, 0, 0, 0], focus: [0, 0, 0, 0] }),
+  });
+  expect(toIDless(apply(valueWith(el('p', ['3. a']), 3)))).toMatchObject({
+    element: {
+      children: [
+        {
+          tag: 'ol',
+          props: { start: 3 },
+          children: [{ tag: 'li', children: ['a'] }],
+        },
+      ],
+    },
+  });
+  expect(toIDless(apply(valueWith(el('div', ['> a']), 2)))).toMatchObject({
+    element: {
+      children: [
+        { tag: 'blockquote', children: [{ tag: 'p', children: ['a'] }] },
+      ],
+    },
+  });
+});
+
+test('block rules only at the start of paragraphs', () => {
+  const notAtStart = valueWith(el('p', ['a # ']), 4);
+  expect(apply(notAtStart)).toBe(notAtStart);
+  const inListItem = valueWith(el('li', ['# ']), 2);
+  expect(apply(inListItem)).toBe(inListItem);
+  const caretBefore = valueWith(el('p', ['# ']), 1);
+  expect(apply(caretBefore)).toBe(caretBefore);
+});
+
+test('marks', () => {
+  expect(toIDless(apply(valueWith(el('p', ['a **b c**d']), 9)))).toEqual({
+    element: {
+      tag: 'div',
+      props: {},
+      children: [
+        {
+          tag: 'p',
+          props: {},
+          children: ['a ', { marks: ['bold'], children: ['b c'] }, 'd'],
+        },
+      ],
+    },
+    // The caret is after the mark, so typing does not continue in it.
+    selection: some({ anchor: [0, 2, 0], focus: [0, 2, 0] }),
+  });
+  // Without the following text, the caret is in BR.
+  expect(toIDless(apply(valueWith(el('p', ['*a*']), 3)))).toMatchObject({
+    element: { children: [{ children: [{ marks: ['italic'] }, ''] }] },
+    selection: some({ anchor: [0, 1], focus: [0, 1] }),
+  });
+});
+
+test('marks need delimiters', () => {
+  // The bold is not finished yet.
+  const bold = valueWith(el('p', ['**a*']), 4);
+  expect(apply(bold)).toBe(bold);
+  const snakeCase = valueWith(el('p', ['snake_case_']), 11);
+  expect(apply(snakeCase)).toBe(snakeCase);
+  const whitespace = valueWith(el('p', ['a * b *']), 7);
+  expect(apply(whitespace)).toBe(whitespace);
+});
+
+test('code', () => {
+  expect(toIDless(apply(valueWith(el('p', ['a `b`']), 5)))).toEqual({
+    element: {
+      tag: 'div',
+      props: {},
+      children: [
+        {
+          tag: 'p',
+          props: {},
+          children: ['a ', { tag: 'code', props: {}, children: ['b'] }, ''],
+        },
+      ],
+    },
+    selection: some({ anchor: [0, 2], focus: [0, 2] }),
+  });
+  expect(toIDless(apply(valueWith(el('p', ['`a`b']), 3)))).toMatchObject({
+    element: { children: [{ children: [{ tag: 'code' }, 'b'] }] },
+    selection: some({ anchor: [0, 1, 0], focus: [0, 1, 0] }),
+  });
+});
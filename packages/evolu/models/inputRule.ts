@@ -0,0 +1,354 @@
+import { Endomorphism, not } from 'fp-ts/lib/function';
+import { last, snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  chain,
+  exists,
+  filter,
+  getOrElse,
+  map,
+  none,
+  Option,
+  some,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import {
+  Element,
+  InputRule,
+  Mark,
+  MarkElement,
+  NonEmptyPath,
+  PathIndex,
+  Range,
+  ReactElement,
+  Value,
+} from '../types';
+import {
+  childrenLens,
+  getElementTraversal,
+  getFirstSelectionPoint,
+  getParentBlockPath,
+  getTextTraversal,
+  id,
+  isInlineElement,
+  setTextElement,
+} from './element';
+import { toggleMarkElement } from './mark';
+import {
+  eqPath,
+  initNonEmptyPath,
+  toNonEmptyPath,
+  tryInitNonEmptyPath,
+} from './path';
+import { collapseToEnd, isCollapsed, selectionFromPath } from './selection';
+import { escapeRegExp } from './string';
+import { textIsBR } from './text';
+
+const getTextAtPoint = (element: Element, point: NonEmptyPath) =>
+  pipe(
+    tryInitNonEmptyPath(point),
+    chain(textPath =>
+      pipe(
+        getTextTraversal(textPath).getOption(element),
+        map(text => ({ textPath, text })),
+      ),
+    ),
+  );
+
+/**
+ * Apply the first input rule matching the text before the collapsed
+ * selection. If no rule changes the value, the same value is returned.
+ */
+export const applyInputRules = (
+  rules: InputRule[],
+): Endomorphism<Value> => value =>
+  pipe(
+    value.selection,
+    filter(isCollapsed),
+    chain(({ focus }) =>
+      pipe(
+        getTextAtPoint(value.element, focus),
+        map(({ text }) => ({ focus, textBefore: text.slice(0, last(focus)) })),
+      ),
+    ),
+    map(({ focus, textBefore }) =>
+      rules.reduce((next, { regExp, apply }) => {
+        if (next !== value) return next;
+        const match = regExp.exec(textBefore);
+        if (match == null) return value;
+        const start = snoc(initNonEmptyPath(focus), match.index as PathIndex);
+        return apply(match, { start, end: focus })(value);
+      }, value),
+    ),
+    getOrElse(() => value),
+  );
+
+/**
+ * Input rule for the start of a block, except the root. The matched text
+ * is removed, and the block is replaced. For example, "# " makes a heading.
+ */
+export const blockInputRule = (
+  regExp: RegExp,
+  replaceBlock: (block: Element, match: RegExpExecArray) => Option<Element>,
+): InputRule => ({
+  regExp,
+  apply: (match, { start, end }) => value =>
+    pipe(
+      getTextAtPoint(value.element, start),
+      // Only the first text of the block, so not in a mark element.
+      filter(
+        ({ textPath }) =>
+          last(start) === 0 &&
+          last(textPath) === 0 &&
+          eqPath.equals(
+            getParentBlockPath(value.element)(start),
+            initNonEmptyPath(textPath),
+          ),
+      ),
+      chain(({ textPath, text }) =>
+        pipe(
+          toNonEmptyPath(initNonEmptyPath(textPath)),
+          chain(blockPath =>
+            pipe(
+              getElementTraversal(blockPath).getOption(value.element),
+              chain(block => {
+                const rest = text.slice(last(end));
+                const children = block.children.slice(1);
+                return replaceBlock(
+                  {
+                    ...block,
+                    // Empty block has BR.
+                    children:
+                      rest.length > 0 || children.length === 0
+                        ? [rest, ...children]
+                        : children,
+                  },
+                  match,
+                );
+              }),
+              map(block => getElementTraversal(blockPath).set(block)),
+              map(setBlock => {
+                const element = setBlock(value.element);
+                return {
+                  ...value,
+                  element,
+                  selection: some(
+                    selectionFromPath(
+                      getFirstSelectionPoint(element)(blockPath),
+                    ),
+                  ),
+                };
+              }),
+            ),
+          ),
+        ),
+      ),
+      getOrElse(() => value),
+    ),
+});
+
+// The caret is moved to the text after the inline element, so typing does not
+// continue in it. Without such text, BR is inserted as an empty text.
+const selectAfterInline = (element: Element, path: NonEmptyPath) => {
+  const nextIndex = (last(path) + 1) as PathIndex;
+  const nextPath = snoc(initNonEmptyPath(path), nextIndex);
+  return pipe(
+    getTextTraversal(nextPath).getOption(element),
+    map(text => ({
+      element,
+      point: textIsBR(text) ? nextPath : snoc(nextPath, 0 as PathIndex),
+    })),
+    getOrElse(() => ({
+      element: getElementTraversal(initNonEmptyPath(path))
+        .composeLens(childrenLens)
+        .modify(children => [
+          ...children.slice(0, nextIndex),
+          '',
+          ...children.slice(nextIndex),
+        ])(element),
+      point: nextPath,
+    })),
+  );
+};
+
+// Delimited text like **bold** at the end. The delimiter must not be
+// preceded by a word or the delimiter char, so snake_case is not italic,
+// and the text must not start or end with whitespace.
+const delimitedRegExp = (delimiter: string) => {
+  const d = escapeRegExp(delimiter);
+  const c = escapeRegExp(delimiter[0]);
+  return new RegExp(
+    `(?:^|[^\\w${c}])${d}([^${c}\\s](?:[^${c}]*[^${c}\\s])?)${d}$`,
+  );
+};
+
+// Remove the leading prefix char from the range of the match.
+const getDelimitedRange = (
+  match: RegExpExecArray,
+  delimiter: string,
+  { start, end }: Range,
+): Range => {
+  const length = match[1].length + delimiter.length * 2;
+  return {
+    start: snoc(initNonEmptyPath(start), (last(end) - length) as PathIndex),
+    end,
+  };
+};
+
+/**
+ * Input rule for text between delimiters. The delimiters are removed
+ * and the mark is toggled, and the caret is moved after the marked text.
+ * For example, **bold**.
+ */
+export const markInputRule = (delimiter: string, mark: Mark): InputRule => ({
+  regExp: delimitedRegExp(delimiter),
+  apply: (match, range) => value => {
+    const { start, end } = getDelimitedRange(match, delimiter, range);
+    return pipe(
+      getTextAtPoint(value.element, start),
+      map(({ textPath, text }) => {
+        const [, markedText] = match;
+        const element = setTextElement({
+          path: textPath,
+          text: text.slice(0, last(start)) + markedText + text.slice(last(end)),
+        })(value.element);
+        const next = toggleMarkElement({
+          mark,
+          selection: {
+            anchor: start,
+            focus: snoc(
+              textPath,
+              (last(start) + markedText.length) as PathIndex,
+            ),
+          },
+        })(element);
+        const { focus } = collapseToEnd(next.selection);
+        return pipe(
+          tryInitNonEmptyPath(focus),
+          map(initNonEmptyPath),
+          chain(toNonEmptyPath),
+          filter(path =>
+            pipe(
+              getElementTraversal(path).getOption(next.element),
+              exists(isInlineElement),
+            ),
+          ),
+          map(path => selectAfterInline(next.element, path)),
+          getOrElse(() => ({ element: next.element, point: focus })),
+          ({ element, point }) => ({
+            ...value,
+            element,
+            selection: some(selectionFromPath(point)),
+          }),
+        );
+      }),
+      getOrElse(() => value),
+    );
+  },
+});
+
+/**
+ * Input rule for text between delimiters. The delimited text is replaced
+ * with the created element, and the caret is moved after it.
+ * Mark elements can contain only texts, so texts in them are skipped.
+ * For example, `code`.
+ */
+export const elementInputRule = (
+  delimiter: string,
+  createElement: (text: string) => Element,
+): InputRule => ({
+  regExp: delimitedRegExp(delimiter),
+  apply: (match, range) => value => {
+    const { start, end } = getDelimitedRange(match, delimiter, range);
+    return pipe(
+      getTextAtPoint(value.element, start),
+      chain(({ textPath, text }) => {
+        const parentPath = initNonEmptyPath(textPath);
+        return pipe(
+          getElementTraversal(parentPath).getOption(value.element),
+          filter(not(MarkElement.is)),
+          map(() => ({ textPath, text, parentPath })),
+        );
+      }),
+      map(({ textPath, text, parentPath }) => {
+        const index = last(textPath);
+        const before = text.slice(0, last(start));
+        const after = text.slice(last(end));
+        const nodeIndex = (index + (before.length > 0 ? 1 : 0)) as PathIndex;
+        const element = getElementTraversal(parentPath)
+          .composeLens(childrenLens)
+          .modify(children => [
+            ...children.slice(0, index),
+            ...(before.length > 0 ? [before] : []),
+            createElement(match[1]),
+            ...(after.length > 0 ? [after] : []),
+            ...children.slice(index + 1),
+          ])(value.element);
+        const next = selectAfterInline(element, snoc(parentPath, nodeIndex));
+        return {
+          ...value,
+          element: next.element,
+          selection: some(selectionFromPath(next.point)),
+        };
+      }),
+      getOrElse(() => value),
+    );
+  },
+});
+
+const isParagraph = (block: Element) => {
+  const { tag } = block as Partial<ReactElement>;
+  return tag === 'p' || tag === 'div';
+};
+
+const paragraphRule = (
+  regExp: RegExp,
+  replaceParagraph: (block: ReactElement, match: RegExpExecArray) => Element,
+) =>
+  blockInputRule(regExp, (block, match) =>
+    isParagraph(block)
+      ? some(replaceParagraph(block as ReactElement, match))
+      : none,
+  );
+
+const wrap = (tag: string, props: ReactElement['props'] = {}) => (
+  block: ReactElement,
+): ReactElement =>
+  ({ id: id(), tag, props, children: [block] } as ReactElement);
+
+/**
+ * Markdown shortcuts for p or div blocks with tags like those of
+ * markdownToElement: headings, lists, and blockquotes. And **bold**,
+ * *italic*, ~~strikethrough~~, and `code` in texts.
+ */
+export const markdownInputRules: InputRule[] = [
+  paragraphRule(/^(#{1,6}) $/, (block, match) => ({
+    ...block,
+    tag: `h${match[1].length}`,
+    props: {},
+  })),
+  paragraphRule(/^[-*+] $/, block =>
+    wrap('ul')({ ...block, tag: 'li', props: {} }),
+  ),
+  paragraphRule(/^(\d{1,9})[.)] $/, (block, match) => {
+    const start = Number(match[1]);
+    return wrap(
+      'ol',
+      start !== 1 ? { start } : {},
+    )({
+      ...block,
+      tag: 'li',
+      props: {},
+    });
+  }),
+  paragraphRule(/^> $/, block => wrap('blockquote')({ ...block, tag: 'p' })),
+  markInputRule('**', 'bold'),
+  markInputRule('__', 'bold'),
+  markInputRule('~~', 'strikethrough'),
+  markInputRule('*', 'italic'),
+  markInputRule('_', 'italic'),
+  elementInputRule(
+    '`',
+    text =>
+      ({ id: id(), tag: 'code', props: {}, children: [text] } as ReactElement),
+  ),
+];
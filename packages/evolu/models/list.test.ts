@@ -0,0 +1,257 @@
+import { some } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Node, ReactElement, SelectionOutput, Value } from '../types';
+import { elementToIDless } from './element';
+import {
+  getIndentListItemsOperations,
+  indentListItems,
+  isAtListItemStart,
+  isInEmptyListItem,
+  outdentListItems,
+  reactListConfig,
+  toggleList,
+} from './list';
+import { applyOperations } from './operation';
+import { unsafeNonEmptyPath } from './path';
+import { unsafeSelection } from './selection';
+import { createValue, eqValue } from './value';
+
+const id = createStableIDFactory();
+
+const el = (tag: string, children: Node[]): ReactElement =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+const valueWith = (children: Node[], selection: SelectionOutput): Value =>
+  createValue({
+    element: el('div', children),
+    selection: some(unsafeSelection(selection)),
+  });
+
+const toggle = (ordered: boolean) => toggleList(reactListConfig, ordered);
+const indent = indentListItems(reactListConfig);
+const outdent = outdentListItems(reactListConfig);
+
+test('toggleList wraps blocks', () => {
+  const value = valueWith([el('p', ['a']), el('p', ['b']), el('p', ['c'])], {
+    anchor: [0, 0, 1],
+    focus: [1, 0, 1],
+  });
+  const next = toggle(false)(value);
+  expect(elementToIDless(next.element)).toMatchObject({
+    children: [
+      { tag: 'ul', children: [{ tag: 'li' }, { tag: 'li' }] },
+      { tag: 'p', children: ['c'] },
+    ],
+  });
+  expect(next.selection).toEqual(
+    some({ anchor: [0, 0, 0, 1], focus: [0, 1, 0, 1] }),
+  );
+  // The list of the other type is changed.
+  const ordered = toggle(true)(next);
+  expect(elementToIDless(ordered.element)).toMatchObject({
+    children: [{ tag: 'ol', children: [{ tag: 'li' }, { tag: 'li' }] }, {}],
+  });
+  // Only the tag is changed, but the value is not equal.
+  expect(eqValue.equals(ordered, next)).toBe(false);
+  // The list of the same type is lifted.
+  expect(elementToIDless(toggle(true)(ordered).element)).toEqual(
+    elementToIDless(value.element),
+  );
+});
+
+test('toggleList merges selected lists', () => {
+  const value = valueWith([el('p', ['a']), el('ul', [el('li', ['b'])])], {
+    anchor: [0, 0, 0],
+    focus: [1, 0, 0, 1],
+  });
+  expect(elementToIDless(toggle(false)(value).element)).toMatchObject({
+    children: [
+      {
+        tag: 'ul',
+        children: [
+          { tag: 'li', children: ['a'] },
+          { tag: 'li', children: ['b'] },
+        ],
+      },
+    ],
+  });
+});
+
+test('indentListItems', () => {
+  const value = valueWith(
+    [el('ul', [el('li', ['a']), el('li', ['b']), el('li', ['c'])])],
+    { anchor: [0, 1, 0, 1], focus: [0, 1, 0, 1] },
+  );
+  const next = indent(value);
+  expect(elementToIDless(next.element)).toMatchObject({
+    children: [
+      {
+        tag: 'ul',
+        children: [
+          {
+            children: ['a', { tag: 'ul', children: [{ children: ['b'] }] }],
+          },
+          { children: ['c'] },
+        ],
+      },
+    ],
+  });
+  expect(next.selection).toEqual(
+    some({ anchor: [0, 0, 1, 0, 0, 1], focus: [0, 0, 1, 0, 0, 1] }),
+  );
+  // Appended to the existing nested list.
+  const third = indent({
+    ...next,
+    selection: some(
+      unsafeSelection({ anchor: [0, 1, 0, 0], focus: [0, 1, 0, 0] }),
+    ),
+  });
+  expect(elementToIDless(third.element)).toMatchObject({
+    children: [
+      {
+        children: [
+          {
+            children: [
+              'a',
+              { children: [{ children: ['b'] }, { children: ['c'] }] },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+  // The first item can not be indented.
+  const first = {
+    ...value,
+    selection: some(
+      unsafeSelection({ anchor: [0, 0, 0, 0], focus: [0, 0, 0, 0] }),
+    ),
+  };
+  expect(indent(first)).toBe(first);
+});
+
+test('getIndentListItemsOperations', () => {
+  const value = valueWith(
+    [el('ul', [el('li', ['a']), el('li', ['b']), el('li', ['c'])])],
+    { anchor: [0, 1, 0, 0], focus: [0, 2, 0, 1] },
+  );
+  const operations = getIndentListItemsOperations(reactListConfig)(value);
+  // Items are moved, not removed and inserted.
+  expect(operations).toMatchObject([
+    { type: 'insertNode', path: [0, 0, 1], node: { tag: 'ul', children: [] } },
+    { type: 'moveNode', path: [0, 1], newPath: [0, 0, 1, 0] },
+    { type: 'moveNode', path: [0, 1], newPath: [0, 0, 1, 1] },
+    { type: 'setSelection' },
+  ]);
+  const next = applyOperations(value, operations);
+  expect(elementToIDless(next.element)).toEqual(
+    elementToIDless(indent(value).element),
+  );
+  expect(next.selection).toEqual(
+    some({ anchor: [0, 0, 1, 0, 0, 0], focus: [0, 0, 1, 1, 0, 1] }),
+  );
+});
+
+test('outdentListItems of nested list', () => {
+  const value = valueWith(
+    [
+      el('ul', [
+        el('li', [
+          'a',
+          el('ul', [el('li', ['b']), el('li', ['c']), el('li', ['d'])]),
+        ]),
+        el('li', ['e']),
+      ]),
+    ],
+    { anchor: [0, 0, 1, 1, 0, 0], focus: [0, 0, 1, 1, 0, 0] },
+  );
+  const next = outdent(value);
+  // The following items stay after the lifted item.
+  expect(elementToIDless(next.element)).toMatchObject({
+    children: [
+      {
+        children: [
+          { children: ['a', { children: [{ children: ['b'] }] }] },
+          { children: ['c', { tag: 'ul', children: [{ children: ['d'] }] }] },
+          { children: ['e'] },
+        ],
+      },
+    ],
+  });
+  expect(next.selection).toEqual(
+    some({ anchor: [0, 1, 0, 0], focus: [0, 1, 0, 0] }),
+  );
+  // The emptied nested list is removed.
+  const first = outdent({
+    ...value,
+    selection: some(
+      unsafeSelection({
+        anchor: [0, 0, 1, 0, 0, 0],
+        focus: [0, 0, 1, 2, 0, 1],
+      }),
+    ),
+  });
+  expect(elementToIDless(first.element)).toMatchObject({
+    children: [
+      {
+        children: [
+          { children: ['a'] },
+          { children: ['b'] },
+          { children: ['c'] },
+          { children: ['d'] },
+          { children: ['e'] },
+        ],
+      },
+    ],
+  });
+});
+
+test('outdentListItems of top level list', () => {
+  const value = valueWith(
+    [
+      el('ul', [
+        el('li', ['a']),
+        el('li', ['b', el('ul', [el('li', ['c'])])]),
+        el('li', ['d']),
+      ]),
+    ],
+    { anchor: [0, 1, 0, 0], focus: [0, 1, 0, 0] },
+  );
+  const next = outdent(value);
+  expect(elementToIDless(next.element)).toMatchObject({
+    children: [
+      { tag: 'ul', children: [{ children: ['a'] }] },
+      { tag: 'p', children: ['b'] },
+      { tag: 'ul', children: [{ children: ['c'] }] },
+      { tag: 'ul', children: [{ children: ['d'] }] },
+    ],
+  });
+  expect(next.selection).toEqual(some({ anchor: [1, 0, 0], focus: [1, 0, 0] }));
+  // Empty item becomes empty block.
+  const empty = outdent(
+    valueWith([el('ul', [el('li', [''])])], {
+      anchor: [0, 0, 0],
+      focus: [0, 0, 0],
+    }),
+  );
+  expect(elementToIDless(empty.element)).toMatchObject({
+    children: [{ tag: 'p', children: [''] }],
+  });
+  expect(empty.selection).toEqual(some({ anchor: [0, 0], focus: [0, 0] }));
+});
+
+test('isAtListItemStart and isInEmptyListItem', () => {
+  const element = el('div', [
+    el('ul', [el('li', ['ab']), el('li', [''])]),
+    el('p', ['c']),
+  ]);
+  const point = (path: number[]) => unsafeNonEmptyPath(path);
+  const isAtStart = isAtListItemStart(reactListConfig)(element);
+  const isInEmpty = isInEmptyListItem(reactListConfig)(element);
+  expect(isAtStart(point([0, 0, 0, 0]))).toBe(true);
+  expect(isAtStart(point([0, 0, 0, 1]))).toBe(false);
+  expect(isAtStart(point([0, 1, 0]))).toBe(true);
+  expect(isAtStart(point([1, 0, 0]))).toBe(false);
+  expect(isInEmpty(point([0, 1, 0]))).toBe(true);
+  expect(isInEmpty(point([0, 0, 0, 0]))).toBe(false);
+});
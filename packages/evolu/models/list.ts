@@ -0,0 +1,481 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { Endomorphism, Predicate } from 'fp-ts/lib/function';
+import { last, snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  alt,
+  chain,
+  exists,
+  filter,
+  fold,
+  getOrElse,
+  map,
+  none,
+  Option,
+  option,
+  some,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import {
+  Element,
+  ListConfig,
+  Node,
+  NonEmptyPath,
+  Operation,
+  Path,
+  PathIndex,
+  ReactElement,
+  Value,
+} from '../types';
+import {
+  childrenLens,
+  ensureBR,
+  getElementTraversal,
+  getFirstSelectionPoint,
+  getParentBlockPath,
+  id,
+} from './element';
+import { applyOperations } from './operation';
+import { eqPath, initNonEmptyPath, toNonEmptyPath } from './path';
+import { plainTextOffsetToPoint, pointToPlainTextOffset } from './plainText';
+import { selectionToRange } from './selection';
+import { isText, textIsBR } from './text';
+
+const getTag = (element: Element) => (element as Partial<ReactElement>).tag;
+
+const reactElement = (tag: string, children: Node[]) =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+/**
+ * Lists with ul, ol, and li like those of markdownToElement. Items lifted
+ * out of a list become paragraphs.
+ */
+export const reactListConfig: ListConfig = {
+  isList: element => getTag(element) === 'ul' || getTag(element) === 'ol',
+  isOrderedList: element => getTag(element) === 'ol',
+  isListItem: element => getTag(element) === 'li',
+  createList: (ordered, items) => reactElement(ordered ? 'ol' : 'ul', items),
+  createListItem: children => reactElement('li', children),
+  createBlock: children => reactElement('p', children),
+};
+
+interface ListItems {
+  readonly listPath: NonEmptyPath;
+  readonly list: Element;
+  // Indexes of the first and the last item.
+  readonly start: number;
+  readonly end: number;
+}
+
+const isElement = (node: Node): node is Element => !isText(node);
+
+const toElements = (nodes: Node[]) => nodes.filter(isElement);
+
+const isNestedList = (config: ListConfig): Predicate<Node> => node =>
+  isElement(node) && config.isList(node);
+
+const replaceChild = (
+  path: NonEmptyPath,
+  nodes: Node[],
+): Endomorphism<Element> => {
+  const index = last(path);
+  return getElementTraversal(initNonEmptyPath(path))
+    .composeLens(childrenLens)
+    .modify(children => [
+      ...children.slice(0, index),
+      ...nodes,
+      ...children.slice(index + 1),
+    ]);
+};
+
+const findAncestorPath = (element: Element, predicate: Predicate<Element>) => (
+  path: Path,
+): Option<NonEmptyPath> =>
+  pipe(
+    toNonEmptyPath(path),
+    chain(nonEmptyPath =>
+      pipe(
+        getElementTraversal(nonEmptyPath).getOption(element),
+        filter(predicate),
+        fold(
+          () =>
+            findAncestorPath(
+              element,
+              predicate,
+            )(initNonEmptyPath(nonEmptyPath)),
+          () => some(nonEmptyPath),
+        ),
+      ),
+    ),
+  );
+
+/**
+ * The path of the closest list item containing the point.
+ */
+export const getListItemPath = (config: ListConfig) => (element: Element) => (
+  point: NonEmptyPath,
+): Option<NonEmptyPath> =>
+  findAncestorPath(element, config.isListItem)(initNonEmptyPath(point));
+
+/**
+ * Whether the point is the first selection point of its list item.
+ */
+export const isAtListItemStart = (config: ListConfig) => (element: Element) => (
+  point: NonEmptyPath,
+): boolean =>
+  pipe(
+    getListItemPath(config)(element)(point),
+    exists(path => eqPath.equals(getFirstSelectionPoint(element)(path), point)),
+  );
+
+/**
+ * Whether the point is in a list item without text and nested list.
+ */
+export const isInEmptyListItem = (config: ListConfig) => (element: Element) => (
+  point: NonEmptyPath,
+): boolean =>
+  pipe(
+    getListItemPath(config)(element)(point),
+    chain(path => getElementTraversal(path).getOption(element)),
+    exists(item =>
+      item.children.every(child => isText(child) && textIsBR(child)),
+    ),
+  );
+
+// Items of the list with the start of the range, up to the item with the end.
+const getSelectedListItems = (config: ListConfig) => (
+  value: Value,
+): Option<ListItems> =>
+  pipe(
+    value.selection,
+    map(selectionToRange),
+    chain(({ start, end }) =>
+      pipe(
+        getListItemPath(config)(value.element)(start),
+        chain(itemPath => {
+          const listPath = initNonEmptyPath(itemPath);
+          return pipe(
+            toNonEmptyPath(listPath),
+            chain(listPath =>
+              getElementTraversal(listPath).getOption(value.element),
+            ),
+            filter(config.isList),
+            chain(list =>
+              pipe(
+                toNonEmptyPath(listPath),
+                map(listPath => {
+                  const startIndex = last(itemPath);
+                  const endIndex =
+                    end.length > listPath.length &&
+                    eqPath.equals(end.slice(0, listPath.length), listPath)
+                      ? end[listPath.length]
+                      : startIndex;
+                  return {
+                    listPath,
+                    list,
+                    start: startIndex,
+                    end: Math.max(startIndex, endIndex),
+                  };
+                }),
+              ),
+            ),
+          );
+        }),
+      ),
+    ),
+  );
+
+// List edits move blocks, but they keep lines, so the selection is mapped
+// via plain text offsets.
+const setElementWithSelection = (value: Value) => (element: Element): Value => {
+  if (element === value.element) return value;
+  const toOffset = pointToPlainTextOffset(value.element);
+  const toPoint = plainTextOffsetToPoint(element);
+  return {
+    ...value,
+    element,
+    selection: pipe(
+      value.selection,
+      chain(({ anchor, focus }) =>
+        sequenceT(option)(
+          pipe(toOffset(anchor), chain(toPoint)),
+          pipe(toOffset(focus), chain(toPoint)),
+        ),
+      ),
+      map(([anchor, focus]) => ({ anchor, focus })),
+      alt(() => value.selection),
+    ),
+  };
+};
+
+// Nodes are appended to the last nested list of the item, or to a new one.
+const appendToNestedList = (
+  config: ListConfig,
+  item: Element,
+  nodes: Node[],
+  ordered: boolean,
+): Element => {
+  const listIndex = item.children.map(isNestedList(config)).lastIndexOf(true);
+  if (listIndex === -1)
+    return {
+      ...item,
+      children: [
+        ...item.children,
+        config.createList(ordered, toElements(nodes)),
+      ],
+    };
+  const list = item.children[listIndex] as Element;
+  return {
+    ...item,
+    children: [
+      ...item.children.slice(0, listIndex),
+      { ...list, children: [...list.children, ...nodes] },
+      ...item.children.slice(listIndex + 1),
+    ],
+  };
+};
+
+// Items of the top level list become blocks, and their nested lists become
+// lists after them. The rest of the list is split.
+const liftOutOfList = (
+  config: ListConfig,
+  { listPath, list, start, end }: ListItems,
+): Endomorphism<Element> => {
+  const before = list.children.slice(0, start);
+  const after = list.children.slice(end + 1);
+  const blocks = toElements(list.children.slice(start, end + 1)).reduce<Node[]>(
+    (nodes, item) => [
+      ...nodes,
+      config.createBlock(
+        ensureBR(item.children.filter(child => !isNestedList(config)(child))),
+      ),
+      ...item.children.filter(isNestedList(config)),
+    ],
+    [],
+  );
+  return replaceChild(listPath, [
+    ...(before.length > 0 ? [{ ...list, children: before }] : []),
+    ...blocks,
+    ...(after.length > 0 ? [{ ...list, id: id(), children: after }] : []),
+  ]);
+};
+
+// Items of the nested list are moved after its parent item. The following
+// items become the nested list of the last moved item, so they stay after it.
+const liftToParentList = (
+  config: ListConfig,
+  { listPath, list, start, end }: ListItems,
+  parentItemPath: NonEmptyPath,
+  parentItem: Element,
+): Endomorphism<Element> => {
+  const items = toElements(list.children.slice(start, end + 1));
+  const following = list.children.slice(end + 1);
+  const remaining = list.children.slice(0, start);
+  const listIndex = last(listPath);
+  const lifted =
+    following.length > 0
+      ? [
+          ...items.slice(0, -1),
+          appendToNestedList(
+            config,
+            items[items.length - 1],
+            following,
+            config.isOrderedList(list),
+          ),
+        ]
+      : items;
+  return replaceChild(parentItemPath, [
+    {
+      ...parentItem,
+      children: [
+        ...parentItem.children.slice(0, listIndex),
+        ...(remaining.length > 0 ? [{ ...list, children: remaining }] : []),
+        ...parentItem.children.slice(listIndex + 1),
+      ],
+    },
+    ...lifted,
+  ]);
+};
+
+/**
+ * Operations moving the selected list items into the nested list of
+ * the previous item. The first item of a list can not be indented.
+ */
+export const getIndentListItemsOperations = (config: ListConfig) => (
+  value: Value,
+): Operation[] =>
+  pipe(
+    getSelectedListItems(config)(value),
+    filter(({ start }) => start > 0),
+    chain(({ listPath, list, start, end }) =>
+      pipe(
+        some(list.children[start - 1]),
+        filter(isElement),
+        map(previous => {
+          const previousPath = snoc(listPath, (start - 1) as PathIndex);
+          // Items are appended to the last nested list of the item, or to
+          // a new one.
+          const listIndex = previous.children
+            .map(isNestedList(config))
+            .lastIndexOf(true);
+          const nestedListPath = snoc(
+            previousPath,
+            (listIndex === -1
+              ? previous.children.length
+              : listIndex) as PathIndex,
+          );
+          const length =
+            listIndex === -1
+              ? 0
+              : (previous.children[listIndex] as Element).children.length;
+          const operations: Operation[] = [
+            ...(listIndex === -1
+              ? [
+                  {
+                    type: 'insertNode' as const,
+                    path: nestedListPath,
+                    node: config.createList(config.isOrderedList(list), []),
+                  },
+                ]
+              : []),
+            // The next item takes the place of the moved one.
+            ...list.children.slice(start, end + 1).map(
+              (_, index): Operation => ({
+                type: 'moveNode',
+                path: snoc(listPath, start as PathIndex),
+                newPath: snoc(nestedListPath, (length + index) as PathIndex),
+              }),
+            ),
+          ];
+          const { selection } = setElementWithSelection(value)(
+            applyOperations(value, operations).element,
+          );
+          return [
+            ...operations,
+            {
+              type: 'setSelection' as const,
+              selection: value.selection,
+              newSelection: selection,
+            },
+          ];
+        }),
+      ),
+    ),
+    getOrElse((): Operation[] => []),
+  );
+
+/**
+ * Move the selected list items into the nested list of the previous item.
+ * The first item of a list can not be indented.
+ */
+export const indentListItems = (
+  config: ListConfig,
+): Endomorphism<Value> => value =>
+  applyOperations(value, getIndentListItemsOperations(config)(value));
+
+/**
+ * Move the selected list items one level up. Items of a nested list are moved
+ * after the parent item, and items of a top level list become blocks.
+ */
+export const outdentListItems = (
+  config: ListConfig,
+): Endomorphism<Value> => value =>
+  pipe(
+    getSelectedListItems(config)(value),
+    map(items =>
+      pipe(
+        getListItemPath(config)(value.element)(items.listPath),
+        filter(path => path.length === items.listPath.length - 1),
+        chain(path =>
+          pipe(
+            getElementTraversal(path).getOption(value.element),
+            map(parentItem =>
+              liftToParentList(config, items, path, parentItem),
+            ),
+          ),
+        ),
+        getOrElse(() => liftOutOfList(config, items)),
+      ),
+    ),
+    map(edit => setElementWithSelection(value)(edit(value.element))),
+    getOrElse(() => value),
+  );
+
+// Sibling blocks from the block with the start to the block with the end.
+const getSelectedBlocks = (value: Value) =>
+  pipe(
+    value.selection,
+    map(selectionToRange),
+    chain(({ start, end }) => {
+      const getBlockPath = getParentBlockPath(value.element);
+      const startPath = getBlockPath(start);
+      const endPath = getBlockPath(end);
+      const depth = startPath.findIndex(
+        (index, i) => i >= endPath.length - 1 || index !== endPath[i],
+      );
+      if (depth === -1 || endPath.length === 0) return none;
+      const parentPath = startPath.slice(0, depth);
+      return pipe(
+        getElementTraversal(parentPath).getOption(value.element),
+        map(parent => ({
+          parentPath,
+          parent,
+          start: startPath[depth],
+          end: Math.max(startPath[depth], endPath[depth]),
+        })),
+      );
+    }),
+  );
+
+/**
+ * Toggle the list for the selected blocks. Blocks are wrapped into a new list,
+ * selected lists are merged into it. The list of the other type is changed,
+ * and items of the list of the same type are outdented.
+ */
+export const toggleList = (
+  config: ListConfig,
+  ordered: boolean,
+): Endomorphism<Value> => value =>
+  pipe(
+    getSelectedListItems(config)(value),
+    fold(
+      () =>
+        pipe(
+          getSelectedBlocks(value),
+          filter(({ parent, start, end }) =>
+            parent.children.slice(start, end + 1).every(isElement),
+          ),
+          map(({ parentPath, parent, start, end }) => {
+            const items = toElements(
+              parent.children.slice(start, end + 1),
+            ).reduce<Element[]>(
+              (items, block) =>
+                config.isList(block)
+                  ? [...items, ...toElements(block.children)]
+                  : [...items, config.createListItem(block.children)],
+              [],
+            );
+            return setElementWithSelection(value)(
+              getElementTraversal(parentPath)
+                .composeLens(childrenLens)
+                .modify(children => [
+                  ...children.slice(0, start),
+                  config.createList(ordered, items),
+                  ...children.slice(end + 1),
+                ])(value.element),
+            );
+          }),
+          getOrElse(() => value),
+        ),
+      ({ listPath, list }) =>
+        config.isOrderedList(list) === ordered
+          ? outdentListItems(config)(value)
+          : setElementWithSelection(value)(
+              replaceChild(listPath, [
+                {
+                  ...config.createList(ordered, toElements(list.children)),
+                  id: list.id,
+                },
+              ])(value.element),
+            ),
+    ),
+  );
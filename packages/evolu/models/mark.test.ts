@@ -0,0 +1,184 @@
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Element, Mark, MarkElement } from '../types';
+import { elementToIDless, normalizeElement } from './element';
+import { createInfo } from './info';
+import { getMarks, toggleMarkElement } from './mark';
+import { unsafeSelection } from './selection';
+
+const id = createStableIDFactory();
+
+const markElement = (marks: Mark[], children: string[]): MarkElement => ({
+  id: id(),
+  marks,
+  children,
+});
+
+const bold = (text: string) => markElement(['bold'], [text]);
+
+const toggle = (
+  element: Element,
+  mark: Mark,
+  anchor: number[],
+  focus: number[],
+) => {
+  const result = toggleMarkElement({
+    mark,
+    selection: unsafeSelection({ anchor, focus }),
+  })(element);
+  return {
+    element: elementToIDless(result.element),
+    selection: result.selection,
+  };
+};
+
+test('normalizeElement merges adjacent mark elements with equal marks', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      bold('a'),
+      markElement(['bold'], ['b', 'c']),
+      markElement(['italic', 'bold'], ['d']),
+      markElement(['bold', 'italic'], ['e']),
+      markElement([], ['f']),
+      'g',
+    ],
+  };
+  expect(elementToIDless(normalizeElement(element))).toEqual({
+    children: [
+      { marks: ['bold'], children: ['abc'] },
+      { marks: ['italic', 'bold'], children: ['de'] },
+      'fg',
+    ],
+  });
+  const normalized: Element = {
+    id: id(),
+    children: [bold('a'), 'b', markElement(['italic'], ['c'])],
+  };
+  expect(normalizeElement(normalized)).toBe(normalized);
+});
+
+test('toggleMarkElement adds mark', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['abc'] }],
+  };
+  expect(toggle(element, 'bold', [0, 0, 1], [0, 0, 2])).toEqual({
+    element: {
+      children: [
+        { children: ['a', { marks: ['bold'], children: ['b'] }, 'c'] },
+      ],
+    },
+    selection: { anchor: [0, 1, 0, 0], focus: [0, 1, 0, 1] },
+  });
+  expect(toggle(element, 'bold', [0, 0, 3], [0, 0, 0])).toEqual({
+    element: {
+      children: [{ children: [{ marks: ['bold'], children: ['abc'] }] }],
+    },
+    selection: { anchor: [0, 0, 0, 3], focus: [0, 0, 0, 0] },
+  });
+});
+
+test('toggleMarkElement removes mark', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['a', bold('bcd'), 'e'] }],
+  };
+  expect(toggle(element, 'bold', [0, 1, 0, 1], [0, 1, 0, 2])).toEqual({
+    element: {
+      children: [
+        {
+          children: [
+            'a',
+            { marks: ['bold'], children: ['b'] },
+            'c',
+            { marks: ['bold'], children: ['d'] },
+            'e',
+          ],
+        },
+      ],
+    },
+    selection: { anchor: [0, 2, 0], focus: [0, 2, 1] },
+  });
+  expect(toggle(element, 'bold', [0, 0, 0], [0, 2, 1])).toEqual({
+    element: {
+      children: [{ children: [{ marks: ['bold'], children: ['abcde'] }] }],
+    },
+    selection: { anchor: [0, 0, 0, 0], focus: [0, 0, 0, 5] },
+  });
+  expect(toggle(element, 'bold', [0, 1, 0, 0], [0, 1, 0, 3])).toEqual({
+    element: { children: [{ children: ['abcde'] }] },
+    selection: { anchor: [0, 0, 1], focus: [0, 0, 4] },
+  });
+});
+
+test('toggleMarkElement combines marks', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: [bold('ab'), 'c'] }],
+  };
+  expect(toggle(element, 'italic', [0, 0, 0, 1], [0, 1, 1])).toEqual({
+    element: {
+      children: [
+        {
+          children: [
+            { marks: ['bold'], children: ['a'] },
+            { marks: ['bold', 'italic'], children: ['b'] },
+            { marks: ['italic'], children: ['c'] },
+          ],
+        },
+      ],
+    },
+    selection: { anchor: [0, 1, 0, 0], focus: [0, 2, 0, 1] },
+  });
+});
+
+test('toggleMarkElement across blocks', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      { id: id(), children: ['ab'] },
+      { id: id(), children: [''] },
+      { id: id(), children: ['cd'] },
+    ],
+  };
+  expect(toggle(element, 'underline', [0, 0, 1], [2, 0, 1])).toEqual({
+    element: {
+      children: [
+        { children: ['a', { marks: ['underline'], children: ['b'] }] },
+        { children: [''] },
+        { children: [{ marks: ['underline'], children: ['c'] }, 'd'] },
+      ],
+    },
+    selection: { anchor: [0, 1, 0, 0], focus: [2, 0, 0, 1] },
+  });
+});
+
+test('toggleMarkElement with collapsed selection', () => {
+  const element: Element = {
+    id: id(),
+    children: [{ id: id(), children: ['abc'] }],
+  };
+  const selection = unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] });
+  expect(toggleMarkElement({ mark: 'bold', selection })(element)).toEqual({
+    element,
+    selection,
+  });
+});
+
+test('getMarks', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      {
+        id: id(),
+        children: [bold('a'), markElement(['bold', 'italic'], ['b']), 'c'],
+      },
+    ],
+  };
+  const marks = (anchor: number[], focus: number[]) =>
+    getMarks(createInfo(unsafeSelection({ anchor, focus }), element));
+  expect(marks([0, 0, 0, 0], [0, 1, 0, 1])).toEqual(['bold']);
+  expect(marks([0, 1, 0, 0], [0, 1, 0, 1])).toEqual(['bold', 'italic']);
+  expect(marks([0, 1, 0, 1], [0, 1, 0, 1])).toEqual(['bold', 'italic']);
+  expect(marks([0, 0, 0, 0], [0, 2, 1])).toEqual([]);
+});
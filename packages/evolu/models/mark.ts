@@ -0,0 +1,179 @@
+import { findFirst } from 'fp-ts/lib/Array';
+import { snoc } from 'fp-ts/lib/NonEmptyArray';
+import { chain, exists, fold, getOrElse, isSome } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import {
+  Element,
+  Info,
+  Mark,
+  MarkElement,
+  Node,
+  NodeInfo,
+  NonEmptyPath,
+  Path,
+  PathIndex,
+  Selection,
+  Text,
+} from '../types';
+import {
+  getPointByTextOffset,
+  getTextOffset,
+  id,
+  normalizeElement,
+} from './element';
+import { createInfo } from './info';
+import { eqPath } from './path';
+import { isForward } from './selection';
+import { isText, isTextNotBR } from './text';
+
+// The order of marks in MarkElement.
+const marksOrder: Mark[] = ['bold', 'italic', 'underline', 'strikethrough'];
+
+const isTextWithSelectedChars = ({ node, textOffsets }: NodeInfo) =>
+  isTextNotBR(node) &&
+  pipe(
+    textOffsets,
+    exists(([start, end]) => start < end),
+  );
+
+/**
+ * Marks of all selected texts. Collapsed selection has marks of its text.
+ */
+export const getMarks = ({ nodes }: Info): Mark[] => {
+  const selectedTexts = nodes.filter(isTextWithSelectedChars);
+  const texts =
+    selectedTexts.length > 0
+      ? selectedTexts
+      : nodes.filter(({ node }) => isText(node));
+  if (texts.length === 0) return [];
+  return marksOrder.filter(mark =>
+    texts.every(
+      ({ parents }) =>
+        MarkElement.is(parents[0]) && parents[0].marks.includes(mark),
+    ),
+  );
+};
+
+/**
+ * Whether all selected texts have the mark.
+ */
+export const hasMark = (mark: Mark) => (info: Info): boolean =>
+  getMarks(info).includes(mark);
+
+const toggleMarks = (marks: Mark[], mark: Mark, add: boolean): Mark[] =>
+  add
+    ? marksOrder.filter(m => m === mark || marks.includes(m))
+    : marks.filter(m => m !== mark);
+
+interface Run {
+  readonly marks: Mark[];
+  readonly text: Text;
+}
+
+/**
+ * Toggle the mark for the selected texts. Texts are split at selection
+ * boundaries into mark elements. If all selected texts have the mark, it's
+ * removed, otherwise it's added. Returns the normalized element and
+ * the selection of the same texts.
+ */
+export const toggleMarkElement = ({
+  mark,
+  selection,
+}: {
+  mark: Mark;
+  selection: Selection;
+}) => (element: Element): { element: Element; selection: Selection } => {
+  const info = createInfo(selection, element);
+  const add = !hasMark(mark)(info);
+
+  const getSelectedOffsets = (path: NonEmptyPath) =>
+    pipe(
+      findFirst<NodeInfo>(
+        nodeInfo =>
+          isTextWithSelectedChars(nodeInfo) &&
+          eqPath.equals(nodeInfo.path, path),
+      )(info.nodes),
+      chain(({ textOffsets }) => textOffsets),
+    );
+
+  const splitText = (text: Text, path: NonEmptyPath, marks: Mark[]): Run[] =>
+    pipe(
+      getSelectedOffsets(path),
+      fold(
+        () => [{ marks, text }],
+        ([start, end]) =>
+          [
+            { marks, text: text.slice(0, start) },
+            {
+              marks: toggleMarks(marks, mark, add),
+              text: text.slice(start, end),
+            },
+            { marks, text: text.slice(end) },
+          ].filter(run => run.text.length > 0),
+      ),
+    );
+
+  // The first mark element keeps the ID of the split mark element.
+  const runsToNodes = (runs: Run[], firstID = id()): Node[] =>
+    runs.map((run, index) =>
+      run.marks.length === 0
+        ? run.text
+        : {
+            id: index === 0 ? firstID : id(),
+            marks: run.marks,
+            children: [run.text],
+          },
+    );
+
+  const toggleInElement = (parent: Element, path: Path): Element => {
+    let somethingHasBeenToggled = false;
+    const children = parent.children.reduce<Node[]>((array, child, index) => {
+      const childPath = snoc(path, index as PathIndex);
+      if (isText(child)) {
+        if (!isSome(getSelectedOffsets(childPath))) return [...array, child];
+        somethingHasBeenToggled = true;
+        return [...array, ...runsToNodes(splitText(child, childPath, []))];
+      }
+      if (MarkElement.is(child)) {
+        const textPaths = child.children.map((_, index) =>
+          snoc(childPath, index as PathIndex),
+        );
+        if (!textPaths.some(path => isSome(getSelectedOffsets(path))))
+          return [...array, child];
+        somethingHasBeenToggled = true;
+        const runs = child.children.reduce<Run[]>(
+          (runs, text, index) => [
+            ...runs,
+            ...splitText(text, textPaths[index], child.marks),
+          ],
+          [],
+        );
+        return [...array, ...runsToNodes(runs, child.id)];
+      }
+      const toggledChild = toggleInElement(child, childPath);
+      if (toggledChild !== child) somethingHasBeenToggled = true;
+      return [...array, toggledChild];
+    }, []);
+    return somethingHasBeenToggled ? { ...parent, children } : parent;
+  };
+
+  const toggled = toggleInElement(element, []);
+  if (toggled === element) return { element, selection };
+  const nextElement = normalizeElement(toggled);
+
+  // Toggling does not change text, so points are mapped via text offsets.
+  const mapPoint = (point: NonEmptyPath, backward: boolean) =>
+    pipe(
+      getTextOffset(element)(point),
+      getPointByTextOffset(nextElement, backward),
+      getOrElse(() => point),
+    );
+  const forward = isForward(selection);
+  return {
+    element: nextElement,
+    selection: {
+      anchor: mapPoint(selection.anchor, !forward),
+      focus: mapPoint(selection.focus, forward),
+    },
+  };
+};
@@ -0,0 +1,241 @@
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Element, ElementID, ReactElement } from '../types';
+import { elementToIDless } from './element';
+import { elementToMarkdown, markdownToElement } from './markdown';
+
+const id = createStableIDFactory();
+
+const parse = (markdown: string) =>
+  elementToIDless(markdownToElement(markdown, id)).children;
+
+test('empty markdown is empty paragraph', () => {
+  expect(parse('')).toEqual([{ tag: 'p', props: {}, children: [''] }]);
+});
+
+test('headings and paragraphs', () => {
+  expect(parse('# a\n\nb\nc\n\nd\n===\n\ne\n---\n\n###### f ##')).toEqual([
+    { tag: 'h1', props: {}, children: ['a'] },
+    { tag: 'p', props: {}, children: ['b c'] },
+    { tag: 'h1', props: {}, children: ['d'] },
+    { tag: 'h2', props: {}, children: ['e'] },
+    { tag: 'h6', props: {}, children: ['f'] },
+  ]);
+});
+
+test('emphasis', () => {
+  expect(parse('a *b* __c__ ***d*** *e **f*** g*h')).toEqual([
+    {
+      tag: 'p',
+      props: {},
+      children: [
+        'a ',
+        { marks: ['italic'], children: ['b'] },
+        ' ',
+        { marks: ['bold'], children: ['c'] },
+        ' ',
+        { marks: ['bold', 'italic'], children: ['d'] },
+        ' ',
+        { marks: ['italic'], children: ['e '] },
+        { marks: ['bold', 'italic'], children: ['f'] },
+        ' g*h',
+      ],
+    },
+  ]);
+  expect(parse('snake_case_name **a\\*b** <u>c</u><s>d</s>')).toEqual([
+    {
+      tag: 'p',
+      props: {},
+      children: [
+        'snake_case_name ',
+        { marks: ['bold'], children: ['a*b'] },
+        ' ',
+        { marks: ['underline'], children: ['c'] },
+        { marks: ['strikethrough'], children: ['d'] },
+      ],
+    },
+  ]);
+});
+
+test('links, images, code, and hard breaks', () => {
+  expect(
+    parse(
+      '[a *b*](/c "d") ![e](f.png) `g` <https://h.com>\\\ni  \nj [k](javascript:alert(1))',
+    ),
+  ).toEqual([
+    {
+      tag: 'p',
+      props: {},
+      children: [
+        {
+          tag: 'a',
+          props: { href: '/c', title: 'd' },
+          children: ['a ', { marks: ['italic'], children: ['b'] }],
+        },
+        ' ',
+        { tag: 'img', props: { src: 'f.png', alt: 'e' }, children: [] },
+        ' ',
+        { tag: 'code', props: {}, children: ['g'] },
+        ' ',
+        {
+          tag: 'a',
+          props: { href: 'https://h.com' },
+          children: ['https://h.com'],
+        },
+        '',
+        'i',
+        '',
+        'j k',
+      ],
+    },
+  ]);
+});
+
+test('nested lists', () => {
+  expect(parse('- a\n  - b\n  - c\n- d\n\n3. e\n4. f')).toEqual([
+    {
+      tag: 'ul',
+      props: {},
+      children: [
+        {
+          tag: 'li',
+          props: {},
+          children: [
+            'a',
+            {
+              tag: 'ul',
+              props: {},
+              children: [
+                { tag: 'li', props: {}, children: ['b'] },
+                { tag: 'li', props: {}, children: ['c'] },
+              ],
+            },
+          ],
+        },
+        { tag: 'li', props: {}, children: ['d'] },
+      ],
+    },
+    {
+      tag: 'ol',
+      props: { start: 3 },
+      children: [
+        { tag: 'li', props: {}, children: ['e'] },
+        { tag: 'li', props: {}, children: ['f'] },
+      ],
+    },
+  ]);
+  // Loose list items have paragraphs.
+  expect(parse('- a\n\n- b')).toMatchObject([
+    {
+      tag: 'ul',
+      children: [
+        { tag: 'li', children: [{ tag: 'p', children: ['a'] }] },
+        { tag: 'li', children: [{ tag: 'p', children: ['b'] }] },
+      ],
+    },
+  ]);
+});
+
+test('code blocks, blockquotes, and thematic breaks', () => {
+  expect(
+    parse('```js\na\n\n  b\n```\n\n    c\n\n> d\ne\n> > f\n\n***'),
+  ).toEqual([
+    {
+      tag: 'pre',
+      props: {},
+      children: [
+        {
+          tag: 'code',
+          props: { className: 'language-js' },
+          children: ['a\n\n  b'],
+        },
+      ],
+    },
+    {
+      tag: 'pre',
+      props: {},
+      children: [{ tag: 'code', props: {}, children: ['c'] }],
+    },
+    {
+      tag: 'blockquote',
+      props: {},
+      children: [
+        { tag: 'p', props: {}, children: ['d e'] },
+        {
+          tag: 'blockquote',
+          props: {},
+          children: [{ tag: 'p', props: {}, children: ['f'] }],
+        },
+      ],
+    },
+    { tag: 'hr', props: {}, children: [] },
+  ]);
+});
+
+test('elementToMarkdown is the reverse of markdownToElement', () => {
+  const markdown = [
+    '# a *b*',
+    'c **d *e*** <u>f</u> \\*g\\* [h](/i "j") ![k](l.png) ``m`n``\\\no',
+    '- p\n  1. q\n  2. r\n- s',
+    '1. t\n\n   u\n\n2. v',
+    '```ts\nw\n```',
+    '> x\n>\n> - y',
+    '---',
+    '\\# z',
+  ].join('\n\n');
+  expect(elementToMarkdown(markdownToElement(markdown, id))).toBe(markdown);
+});
+
+test('unsafe links and images are dropped, their text is kept', () => {
+  expect(parse('[a *b*](javascript:alert(1)) ![c](javascript:d)')).toEqual([
+    {
+      tag: 'p',
+      props: {},
+      children: ['a ', { marks: ['italic'], children: ['b'] }, ' c'],
+    },
+  ]);
+  expect(
+    elementToMarkdown(markdownToElement('[a](javascript:alert(1))', id)),
+  ).toBe('a');
+});
+
+test('elementToMarkdown moves whitespace outside of delimiters', () => {
+  const element: Element = {
+    id: id(),
+    children: [
+      'a',
+      { id: id(), marks: ['bold'], children: [' b '] },
+      'c',
+      '',
+      '',
+    ],
+  } as Element;
+  expect(elementToMarkdown(element)).toBe('a **b** c');
+});
+
+test('elementToMarkdown fallback', () => {
+  const element: ReactElement = {
+    id: id(),
+    tag: 'div',
+    props: {},
+    children: [
+      {
+        id: id(),
+        tag: 'p',
+        props: {},
+        children: [
+          'a',
+          { id: 'b' as ElementID, tag: 'mark', props: {}, children: ['b'] },
+        ],
+      },
+      { id: id(), tag: 'table', props: {}, children: [] },
+    ],
+  };
+  expect(elementToMarkdown(element)).toBe('ab');
+  expect(
+    elementToMarkdown(element, (element, children) =>
+      (element as ReactElement).tag === 'mark'
+        ? `==${children}==`
+        : `<${(element as ReactElement).tag}/>`,
+    ),
+  ).toBe('a==b==\n\n<table/>');
+});
@@ -0,0 +1,999 @@
+import { IO } from 'fp-ts/lib/IO';
+import {
+  Element,
+  ElementID,
+  Mark,
+  MarkdownFallback,
+  MarkElement,
+  Node,
+  ReactElement,
+} from '../types';
+import { ensureBR, id, normalizeElement } from './element';
+import { isSafeURL } from './html';
+import { isText, textIsBR } from './text';
+
+// Markdown import is a subset of CommonMark: headings, paragraphs, emphasis,
+// links, images, code, blockquotes, lists, thematic and hard breaks.
+// HTML blocks, reference links, and entities are not supported.
+
+const marksOrder: Mark[] = ['bold', 'italic', 'underline', 'strikethrough'];
+
+const addMark = (marks: Mark[], mark: Mark) =>
+  marksOrder.filter(m => m === mark || marks.includes(m));
+
+const isWhitespace = (char: string) => /\s/.test(char);
+
+const isPunctuation = (char: string) => /[!-/:-@[-`{-~]/.test(char);
+
+const unescapePunctuation = (text: string) =>
+  text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+
+type Inline =
+  | { readonly type: 'text'; readonly text: string }
+  | { readonly type: 'br' }
+  | { readonly type: 'code'; readonly text: string }
+  | { readonly type: 'mark'; readonly mark: Mark; readonly children: Inline[] }
+  | {
+      readonly type: 'link';
+      readonly href: string;
+      readonly title: string | null;
+      readonly children: Inline[];
+    }
+  | {
+      readonly type: 'image';
+      readonly src: string;
+      readonly alt: string;
+      readonly title: string | null;
+    };
+
+// Delimiter runs of * and _ waiting for the emphasis algorithm.
+interface Delimiter {
+  readonly type: 'delimiter';
+  readonly char: string;
+  readonly count: number;
+  readonly length: number;
+  readonly canOpen: boolean;
+  readonly canClose: boolean;
+}
+
+type InlineOrDelimiter = Inline | Delimiter;
+
+const isDelimiter = (item: InlineOrDelimiter): item is Delimiter =>
+  item.type === 'delimiter';
+
+const delimiterToInline = (item: InlineOrDelimiter): Inline =>
+  isDelimiter(item)
+    ? { type: 'text', text: item.char.repeat(item.count) }
+    : item;
+
+// The "rule of 3" from CommonMark.
+const canMatch = (opener: Delimiter, closer: Delimiter) =>
+  opener.char === closer.char &&
+  opener.canOpen &&
+  !(
+    (opener.canClose || closer.canOpen) &&
+    (opener.length + closer.length) % 3 === 0 &&
+    !(opener.length % 3 === 0 && closer.length % 3 === 0)
+  );
+
+// https://spec.commonmark.org/0.29/#process-emphasis
+const processEmphasis = (items: InlineOrDelimiter[]): Inline[] => {
+  let result = items;
+  let closerIndex = 0;
+  while (closerIndex < result.length) {
+    const closer = result[closerIndex];
+    let openerIndex = -1;
+    if (isDelimiter(closer) && closer.canClose) {
+      for (let i = closerIndex - 1; i >= 0; i--) {
+        const opener = result[i];
+        if (isDelimiter(opener) && canMatch(opener, closer)) {
+          openerIndex = i;
+          break;
+        }
+      }
+    }
+    if (openerIndex === -1 || !isDelimiter(closer)) {
+      closerIndex++;
+    } else {
+      const opener = result[openerIndex] as Delimiter;
+      const used = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+      const mark: Inline = {
+        type: 'mark',
+        mark: used === 2 ? 'bold' : 'italic',
+        children: result
+          .slice(openerIndex + 1, closerIndex)
+          .map(delimiterToInline),
+      };
+      const restOfOpener =
+        opener.count > used ? [{ ...opener, count: opener.count - used }] : [];
+      const restOfCloser =
+        closer.count > used ? [{ ...closer, count: closer.count - used }] : [];
+      result = [
+        ...result.slice(0, openerIndex),
+        ...restOfOpener,
+        mark,
+        ...restOfCloser,
+        ...result.slice(closerIndex + 1),
+      ];
+      // The rest of the closer can close another opener.
+      closerIndex = openerIndex + restOfOpener.length + 1;
+    }
+  }
+  return result.map(delimiterToInline);
+};
+
+const findCodeSpanEnd = (source: string, from: number, length: number) => {
+  const regExp = /`+/g;
+  regExp.lastIndex = from;
+  let match = regExp.exec(source);
+  while (match != null) {
+    if (match[0].length === length) return match.index;
+    match = regExp.exec(source);
+  }
+  return -1;
+};
+
+const linkTailRegExp = /^[ \t\n]*(?:<((?:[^<>\n\\]|\\.)*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:[ \t\n]+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?[ \t\n]*\)/;
+
+interface ParsedLink {
+  readonly text: string;
+  readonly destination: string;
+  readonly title: string | null;
+  readonly end: number;
+}
+
+// Inline links only. The start is the index of [.
+const parseLink = (source: string, start: number): ParsedLink | null => {
+  let depth = 0;
+  let index = start;
+  for (; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') index++;
+    else if (char === '[') depth++;
+    else if (char === ']') {
+      depth--;
+      if (depth === 0) break;
+    }
+  }
+  if (depth !== 0 || source[index + 1] !== '(') return null;
+  const match = linkTailRegExp.exec(source.slice(index + 2));
+  if (match == null) return null;
+  const [tail, bracketed, plain, title] = match;
+  return {
+    text: source.slice(start + 1, index),
+    destination: unescapePunctuation(bracketed != null ? bracketed : plain),
+    title: title ? unescapePunctuation(title.slice(1, -1)) : null,
+    end: index + 2 + tail.length,
+  };
+};
+
+const inlinesToPlainText = (inlines: Inline[]): string =>
+  inlines
+    .map(inline => {
+      switch (inline.type) {
+        case 'text':
+        case 'code':
+          return inline.text;
+        case 'br':
+          return '\n';
+        case 'image':
+          return inline.alt;
+        default:
+          return inlinesToPlainText(inline.children);
+      }
+    })
+    .join('');
+
+const parseInlines = (source: string): Inline[] => {
+  const items: InlineOrDelimiter[] = [];
+  let text = '';
+  const flushText = () => {
+    if (text.length > 0) items.push({ type: 'text', text });
+    text = '';
+  };
+  const pushInline = (inline: Inline) => {
+    flushText();
+    items.push(inline);
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const rest = source.slice(index);
+    if (char === '\\' && source[index + 1] === '\n') {
+      pushInline({ type: 'br' });
+      index += 2;
+    } else if (char === '\\' && isPunctuation(source[index + 1] || '')) {
+      text += source[index + 1];
+      index += 2;
+    } else if (char === '\n') {
+      // Two spaces at the end of a line are a hard break too.
+      const isHardBreak = / {2,}$/.test(text);
+      text = text.replace(/ +$/, '');
+      if (isHardBreak) pushInline({ type: 'br' });
+      else text += ' ';
+      index++;
+      while (source[index] === ' ') index++;
+    } else if (char === '`') {
+      const [run] = /^`+/.exec(rest) as RegExpExecArray;
+      const end = findCodeSpanEnd(source, index + run.length, run.length);
+      if (end === -1) {
+        text += run;
+      } else {
+        let code = source.slice(index + run.length, end).replace(/\n/g, ' ');
+        if (/^ [^]* $/.test(code) && !/^ *$/.test(code))
+          code = code.slice(1, -1);
+        pushInline({ type: 'code', text: code });
+      }
+      index = end === -1 ? index + run.length : end + run.length;
+    } else if (char === '[' || (char === '!' && source[index + 1] === '[')) {
+      const isImage = char === '!';
+      const link = parseLink(source, isImage ? index + 1 : index);
+      if (link == null) {
+        text += char;
+        index++;
+      } else {
+        const children = parseInlines(link.text);
+        // Unsafe link or image is dropped, but its text is kept.
+        if (!isSafeURL(link.destination)) {
+          if (isImage) text += inlinesToPlainText(children);
+          else {
+            flushText();
+            items.push(...children);
+          }
+        } else {
+          pushInline(
+            isImage
+              ? {
+                  type: 'image',
+                  src: link.destination,
+                  alt: inlinesToPlainText(children),
+                  title: link.title,
+                }
+              : {
+                  type: 'link',
+                  href: link.destination,
+                  title: link.title,
+                  children,
+                },
+          );
+        }
+        index = link.end;
+      }
+    } else if (char === '<') {
+      const autolink = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*)>/.exec(rest);
+      const email = /^<([^\s@<>\\]+@[^\s@<>\\]+)>/.exec(rest);
+      const markTag = /^<(u|s)>([^]*?)<\/\1>/.exec(rest);
+      if (autolink != null && isSafeURL(autolink[1])) {
+        pushInline({
+          type: 'link',
+          href: autolink[1],
+          title: null,
+          children: [{ type: 'text', text: autolink[1] }],
+        });
+        index += autolink[0].length;
+      } else if (email != null) {
+        pushInline({
+          type: 'link',
+          href: `mailto:${email[1]}`,
+          title: null,
+          children: [{ type: 'text', text: email[1] }],
+        });
+        index += email[0].length;
+      } else if (markTag != null) {
+        pushInline({
+          type: 'mark',
+          mark: markTag[1] === 'u' ? 'underline' : 'strikethrough',
+          children: parseInlines(markTag[2]),
+        });
+        index += markTag[0].length;
+      } else {
+        text += char;
+        index++;
+      }
+    } else if (char === '*' || char === '_') {
+      const [run] = (char === '*' ? /^\*+/ : /^_+/).exec(
+        rest,
+      ) as RegExpExecArray;
+      const before = index > 0 ? source[index - 1] : ' ';
+      const after = source[index + run.length] || ' ';
+      const isLeftFlanking =
+        !isWhitespace(after) &&
+        (!isPunctuation(after) ||
+          isWhitespace(before) ||
+          isPunctuation(before));
+      const isRightFlanking =
+        !isWhitespace(before) &&
+        (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+      flushText();
+      items.push({
+        type: 'delimiter',
+        char,
+        count: run.length,
+        length: run.length,
+        canOpen:
+          char === '*'
+            ? isLeftFlanking
+            : isLeftFlanking && (!isRightFlanking || isPunctuation(before)),
+        canClose:
+          char === '*'
+            ? isRightFlanking
+            : isRightFlanking && (!isLeftFlanking || isPunctuation(after)),
+      });
+      index += run.length;
+    } else {
+      text += char;
+      index++;
+    }
+  }
+  flushText();
+  return processEmphasis(items);
+};
+
+const atxHeadingRegExp = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const setextUnderlineRegExp = /^ {0,3}(=+|-+)[ \t]*$/;
+const thematicBreakRegExp = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const fenceRegExp = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`]*?)[ \t]*$/;
+const blockquoteRegExp = /^ {0,3}> ?/;
+const listMarkerRegExp = /^( {0,3})([-+*]|(\d{1,9})[.)])(?:([ \t]+)(.*))?$/;
+const indentedCodeRegExp = /^ {4}/;
+
+const isBlank = (line: string) => /^[ \t]*$/.test(line);
+
+const getIndent = (line: string) =>
+  (/^ */.exec(line) as RegExpExecArray)[0].length;
+
+// Only non empty bullets and ordered lists starting with 1 interrupt
+// a paragraph.
+const isBlockStart = (line: string) => {
+  const listMarker = listMarkerRegExp.exec(line);
+  return (
+    atxHeadingRegExp.test(line) ||
+    thematicBreakRegExp.test(line) ||
+    fenceRegExp.test(line) ||
+    blockquoteRegExp.test(line) ||
+    (listMarker != null &&
+      listMarker[5] != null &&
+      listMarker[5] !== '' &&
+      (listMarker[3] == null || Number(listMarker[3]) === 1))
+  );
+};
+
+interface ListMarker {
+  readonly type: string;
+  readonly start: number | null;
+  readonly contentIndent: number;
+  readonly content: string;
+}
+
+const parseListMarker = (line: string): ListMarker | null => {
+  const match = listMarkerRegExp.exec(line);
+  if (match == null) return null;
+  const [, indent, marker, start, spaces = '', content = ''] = match;
+  // Content indented by more than 4 spaces is indented code.
+  const isCode = spaces.length > 4;
+  return {
+    // Bullet char or ordered list delimiter.
+    type: marker[marker.length - 1],
+    start: start != null ? Number(start) : null,
+    contentIndent:
+      indent.length +
+      marker.length +
+      (content === '' || isCode ? 1 : spaces.length),
+    content: isCode ? spaces.slice(1) + content : content,
+  };
+};
+
+const expandTabs = (line: string) =>
+  line.replace(/^[ \t]+/, indent =>
+    indent
+      .split('')
+      .reduce(
+        (spaces, char) =>
+          char === ' '
+            ? `${spaces} `
+            : spaces + ' '.repeat(4 - (spaces.length % 4)),
+        '',
+      ),
+  );
+
+interface ParseContext {
+  readonly createID: IO<ElementID>;
+}
+
+const createElement = (
+  context: ParseContext,
+  tag: string,
+  children: Node[],
+  props: { [name: string]: unknown } = {},
+): ReactElement =>
+  ({
+    id: context.createID(),
+    tag,
+    props,
+    children: ensureBR(children),
+  } as ReactElement);
+
+const inlinesToNodes = (
+  context: ParseContext,
+  inlines: Inline[],
+  marks: Mark[] = [],
+): Node[] =>
+  inlines.reduce<Node[]>((nodes, inline) => {
+    switch (inline.type) {
+      case 'text': {
+        if (marks.length === 0) return [...nodes, inline.text];
+        const markElement: MarkElement = {
+          id: context.createID(),
+          marks,
+          children: [inline.text],
+        };
+        return [...nodes, markElement];
+      }
+      case 'br':
+        return [...nodes, ''];
+      case 'code':
+        return [
+          ...nodes,
+          createElement(
+            context,
+            'code',
+            inlinesToNodes(
+              context,
+              [{ type: 'text', text: inline.text }],
+              marks,
+            ),
+          ),
+        ];
+      case 'mark':
+        return [
+          ...nodes,
+          ...inlinesToNodes(
+            context,
+            inline.children,
+            addMark(marks, inline.mark),
+          ),
+        ];
+      case 'link':
+        return [
+          ...nodes,
+          createElement(
+            context,
+            'a',
+            inlinesToNodes(context, inline.children, marks),
+            inline.title != null
+              ? { href: inline.href, title: inline.title }
+              : { href: inline.href },
+          ),
+        ];
+      case 'image': {
+        const props =
+          inline.title != null
+            ? { src: inline.src, alt: inline.alt, title: inline.title }
+            : { src: inline.src, alt: inline.alt };
+        // Like jsx, void elements have no children.
+        const image: ReactElement = {
+          id: context.createID(),
+          tag: 'img',
+          props,
+          children: [],
+        };
+        return [...nodes, image];
+      }
+      default:
+        return nodes;
+    }
+  }, []);
+
+const createTextBlock = (context: ParseContext, tag: string, text: string) =>
+  createElement(
+    context,
+    tag,
+    inlinesToNodes(context, parseInlines(text.trim())),
+  );
+
+const createCodeBlock = (
+  context: ParseContext,
+  lines: string[],
+  language: string,
+) =>
+  createElement(context, 'pre', [
+    createElement(
+      context,
+      'code',
+      lines.length > 0 ? [lines.join('\n')] : [],
+      language ? { className: `language-${language}` } : {},
+    ),
+  ]);
+
+const parseBlocks = (
+  context: ParseContext,
+  lines: string[],
+): ReactElement[] => {
+  const blocks: ReactElement[] = [];
+  let index = 0;
+
+  const parseList = (first: ListMarker) => {
+    const items: string[][] = [];
+    let isLoose = false;
+    let endedWithBlank = false;
+    let marker = parseListMarker(lines[index]);
+    while (
+      marker != null &&
+      marker.type === first.type &&
+      (marker.start == null) === (first.start == null)
+    ) {
+      if (endedWithBlank) isLoose = true;
+      const { contentIndent } = marker;
+      const itemLines = [marker.content];
+      index++;
+      while (index < lines.length) {
+        const line = lines[index];
+        const previous = itemLines[itemLines.length - 1];
+        if (isBlank(line)) itemLines.push('');
+        else if (getIndent(line) >= contentIndent)
+          itemLines.push(line.slice(contentIndent));
+        // Lazy paragraph continuation.
+        else if (
+          previous !== '' &&
+          !isBlockStart(line) &&
+          parseListMarker(line) == null
+        )
+          itemLines.push(line);
+        else break;
+        index++;
+      }
+      endedWithBlank = false;
+      while (itemLines.length > 1 && itemLines[itemLines.length - 1] === '') {
+        itemLines.pop();
+        endedWithBlank = true;
+      }
+      // Blank line between direct children blocks of the item.
+      if (
+        itemLines.some(
+          (line, i) =>
+            line === '' &&
+            itemLines[i + 1] != null &&
+            getIndent(itemLines[i + 1]) === 0,
+        )
+      )
+        isLoose = true;
+      items.push(itemLines);
+      marker = index < lines.length ? parseListMarker(lines[index]) : null;
+    }
+    const children = items.map(itemLines => {
+      const itemBlocks = parseBlocks(context, itemLines);
+      // Tight list items have paragraphs content without paragraphs.
+      return createElement(
+        context,
+        'li',
+        isLoose
+          ? itemBlocks
+          : itemBlocks.reduce<Node[]>(
+              (nodes, block) =>
+                block.tag === 'p'
+                  ? [...nodes, ...block.children]
+                  : [...nodes, block],
+              [],
+            ),
+      );
+    });
+    return createElement(
+      context,
+      first.start == null ? 'ul' : 'ol',
+      children,
+      first.start != null && first.start !== 1 ? { start: first.start } : {},
+    );
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const atxHeading = atxHeadingRegExp.exec(line);
+    const fence = fenceRegExp.exec(line);
+    const listMarker = parseListMarker(line);
+    if (isBlank(line)) {
+      index++;
+    } else if (indentedCodeRegExp.test(line)) {
+      const codeLines: string[] = [];
+      while (
+        index < lines.length &&
+        (isBlank(lines[index]) || indentedCodeRegExp.test(lines[index]))
+      ) {
+        codeLines.push(lines[index].slice(4));
+        index++;
+      }
+      while (isBlank(codeLines[codeLines.length - 1])) codeLines.pop();
+      blocks.push(createCodeBlock(context, codeLines, ''));
+    } else if (fence != null) {
+      const [, indent, marker, info] = fence;
+      const closingRegExp = new RegExp(
+        `^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`,
+      );
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !closingRegExp.test(lines[index])) {
+        const codeLine = lines[index];
+        codeLines.push(
+          codeLine.slice(Math.min(indent.length, getIndent(codeLine))),
+        );
+        index++;
+      }
+      index++;
+      blocks.push(
+        createCodeBlock(
+          context,
+          codeLines,
+          unescapePunctuation(info.split(/\s+/)[0]),
+        ),
+      );
+    } else if (atxHeading != null) {
+      const [, hashes, content = ''] = atxHeading;
+      blocks.push(createTextBlock(context, `h${hashes.length}`, content));
+      index++;
+    } else if (thematicBreakRegExp.test(line)) {
+      blocks.push({ ...createElement(context, 'hr', []), children: [] });
+      index++;
+    } else if (blockquoteRegExp.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length) {
+        const quoteLine = lines[index];
+        const previous = quoteLines[quoteLines.length - 1];
+        if (blockquoteRegExp.test(quoteLine))
+          quoteLines.push(quoteLine.replace(blockquoteRegExp, ''));
+        // Lazy paragraph continuation.
+        else if (
+          previous != null &&
+          !isBlank(previous) &&
+          !isBlank(quoteLine) &&
+          !isBlockStart(quoteLine)
+        )
+          quoteLines.push(quoteLine);
+        else break;
+        index++;
+      }
+      blocks.push(
+        createElement(context, 'blockquote', parseBlocks(context, quoteLines)),
+      );
+    } else if (listMarker != null) {
+      blocks.push(parseList(listMarker));
+    } else {
+      const paragraphLines = [line];
+      let tag = 'p';
+      index++;
+      while (index < lines.length && !isBlank(lines[index])) {
+        const setextUnderline = setextUnderlineRegExp.exec(lines[index]);
+        if (setextUnderline != null) {
+          tag = setextUnderline[1][0] === '=' ? 'h1' : 'h2';
+          index++;
+          break;
+        }
+        if (isBlockStart(lines[index])) break;
+        paragraphLines.push(lines[index]);
+        index++;
+      }
+      blocks.push(
+        createTextBlock(
+          context,
+          tag,
+          paragraphLines.map(l => l.replace(/^[ \t]+/, '')).join('\n'),
+        ),
+      );
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Parse CommonMark Markdown to a normalized div element with block children.
+ * Tags and props are like those of jsx, so renderReactElement renders them.
+ * Bold, italic, and u and s tags become mark elements, hard breaks are BRs.
+ */
+export const markdownToElement = (
+  markdown: string,
+  createID: IO<ElementID> = id,
+): ReactElement => {
+  const context: ParseContext = { createID };
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(expandTabs);
+  const blocks = parseBlocks(context, lines);
+  return normalizeElement(
+    createElement(
+      context,
+      'div',
+      blocks.length > 0 ? blocks : [createElement(context, 'p', [])],
+    ),
+  ) as ReactElement;
+};
+
+const markDelimiters: { [mark in Mark]: [string, string] } = {
+  bold: ['**', '**'],
+  italic: ['*', '*'],
+  underline: ['<u>', '</u>'],
+  strikethrough: ['<s>', '</s>'],
+};
+
+const blockTags = [
+  'blockquote',
+  'div',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'ul',
+];
+
+const getTag = (element: Element): string | null => {
+  const { tag } = element as Partial<ReactElement>;
+  return typeof tag === 'string' ? tag : null;
+};
+
+const getProp = (element: Element, name: string): string | null => {
+  const { props } = element as Partial<ReactElement>;
+  const value =
+    props != null ? (props as { [name: string]: unknown })[name] : null;
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : null;
+};
+
+const isMarkElement = (element: Element): element is MarkElement =>
+  Array.isArray((element as Partial<MarkElement>).marks);
+
+const isBlockNode = (node: Node): boolean =>
+  !isText(node) &&
+  (blockTags.includes(getTag(node) || '') || node.children.some(isBlockNode));
+
+const escapeText = (text: string) => text.replace(/[\\`*_[\]<>]/g, '\\$&');
+
+// Lines which would start a block are escaped.
+const escapeLineStart = (line: string) =>
+  line
+    .replace(/^(\s*)([#>+=-])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/, '$1\\$2');
+
+const textContent = (nodes: Node[]): string =>
+  nodes
+    .map(node =>
+      isText(node)
+        ? textIsBR(node)
+          ? '\n'
+          : node
+        : textContent(node.children),
+    )
+    .join('');
+
+const longestBacktickRun = (text: string) =>
+  (text.match(/`+/g) || []).reduce((max, run) => Math.max(max, run.length), 0);
+
+const codeSpan = (text: string) => {
+  const fence = '`'.repeat(longestBacktickRun(text) + 1);
+  const padding = /^`|`$|^ .* $/.test(text) ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+const linkTail = (destination: string, title: string | null) => {
+  const escapedDestination = /[\s()<>]/.test(destination)
+    ? `<${destination.replace(/[\\<>]/g, '\\$&')}>`
+    : destination.replace(/\\/g, '\\\\');
+  const escapedTitle =
+    title != null ? ` "${title.replace(/[\\"]/g, '\\$&')}"` : '';
+  return `(${escapedDestination}${escapedTitle})`;
+};
+
+const serializeInlines = (
+  nodes: Node[],
+  fallback: MarkdownFallback,
+): string => {
+  let output = '';
+  let openMarks: Mark[] = [];
+
+  // Whitespace is moved outside, so delimiters are flanking.
+  const closeMarks = (count: number) => {
+    if (count === 0) return;
+    const [trailing] = /\s*$/.exec(output) as RegExpExecArray;
+    output = output.slice(0, output.length - trailing.length);
+    openMarks
+      .slice(openMarks.length - count)
+      .reverse()
+      .forEach(mark => {
+        output += markDelimiters[mark][1];
+      });
+    output += trailing;
+    openMarks = openMarks.slice(0, openMarks.length - count);
+  };
+
+  const appendText = (text: string, marks: Mark[]) => {
+    if (textIsBR(text)) {
+      output += '\\\n';
+      return;
+    }
+    let kept = 0;
+    while (kept < openMarks.length && marks.includes(openMarks[kept])) kept++;
+    closeMarks(openMarks.length - kept);
+    const [leading] = /^\s*/.exec(text) as RegExpExecArray;
+    output += leading;
+    marksOrder
+      .filter(mark => marks.includes(mark) && !openMarks.includes(mark))
+      .forEach(mark => {
+        output += markDelimiters[mark][0];
+        openMarks = [...openMarks, mark];
+      });
+    output += escapeText(text.slice(leading.length));
+  };
+
+  nodes.forEach(node => {
+    if (isText(node)) {
+      appendText(node, []);
+      return;
+    }
+    if (isMarkElement(node)) {
+      node.children.forEach(text => appendText(text, node.marks));
+      return;
+    }
+    closeMarks(openMarks.length);
+    switch (getTag(node)) {
+      case 'a':
+        output += `[${serializeInlines(node.children, fallback)}]${linkTail(
+          getProp(node, 'href') || '',
+          getProp(node, 'title'),
+        )}`;
+        break;
+      case 'img':
+        output += `![${(getProp(node, 'alt') || '').replace(
+          /[\\[\]]/g,
+          '\\$&',
+        )}]${linkTail(getProp(node, 'src') || '', getProp(node, 'title'))}`;
+        break;
+      case 'code':
+        output += codeSpan(textContent(node.children));
+        break;
+      default:
+        output += fallback(node, serializeInlines(node.children, fallback));
+    }
+  });
+  closeMarks(openMarks.length);
+  return output;
+};
+
+// Trailing BRs are not rendered, so they are dropped.
+const serializeParagraph = (nodes: Node[], fallback: MarkdownFallback) => {
+  let end = nodes.length;
+  while (end > 0 && nodes[end - 1] === '') end--;
+  return serializeInlines(nodes.slice(0, end), fallback)
+    .split('\n')
+    .map(escapeLineStart)
+    .join('\n');
+};
+
+const indentLines = (text: string, firstPrefix: string, prefix: string) =>
+  text
+    .split('\n')
+    .map((line, index) =>
+      index === 0 ? firstPrefix + line : line === '' ? line : prefix + line,
+    )
+    .join('\n');
+
+// Consecutive inline nodes are an implicit paragraph.
+const serializeBlocks = (
+  nodes: Node[],
+  fallback: MarkdownFallback,
+  separator = '\n\n',
+): string => {
+  const groups = nodes.reduce<Node[][]>((groups, node) => {
+    const last = groups[groups.length - 1];
+    if (last != null && !isBlockNode(node) && !isBlockNode(last[0]))
+      return [...groups.slice(0, -1), [...last, node]];
+    return [...groups, [node]];
+  }, []);
+  return groups
+    .map(group => {
+      const [first] = group;
+      if (isText(first) || !isBlockNode(first))
+        return serializeParagraph(group, fallback);
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return serializeBlock(first, fallback);
+    })
+    .filter(markdown => markdown.length > 0)
+    .join(separator);
+};
+
+const serializeList = (element: Element, fallback: MarkdownFallback) => {
+  const isOrdered = getTag(element) === 'ol';
+  const start = Number(getProp(element, 'start') || 1);
+  const items = element.children.filter(
+    (child): child is Element => !isText(child),
+  );
+  const isLoose = items.some(item =>
+    item.children.some(child => !isText(child) && getTag(child) === 'p'),
+  );
+  return items
+    .map((item, index) => {
+      const marker = isOrdered ? `${start + index}.` : '-';
+      return indentLines(
+        serializeBlocks(item.children, fallback, isLoose ? '\n\n' : '\n'),
+        `${marker} `,
+        ' '.repeat(marker.length + 1),
+      );
+    })
+    .join(isLoose ? '\n\n' : '\n');
+};
+
+const serializeBlock = (element: Element, fallback: MarkdownFallback) => {
+  const tag = getTag(element);
+  switch (tag) {
+    case 'div':
+    case 'li':
+      return serializeBlocks(element.children, fallback);
+    case 'p':
+      return serializeParagraph(element.children, fallback);
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      // Headings are one line.
+      const content = serializeInlines(element.children, fallback)
+        .replace(/\\\n/g, ' ')
+        .trim();
+      return `${'#'.repeat(Number(tag[1]))} ${content}`;
+    }
+    case 'blockquote':
+      return indentLines(
+        serializeBlocks(element.children, fallback),
+        '> ',
+        '> ',
+      ).replace(/^$/gm, '>');
+    case 'ul':
+    case 'ol':
+      return serializeList(element, fallback);
+    case 'pre': {
+      const code = element.children.find(
+        (child): child is Element => !isText(child) && getTag(child) === 'code',
+      );
+      const className = code != null ? getProp(code, 'className') || '' : '';
+      const language = /(?:^|\s)language-(\S+)/.exec(className);
+      const content = textContent(element.children).replace(/\n$/, '');
+      const fence = '`'.repeat(Math.max(3, longestBacktickRun(content) + 1));
+      return `${fence}${language != null ? language[1] : ''}\n${
+        content.length > 0 ? `${content}\n` : ''
+      }${fence}`;
+    }
+    case 'hr':
+      return '---';
+    default:
+      return fallback(
+        element,
+        element.children.some(isBlockNode)
+          ? serializeBlocks(element.children, fallback)
+          : serializeInlines(element.children, fallback),
+      );
+  }
+};
+
+/**
+ * Serialize Element to CommonMark Markdown. It's the reverse of
+ * markdownToElement. Unknown elements are serialized by the fallback,
+ * which returns their children by default.
+ */
+export const elementToMarkdown = (
+  element: Element,
+  fallback: MarkdownFallback = (_, children) => children,
+): string => {
+  const normalized = normalizeElement(element);
+  // Element without tag is like div.
+  if (getTag(normalized) == null && !isMarkElement(normalized))
+    return serializeBlocks(normalized.children, fallback);
+  return isBlockNode(normalized)
+    ? serializeBlock(normalized, fallback)
+    : serializeInlines([normalized], fallback);
+};
@@ -0,0 +1,109 @@
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Element, ElementID, Node, ReactElement } from '../types';
+import { elementToIDless } from './element';
+import {
+  allowChildren,
+  ensureChildren,
+  ensureTrailingChild,
+  normalizeElementWithRules,
+  normalizeValueWithRules,
+  unwrapEmptyInlines,
+} from './normalize';
+import { createValue } from './value';
+
+const id = createStableIDFactory();
+
+const el = (tag: string, children: Node[]): ReactElement =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+const isTag = (tag: string) => (node: Node) =>
+  typeof node !== 'string' && (node as ReactElement).tag === tag;
+
+// Created IDs are derived from the parent, so they are stable.
+const createParagraph = (parent: Element): ReactElement => ({
+  id: `${parent.id}-p` as ElementID,
+  tag: 'p',
+  props: {},
+  children: [''],
+});
+
+const rules = [
+  ensureChildren(isTag('p'), () => ''),
+  allowChildren(isTag('ul'), isTag('li')),
+  unwrapEmptyInlines(isTag('a')),
+  ensureTrailingChild(isTag('div'), isTag('p'), createParagraph),
+];
+
+const normalize = normalizeElementWithRules(rules);
+
+test('paragraph must have at least one child', () => {
+  expect(elementToIDless(normalize(el('div', [el('p', [])])))).toMatchObject({
+    children: [{ tag: 'p', children: [''] }],
+  });
+});
+
+test('list may only contain listitems', () => {
+  expect(
+    elementToIDless(
+      normalize(
+        el('div', [
+          el('ul', [el('li', ['a']), 'b', el('p', ['c'])]),
+          el('p', ['d']),
+        ]),
+      ),
+    ),
+  ).toMatchObject({
+    children: [{ tag: 'ul', children: [{ tag: 'li', children: ['a'] }] }, {}],
+  });
+});
+
+test('unwrap empty inline elements', () => {
+  expect(
+    elementToIDless(
+      normalize(el('div', [el('p', ['a', el('a', ['']), 'b', el('a', [])])])),
+    ),
+  ).toMatchObject({ children: [{ tag: 'p', children: ['ab'] }] });
+});
+
+test('ensure trailing paragraph', () => {
+  const element = el('div', [el('img', [])]);
+  expect(normalize(element).children).toEqual([
+    element.children[0],
+    createParagraph(element),
+  ]);
+});
+
+test('rules are applied until nothing changes', () => {
+  // Removing the empty link leaves the paragraph empty, which is repaired,
+  // and so is the empty list, which is not trailing.
+  expect(
+    elementToIDless(normalize(el('div', [el('p', [el('a', [])])]))),
+  ).toMatchObject({ children: [{ tag: 'p', children: [''] }] });
+  expect(
+    elementToIDless(normalize(el('div', [el('ul', ['a'])]))),
+  ).toMatchObject({
+    children: [
+      { tag: 'ul', children: [] },
+      { tag: 'p', children: [''] },
+    ],
+  });
+});
+
+test('identity is preserved when nothing changes', () => {
+  const element = el('div', [el('ul', [el('li', ['a'])]), el('p', ['b'])]);
+  expect(normalize(element)).toBe(element);
+  const value = createValue({ element });
+  expect(normalizeValueWithRules(rules)(value)).toBe(value);
+  // Unchanged children are preserved too.
+  const normalized = normalize({
+    ...element,
+    children: [...element.children, 'c', 'd'],
+  });
+  expect(normalized.children[0]).toBe(element.children[0]);
+});
+
+test('without rules, it is normalizeElement', () => {
+  expect(
+    normalizeElementWithRules([])(el('div', ['a', 'b'])).children,
+  ).toEqual(['ab']);
+});
@@ -0,0 +1,117 @@
+import { Endomorphism, Predicate } from 'fp-ts/lib/function';
+import { Element, Node, NormalizationRule, Value } from '../types';
+import { warn } from '../warn';
+import { normalizeElement } from './element';
+import { isText } from './text';
+
+// Conflicting rules would normalize forever.
+const maxPasses = 100;
+
+const isEmptyElement = (element: Element) =>
+  element.children.every(child => isText(child) && child.length === 0);
+
+/**
+ * The element matching the predicate must have at least one child.
+ * For example, "paragraph must have at least one child".
+ */
+export const ensureChildren = (
+  predicate: Predicate<Element>,
+  createChild: (element: Element) => Node,
+): NormalizationRule => element =>
+  element.children.length > 0 || !predicate(element)
+    ? element
+    : { ...element, children: [createChild(element)] };
+
+/**
+ * Children of the element matching the predicate not allowed are removed.
+ * For example, "list may only contain listitems".
+ */
+export const allowChildren = (
+  predicate: Predicate<Element>,
+  isAllowed: Predicate<Node>,
+): NormalizationRule => element => {
+  if (!predicate(element) || element.children.every(isAllowed)) return element;
+  return { ...element, children: element.children.filter(isAllowed) };
+};
+
+/**
+ * Inline child elements without text are unwrapped. Their BRs are removed,
+ * because an inline element is not a line.
+ */
+export const unwrapEmptyInlines = (
+  isInline: Predicate<Element>,
+): NormalizationRule => element => {
+  const isEmptyInline = (node: Node) =>
+    !isText(node) && isInline(node) && isEmptyElement(node);
+  if (!element.children.some(isEmptyInline)) return element;
+  return {
+    ...element,
+    children: element.children.filter(child => !isEmptyInline(child)),
+  };
+};
+
+/**
+ * The last child of the element matching the predicate must be trailing.
+ * For example, "ensure trailing paragraph" after an image.
+ */
+export const ensureTrailingChild = (
+  predicate: Predicate<Element>,
+  isTrailing: Predicate<Node>,
+  createChild: (element: Element) => Node,
+): NormalizationRule => element => {
+  if (!predicate(element)) return element;
+  const lastChild = element.children[element.children.length - 1];
+  if (lastChild != null && isTrailing(lastChild)) return element;
+  return { ...element, children: [...element.children, createChild(element)] };
+};
+
+// Children first, so rules see normalized children.
+const applyRules = (rules: NormalizationRule[]): Endomorphism<Element> => {
+  const apply: Endomorphism<Element> = element => {
+    let childrenHaveBeenNormalized = false;
+    const children = element.children.map(child => {
+      if (isText(child)) return child;
+      const normalizedChild = apply(child);
+      if (normalizedChild !== child) childrenHaveBeenNormalized = true;
+      return normalizedChild;
+    });
+    return rules.reduce(
+      (element, rule) => rule(element),
+      childrenHaveBeenNormalized ? { ...element, children } : element,
+    );
+  };
+  return apply;
+};
+
+/**
+ * Apply normalization rules and normalizeElement repeatedly until nothing
+ * changes. If nothing has been normalized, the same element is returned.
+ * Rules creating elements should derive IDs from the parent, so the server
+ * and the client normalize to the same tree.
+ */
+export const normalizeElementWithRules = (
+  rules: NormalizationRule[],
+): Endomorphism<Element> => element => {
+  let current = element;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const next = normalizeElement(applyRules(rules)(current));
+    if (next === current) return current;
+    current = next;
+  }
+  warn('Normalization rules do not converge. Check them.');
+  return current;
+};
+
+/**
+ * Like normalize, but with normalization rules.
+ */
+export const normalizeValueWithRules = (
+  rules: NormalizationRule[],
+): Endomorphism<Value> => {
+  const normalize = normalizeElementWithRules(rules);
+  return value => {
+    const element = normalize(value.element);
+    if (element === value.element) return value;
+    return { ...value, element };
+  };
+};
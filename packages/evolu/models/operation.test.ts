@@ -0,0 +1,237 @@
+import { isRight } from 'fp-ts/lib/Either';
+import { none, some } from 'fp-ts/lib/Option';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Operation, PathIndex, ReactElement, Value } from '../types';
+import { elementToIDless } from './element';
+import {
+  applyOperation,
+  applyOperations,
+  diffValue,
+  invertOperation,
+} from './operation';
+import { unsafeNonEmptyPath, unsafePath } from './path';
+import { unsafeSelection } from './selection';
+import { createValue, deleteContent, insertFragment, split } from './value';
+
+const id = createStableIDFactory();
+
+const path = unsafeNonEmptyPath;
+
+const index = (index: number) => index as PathIndex;
+
+const element: ReactElement = {
+  id: id(),
+  tag: 'div',
+  props: {},
+  children: [
+    { id: id(), tag: 'p', props: {}, children: ['ab'] },
+    { id: id(), tag: 'p', props: {}, children: ['cd'] },
+  ],
+};
+
+const value = createValue({
+  element,
+  selection: some(unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] })),
+});
+
+const apply = (operation: Operation) =>
+  elementToIDless(applyOperation(value, operation).element);
+
+test('applyOperation', () => {
+  expect(
+    apply({
+      type: 'insertText',
+      path: path([0, 0]),
+      offset: index(1),
+      text: 'x',
+    }),
+  ).toMatchObject({ children: [{ children: ['axb'] }, { children: ['cd'] }] });
+  expect(
+    apply({
+      type: 'removeText',
+      path: path([1, 0]),
+      offset: index(0),
+      text: 'c',
+    }),
+  ).toMatchObject({ children: [{ children: ['ab'] }, { children: ['d'] }] });
+  expect(
+    apply({ type: 'insertNode', path: path([0, 1]), node: 'x' }),
+  ).toMatchObject({
+    children: [{ children: ['ab', 'x'] }, { children: ['cd'] }],
+  });
+  expect(
+    apply({ type: 'removeNode', path: path([1]), node: value.element }),
+  ).toMatchObject({ children: [{ children: ['ab'] }] });
+  expect(
+    apply({
+      type: 'splitNode',
+      path: path([0, 0]),
+      position: index(1),
+      properties: {},
+    }),
+  ).toMatchObject({
+    children: [{ children: ['a', 'b'] }, { children: ['cd'] }],
+  });
+  expect(
+    apply({
+      type: 'mergeNode',
+      path: path([1]),
+      position: index(1),
+      properties: {},
+    }),
+  ).toMatchObject({ children: [{ children: ['ab', 'cd'] }] });
+  expect(
+    apply({ type: 'moveNode', path: path([1]), newPath: path([0]) }),
+  ).toMatchObject({ children: [{ children: ['cd'] }, { children: ['ab'] }] });
+  expect(
+    apply({
+      type: 'setProps',
+      path: unsafePath([1]),
+      properties: { tag: 'p' },
+      newProperties: { tag: 'h1' },
+    }),
+  ).toMatchObject({
+    children: [{ tag: 'p' }, { tag: 'h1', children: ['cd'] }],
+  });
+  expect(
+    applyOperation(value, {
+      type: 'setSelection',
+      selection: value.selection,
+      newSelection: none,
+    }).selection,
+  ).toEqual(none);
+  expect(
+    applyOperation(value, {
+      type: 'insertText',
+      path: path([5, 0]),
+      offset: index(0),
+      text: 'x',
+    }),
+  ).toBe(value);
+  // Text can not be merged into element and vice versa.
+  const mixed = createValue({
+    element: { ...element, children: [element.children[0], 'x'] },
+  });
+  const merge = (path: number[]): Operation => ({
+    type: 'mergeNode',
+    path: unsafeNonEmptyPath(path),
+    position: index(1),
+    properties: {},
+  });
+  expect(applyOperation(mixed, merge([1]))).toBe(mixed);
+  expect(
+    applyOperation(
+      {
+        ...mixed,
+        element: { ...element, children: ['x', element.children[0]] },
+      },
+      merge([1]),
+    ).element.children,
+  ).toEqual(['x', element.children[0]]);
+});
+
+test('invertOperation', () => {
+  const operations: Operation[] = [
+    { type: 'insertText', path: path([0, 0]), offset: index(1), text: 'x' },
+    { type: 'removeText', path: path([1, 0]), offset: index(0), text: 'c' },
+    { type: 'insertNode', path: path([1]), node: 'x' },
+    { type: 'removeNode', path: path([0]), node: value.element.children[0] },
+    {
+      type: 'splitNode',
+      path: path([1]),
+      position: index(1),
+      properties: { id: id() },
+    },
+    { type: 'moveNode', path: path([0]), newPath: path([1]) },
+    {
+      type: 'setProps',
+      path: unsafePath([0]),
+      properties: { tag: 'p', props: {} },
+      newProperties: { tag: 'div' },
+    },
+    { type: 'setSelection', selection: value.selection, newSelection: none },
+  ];
+  operations.forEach(operation => {
+    const applied = applyOperation(value, operation);
+    expect(applied).not.toBe(value);
+    expect(applyOperation(applied, invertOperation(operation))).toEqual(value);
+    expect(invertOperation(invertOperation(operation))).toEqual(operation);
+  });
+});
+
+test('Operation is serializable', () => {
+  const operation: Operation = {
+    type: 'insertNode',
+    path: path([0]),
+    node: value.element.children[0],
+  };
+  const decoded = Operation.decode(
+    JSON.parse(JSON.stringify(Operation.encode(operation))),
+  );
+  expect(isRight(decoded) && decoded.right).toEqual(operation);
+  expect(isRight(Operation.decode({ type: 'insertNode', path: [] }))).toBe(
+    false,
+  );
+});
+
+test('diffValue', () => {
+  const expectDiff = (next: Value) => {
+    const operations = diffValue(value, next);
+    expect(applyOperations(value, operations)).toEqual(next);
+    return operations;
+  };
+  expect(expectDiff(value)).toEqual([]);
+
+  expect(expectDiff(insertFragment(['x'])(value))).toEqual([
+    { type: 'insertText', path: [0, 0], offset: 1, text: 'x' },
+    {
+      type: 'setSelection',
+      selection: value.selection,
+      newSelection: some({ anchor: [0, 0, 2], focus: [0, 0, 2] }),
+    },
+  ]);
+
+  const splitOperations = expectDiff(
+    split({ path: path([0]), point: path([0, 0, 1]) })(value),
+  );
+  expect(splitOperations.map(operation => operation.type)).toEqual([
+    'removeText',
+    'insertNode',
+    'setSelection',
+  ]);
+
+  expectDiff(
+    deleteContent(unsafeSelection({ anchor: [0, 0, 1], focus: [1, 0, 1] }))(
+      value,
+    ),
+  );
+
+  expectDiff({
+    ...value,
+    element: { ...value.element, id: id(), children: [''] },
+  });
+
+  // Equal properties are compared structurally.
+  expect(
+    diffValue(value, {
+      ...value,
+      element: { ...element, props: {} } as ReactElement,
+    }),
+  ).toEqual([]);
+  expect(
+    expectDiff({
+      ...value,
+      element: {
+        ...element,
+        props: { style: { color: 'red' } },
+      } as ReactElement,
+    }),
+  ).toEqual([
+    {
+      type: 'setProps',
+      path: [],
+      properties: { props: {} },
+      newProperties: { props: { style: { color: 'red' } } },
+    },
+  ]);
+});
@@ -0,0 +1,393 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { Endomorphism } from 'fp-ts/lib/function';
+import { last, snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  chain,
+  fold,
+  getEq,
+  none,
+  Option,
+  option,
+  some,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import {
+  Element,
+  Node,
+  NonEmptyPath,
+  Operation,
+  Path,
+  PathIndex,
+  Value,
+} from '../types';
+import {
+  childrenLens,
+  eqJSON,
+  getElementTraversal,
+  getNode,
+  getTextTraversal,
+} from './element';
+import { initNonEmptyPath } from './path';
+import { eqSelection } from './selection';
+import { isText } from './text';
+
+type Properties = { [key: string]: unknown };
+
+const eqOptionSelection = getEq(eqSelection);
+
+const modifyChildren = (
+  path: Path,
+  f: Endomorphism<Node[]>,
+): Endomorphism<Element> =>
+  getElementTraversal(path)
+    .composeLens(childrenLens)
+    .modify(f);
+
+const spliceNodes = (
+  path: NonEmptyPath,
+  remove: number,
+  nodes: Node[],
+): Endomorphism<Element> => {
+  const index = last(path);
+  return modifyChildren(initNonEmptyPath(path), children => [
+    ...children.slice(0, index),
+    ...nodes,
+    ...children.slice(index + remove),
+  ]);
+};
+
+const setProperties = (
+  element: Element,
+  removed: Properties,
+  added: Properties,
+): Element => {
+  const rest: Properties = { ...element };
+  Object.keys(removed).forEach(key => {
+    delete rest[key];
+  });
+  return { ...rest, ...added, children: element.children } as Element;
+};
+
+/**
+ * Element fields except children, like ID, for splitNode and mergeNode.
+ */
+export const getPropertiesExceptChildren = (node: Node): Properties => {
+  if (isText(node)) return {};
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { children, ...properties } = node as Element & Properties;
+  return properties;
+};
+
+const applyToElement = (operation: Operation): Endomorphism<Element> => {
+  switch (operation.type) {
+    case 'insertText': {
+      const { offset, text } = operation;
+      return getTextTraversal(operation.path).modify(
+        node => node.slice(0, offset) + text + node.slice(offset),
+      );
+    }
+    case 'removeText': {
+      const { offset, text } = operation;
+      return getTextTraversal(operation.path).modify(
+        node => node.slice(0, offset) + node.slice(offset + text.length),
+      );
+    }
+    case 'insertNode':
+      return spliceNodes(operation.path, 0, [operation.node]);
+    case 'removeNode':
+      return spliceNodes(operation.path, 1, []);
+    case 'splitNode': {
+      const { path, position, properties } = operation;
+      return element =>
+        pipe(
+          getNode(element)(path),
+          fold(
+            () => element,
+            (node): Element => {
+              const nodes: Node[] = isText(node)
+                ? [node.slice(0, position), node.slice(position)]
+                : [
+                    { ...node, children: node.children.slice(0, position) },
+                    setProperties(
+                      { ...node, children: node.children.slice(position) },
+                      {},
+                      properties,
+                    ),
+                  ];
+              return spliceNodes(path, 1, nodes)(element);
+            },
+          ),
+        );
+    }
+    case 'mergeNode': {
+      const { path } = operation;
+      const previousPath = snoc(
+        initNonEmptyPath(path),
+        (last(path) - 1) as PathIndex,
+      );
+      // Text can be merged only into text, element only into element.
+      const merge = ([previous, node]: [Node, Node]): Option<Node> => {
+        if (isText(previous))
+          return isText(node) ? some(previous + node) : none;
+        if (isText(node)) return none;
+        return some({
+          ...previous,
+          children: [...previous.children, ...node.children],
+        });
+      };
+      return element =>
+        pipe(
+          sequenceT(option)(
+            getNode(element)(previousPath),
+            getNode(element)(path),
+          ),
+          chain(merge),
+          fold(
+            () => element,
+            merged => spliceNodes(previousPath, 2, [merged])(element),
+          ),
+        );
+    }
+    case 'moveNode': {
+      const { path, newPath } = operation;
+      return element =>
+        pipe(
+          getNode(element)(path),
+          fold(
+            () => element,
+            node =>
+              pipe(
+                element,
+                spliceNodes(path, 1, []),
+                spliceNodes(newPath, 0, [node]),
+              ),
+          ),
+        );
+    }
+    case 'setProps': {
+      const { path, properties, newProperties } = operation;
+      return getElementTraversal(path).modify(element =>
+        setProperties(element, properties, newProperties),
+      );
+    }
+    default:
+      return element => element;
+  }
+};
+
+/**
+ * Apply the operation to Value. Invalid operations do nothing, for example
+ * with paths which do not exist, or merging text into element.
+ */
+export const applyOperation = (value: Value, operation: Operation): Value => {
+  if (operation.type === 'setSelection')
+    return { ...value, selection: operation.newSelection };
+  const element = applyToElement(operation)(value.element);
+  if (element === value.element) return value;
+  return { ...value, element };
+};
+
+/**
+ * Apply operations in order.
+ */
+export const applyOperations = (value: Value, operations: Operation[]): Value =>
+  operations.reduce(applyOperation, value);
+
+/**
+ * The operation undoing the operation.
+ */
+export const invertOperation = (operation: Operation): Operation => {
+  switch (operation.type) {
+    case 'insertText':
+      return { ...operation, type: 'removeText' };
+    case 'removeText':
+      return { ...operation, type: 'insertText' };
+    case 'insertNode':
+      return { ...operation, type: 'removeNode' };
+    case 'removeNode':
+      return { ...operation, type: 'insertNode' };
+    case 'splitNode':
+      return {
+        ...operation,
+        type: 'mergeNode',
+        path: snoc(
+          initNonEmptyPath(operation.path),
+          (last(operation.path) + 1) as PathIndex,
+        ),
+      };
+    case 'mergeNode':
+      return {
+        ...operation,
+        type: 'splitNode',
+        path: snoc(
+          initNonEmptyPath(operation.path),
+          (last(operation.path) - 1) as PathIndex,
+        ),
+      };
+    case 'moveNode':
+      return { ...operation, path: operation.newPath, newPath: operation.path };
+    case 'setProps':
+      return {
+        ...operation,
+        properties: operation.newProperties,
+        newProperties: operation.properties,
+      };
+    case 'setSelection':
+      return {
+        ...operation,
+        selection: operation.newSelection,
+        newSelection: operation.selection,
+      };
+    default:
+      return operation;
+  }
+};
+
+const diffText = (path: NonEmptyPath, prev: string, next: string) => {
+  if (prev === next) return [];
+  let start = 0;
+  while (start < prev.length && prev[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < prev.length - start &&
+    end < next.length - start &&
+    prev[prev.length - 1 - end] === next[next.length - 1 - end]
+  )
+    end++;
+  const offset = start as PathIndex;
+  const removed = prev.slice(start, prev.length - end);
+  const inserted = next.slice(start, next.length - end);
+  const operations: Operation[] = [];
+  if (removed.length > 0)
+    operations.push({ type: 'removeText', path, offset, text: removed });
+  if (inserted.length > 0)
+    operations.push({ type: 'insertText', path, offset, text: inserted });
+  return operations;
+};
+
+const diffProperties = (path: Path, prev: Element, next: Element) => {
+  const prevProperties = getPropertiesExceptChildren(prev);
+  const nextProperties = getPropertiesExceptChildren(next);
+  const properties: Properties = {};
+  const newProperties: Properties = {};
+  Object.keys(prevProperties).forEach(key => {
+    if (eqJSON.equals(prevProperties[key], nextProperties[key])) return;
+    properties[key] = prevProperties[key];
+    if (key in nextProperties) newProperties[key] = nextProperties[key];
+  });
+  Object.keys(nextProperties).forEach(key => {
+    if (!(key in prevProperties)) newProperties[key] = nextProperties[key];
+  });
+  const operation: Operation = {
+    type: 'setProps',
+    path,
+    properties,
+    newProperties,
+  };
+  return Object.keys(properties).length > 0 ||
+    Object.keys(newProperties).length > 0
+    ? [operation]
+    : [];
+};
+
+// Elements are matched by ID, texts are matched with texts.
+const isSameNode = (prev: Node, next: Node) =>
+  isText(prev) ? isText(next) : !isText(next) && prev.id === next.id;
+
+const diffElement = (path: Path, prev: Element, next: Element): Operation[] => {
+  if (prev === next) return [];
+  const diffNode = (index: number, prev: Node, next: Node) => {
+    const childPath = snoc(path, index as PathIndex);
+    if (isText(prev) || isText(next))
+      return isText(prev) && isText(next)
+        ? diffText(childPath, prev, next)
+        : [];
+    return diffElement(childPath, prev, next);
+  };
+  const { children: prevChildren } = prev;
+  const { children: nextChildren } = next;
+  const maxLength = Math.min(prevChildren.length, nextChildren.length);
+  let start = 0;
+  while (
+    start < maxLength &&
+    isSameNode(prevChildren[start], nextChildren[start])
+  )
+    start++;
+  let end = 0;
+  while (
+    end < maxLength - start &&
+    isSameNode(
+      prevChildren[prevChildren.length - 1 - end],
+      nextChildren[nextChildren.length - 1 - end],
+    )
+  )
+    end++;
+  const removed = prevChildren.slice(start, prevChildren.length - end);
+  const inserted = nextChildren.slice(start, nextChildren.length - end);
+  return [
+    ...diffProperties(path, prev, next),
+    ...prevChildren
+      .slice(0, start)
+      .reduce<Operation[]>(
+        (operations, child, index) => [
+          ...operations,
+          ...diffNode(index, child, nextChildren[index]),
+        ],
+        [],
+      ),
+    // Removed from the last, so paths are not shifted.
+    ...removed
+      .map(
+        (node, index): Operation => ({
+          type: 'removeNode',
+          path: snoc(path, (start + index) as PathIndex),
+          node,
+        }),
+      )
+      .reverse(),
+    ...inserted.map(
+      (node, index): Operation => ({
+        type: 'insertNode',
+        path: snoc(path, (start + index) as PathIndex),
+        node,
+      }),
+    ),
+    ...nextChildren
+      .slice(nextChildren.length - end)
+      .reduce<Operation[]>((operations, child, index) => {
+        const nextIndex = nextChildren.length - end + index;
+        const prevIndex = prevChildren.length - end + index;
+        return [
+          ...operations,
+          ...diffNode(nextIndex, prevChildren[prevIndex], child),
+        ];
+      }, []),
+  ];
+};
+
+/**
+ * Operations transforming the previous value into the next value. Elements are
+ * matched by ID, so changed texts are described by text operations, and
+ * replaced elements by node operations. Focus is not an edit, so it's ignored.
+ */
+export const diffValue = (prev: Value, next: Value): Operation[] => {
+  const operations = diffElement([], prev.element, next.element);
+  if (eqOptionSelection.equals(prev.selection, next.selection))
+    return operations;
+  return [
+    ...operations,
+    {
+      type: 'setSelection',
+      selection: prev.selection,
+      newSelection: next.selection,
+    },
+  ];
+};
+
+/**
+ * Operations of the edit found via diffValue, for edits which do not describe
+ * their operations.
+ */
+export const getEditOperations = (edit: Endomorphism<Value>) => (
+  value: Value,
+): Operation[] => diffValue(value, edit(value));
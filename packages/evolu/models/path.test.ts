@@ -1,7 +1,27 @@
-import { byContains, byDirection, eqPath, unsafePath } from './path';
+import { chain, fold, map, none, some } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import {
+  byContains,
+  byDirection,
+  byTreeOrder,
+  compareTreePosition,
+  eqPath,
+  toNonEmptyPath,
+  transformPath,
+  unsafeNonEmptyPath,
+  unsafePath,
+} from './path';
+import { Element, NonEmptyPath, Operation, PathIndex } from '../types';
+import { getDescendantPaths, getNode } from './element';
+import { applyOperation } from './operation';
+import { createValue } from './value';
 
 const p = unsafePath;
 
+const n = unsafeNonEmptyPath;
+
+const index = (index: number) => index as PathIndex;
+
 test('eqPath', () => {
   expect(eqPath.equals(p([1]), p([1]))).toBe(true);
   expect(eqPath.equals(p([0]), p([1]))).toBe(false);
@@ -21,6 +41,15 @@ test('byDirection', () => {
   expect(byDirection.compare(p([1, 0]), p([1]))).toBe(1);
 });
 
+test('byTreeOrder', () => {
+  expect(byTreeOrder.compare(p([0]), p([0]))).toBe(0);
+  expect(byTreeOrder.compare(p([0]), p([1]))).toBe(-1);
+  expect(byTreeOrder.compare(p([0]), p([0, 2]))).toBe(-1);
+  expect(byTreeOrder.compare(p([0, 2]), p([0]))).toBe(1);
+  expect(byTreeOrder.compare(p([0, 2]), p([1]))).toBe(-1);
+  expect(byTreeOrder.compare(p([0, 0, 2]), p([0, 2, 0]))).toBe(-1);
+});
+
 test('byContains', () => {
   expect(byContains.compare(p([0]), p([0]))).toBe(0);
   expect(byContains.compare(p([0]), p([0, 0]))).toBe(1);
@@ -29,3 +58,196 @@ test('byContains', () => {
   expect(byContains.compare(p([0]), p([1]))).toBe(-1);
   expect(byContains.compare(p([1]), p([0]))).toBe(-1);
 });
+
+test('compareTreePosition', () => {
+  expect(compareTreePosition(p([1]))(p([1]))).toBe('same');
+  expect(compareTreePosition(p([1, 2]))(p([1]))).toBe('ancestor');
+  expect(compareTreePosition(p([1]))(p([1, 2]))).toBe('descendant');
+  expect(compareTreePosition(p([1, 2]))(p([0, 3]))).toBe('preceding');
+  expect(compareTreePosition(p([1, 2]))(p([1, 3, 0]))).toBe('following');
+  expect(compareTreePosition(p([1, 2]))(p([2]))).toBe('following');
+});
+
+const transformWith = (operation: Operation) => (path: number[]) =>
+  transformPath(p(path), operation);
+
+test('transformPath insertText', () => {
+  const transform = transformWith({
+    type: 'insertText',
+    path: n([0, 1]),
+    offset: index(2),
+    text: 'abc',
+  });
+  expect(transform([0, 1, 1])).toEqual(some([0, 1, 1]));
+  expect(transform([0, 1, 2])).toEqual(some([0, 1, 5]));
+  expect(transform([0, 1, 3])).toEqual(some([0, 1, 6]));
+  expect(transform([0, 2, 3])).toEqual(some([0, 2, 3]));
+  expect(transform([0, 1])).toEqual(some([0, 1]));
+  expect(transform([0])).toEqual(some([0]));
+});
+
+test('transformPath removeText', () => {
+  const transform = transformWith({
+    type: 'removeText',
+    path: n([0, 1]),
+    offset: index(2),
+    text: 'abc',
+  });
+  expect(transform([0, 1, 1])).toEqual(some([0, 1, 1]));
+  expect(transform([0, 1, 2])).toEqual(some([0, 1, 2]));
+  expect(transform([0, 1, 4])).toEqual(some([0, 1, 2]));
+  expect(transform([0, 1, 5])).toEqual(some([0, 1, 2]));
+  expect(transform([0, 1, 7])).toEqual(some([0, 1, 4]));
+  expect(transform([0, 0, 7])).toEqual(some([0, 0, 7]));
+});
+
+test('transformPath insertNode', () => {
+  const transform = transformWith({
+    type: 'insertNode',
+    path: n([1, 1]),
+    node: 'a',
+  });
+  expect(transform([1, 0, 3])).toEqual(some([1, 0, 3]));
+  expect(transform([1, 1])).toEqual(some([1, 2]));
+  expect(transform([1, 1, 3])).toEqual(some([1, 2, 3]));
+  expect(transform([1, 2, 0, 0])).toEqual(some([1, 3, 0, 0]));
+  expect(transform([1])).toEqual(some([1]));
+  expect(transform([0, 5])).toEqual(some([0, 5]));
+  expect(transform([2, 1])).toEqual(some([2, 1]));
+  expect(transform([])).toEqual(some([]));
+});
+
+test('transformPath removeNode', () => {
+  const transform = transformWith({
+    type: 'removeNode',
+    path: n([1, 1]),
+    node: 'a',
+  });
+  expect(transform([1, 0, 3])).toEqual(some([1, 0, 3]));
+  expect(transform([1, 1])).toEqual(none);
+  expect(transform([1, 1, 3])).toEqual(none);
+  expect(transform([1, 2])).toEqual(some([1, 1]));
+  expect(transform([1, 2, 0, 0])).toEqual(some([1, 1, 0, 0]));
+  expect(transform([1])).toEqual(some([1]));
+  expect(transform([2, 2])).toEqual(some([2, 2]));
+});
+
+test('transformPath splitNode', () => {
+  const transform = transformWith({
+    type: 'splitNode',
+    path: n([1, 1]),
+    position: index(2),
+    properties: {},
+  });
+  expect(transform([1, 0, 3])).toEqual(some([1, 0, 3]));
+  expect(transform([1, 1])).toEqual(some([1, 1]));
+  expect(transform([1, 1, 1])).toEqual(some([1, 1, 1]));
+  expect(transform([1, 1, 2])).toEqual(some([1, 2, 0]));
+  expect(transform([1, 1, 3, 4])).toEqual(some([1, 2, 1, 4]));
+  expect(transform([1, 2])).toEqual(some([1, 3]));
+  expect(transform([1, 2, 5])).toEqual(some([1, 3, 5]));
+  expect(transform([1])).toEqual(some([1]));
+  expect(transform([0, 3])).toEqual(some([0, 3]));
+});
+
+test('transformPath mergeNode', () => {
+  const transform = transformWith({
+    type: 'mergeNode',
+    path: n([1, 1]),
+    position: index(2),
+    properties: {},
+  });
+  expect(transform([1, 0, 1])).toEqual(some([1, 0, 1]));
+  expect(transform([1, 1])).toEqual(some([1, 0]));
+  expect(transform([1, 1, 0])).toEqual(some([1, 0, 2]));
+  expect(transform([1, 1, 1, 4])).toEqual(some([1, 0, 3, 4]));
+  expect(transform([1, 2])).toEqual(some([1, 1]));
+  expect(transform([1, 3, 5])).toEqual(some([1, 2, 5]));
+  expect(transform([1])).toEqual(some([1]));
+  expect(transform([2, 2])).toEqual(some([2, 2]));
+});
+
+test('transformPath moveNode', () => {
+  const transform = transformWith({
+    type: 'moveNode',
+    path: n([0, 1]),
+    newPath: n([2, 0]),
+  });
+  expect(transform([0, 1])).toEqual(some([2, 0]));
+  expect(transform([0, 1, 3])).toEqual(some([2, 0, 3]));
+  expect(transform([0, 0])).toEqual(some([0, 0]));
+  expect(transform([0, 2, 1])).toEqual(some([0, 1, 1]));
+  expect(transform([2, 0])).toEqual(some([2, 1]));
+  expect(transform([2, 0, 4])).toEqual(some([2, 1, 4]));
+  expect(transform([1])).toEqual(some([1]));
+
+  const transformBackward = transformWith({
+    type: 'moveNode',
+    path: n([3]),
+    newPath: n([0]),
+  });
+  expect(transformBackward([0])).toEqual(some([1]));
+  expect(transformBackward([2, 1])).toEqual(some([3, 1]));
+  expect(transformBackward([3])).toEqual(some([0]));
+  expect(transformBackward([4])).toEqual(some([4]));
+});
+
+test('transformPath ignores setProps and setSelection', () => {
+  expect(
+    transformWith({
+      type: 'setProps',
+      path: p([0]),
+      properties: {},
+      newProperties: { tag: 'p' },
+    })([0, 1]),
+  ).toEqual(some([0, 1]));
+  expect(
+    transformWith({
+      type: 'setSelection',
+      selection: none,
+      newSelection: none,
+    })([0, 1]),
+  ).toEqual(some([0, 1]));
+});
+
+test('transformPath follows nodes moved by applyOperation', () => {
+  const element: Element = {
+    id: 'root0000' as Element['id'],
+    children: [
+      { id: 'a0000000' as Element['id'], children: ['a', 'b'] },
+      { id: 'b0000000' as Element['id'], children: ['c'] },
+      { id: 'c0000000' as Element['id'], children: ['d', 'e', 'f'] },
+    ],
+  };
+  const value = createValue({ element });
+  const paths = getDescendantPaths(element)([]);
+  const operations: Operation[] = [
+    { type: 'insertNode', path: n([1]), node: 'x' },
+    { type: 'insertNode', path: n([2, 3]), node: 'x' },
+    { type: 'removeNode', path: n([0]), node: element.children[0] },
+    { type: 'moveNode', path: n([0]), newPath: n([1, 1]) },
+    { type: 'moveNode', path: n([2, 2]), newPath: n([0]) },
+  ];
+  // Ancestors of changed nodes have changed children, so only IDs are compared.
+  const getNodeKey = (element: Element) => (path: NonEmptyPath) =>
+    pipe(
+      getNode(element)(path),
+      map(node => (typeof node === 'string' ? node : node.id)),
+    );
+  operations.forEach(operation => {
+    const next = applyOperation(value, operation).element;
+    paths.forEach(path =>
+      pipe(
+        transformPath(path, operation),
+        chain(toNonEmptyPath),
+        fold(
+          () => expect(operation.type).toBe('removeNode'),
+          nextPath =>
+            expect(getNodeKey(next)(nextPath)).toEqual(
+              getNodeKey(element)(path),
+            ),
+        ),
+      ),
+    );
+  });
+});
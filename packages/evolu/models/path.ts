@@ -8,9 +8,11 @@ import { pipe } from 'fp-ts/lib/pipeable';
 import {
   NonEmptyPath,
   NonEmptyPathWithOffset,
+  Operation,
   Path,
   PathDelta,
   PathIndex,
+  TreePosition,
 } from '../types';
 
 /**
@@ -48,6 +50,17 @@ export const unsafePath = (output: number[]): Path =>
     }, identity),
   );
 
+/**
+ * Helper for tests. With FP, we never throw. But tests are different, they throw.
+ */
+export const unsafeNonEmptyPath = (output: number[]): NonEmptyPath =>
+  pipe(
+    toNonEmptyPath(output),
+    fold(() => {
+      throw new Error('invalid non empty path');
+    }, identity),
+  );
+
 export const isNonEmptyPathWithOffset: Refinement<
   Path,
   NonEmptyPathWithOffset
@@ -68,6 +81,16 @@ export const byDirection: Ord<Path> = fromCompare((x, y) =>
     : -1,
 );
 
+/**
+ * Tree order. Unlike byDirection, an ancestor precedes its descendants.
+ */
+export const byTreeOrder: Ord<Path> = fromCompare((x, y) => {
+  const index = x.findIndex((value, index) => value !== y[index]);
+  if (index === -1 || index === y.length)
+    return x.length === y.length ? 0 : x.length < y.length ? -1 : 1;
+  return x[index] < y[index] ? -1 : 1;
+});
+
 /**
  * Contains (1) or not (-1) or equal (0). Use lt, gt, geq etc. fp-ts helpers.
  */
@@ -79,6 +102,19 @@ export const byContains: Ord<Path> = fromCompare((x, y) =>
     : -1,
 );
 
+/**
+ * The position of the other path relative to the path. Like DOM
+ * compareDocumentPosition, but for paths.
+ */
+export const compareTreePosition = (path: Path) => (
+  other: Path,
+): TreePosition => {
+  if (eqPath.equals(path, other)) return 'same';
+  if (byContains.compare(other, path) === 1) return 'ancestor';
+  if (byContains.compare(path, other) === 1) return 'descendant';
+  return byTreeOrder.compare(other, path) < 0 ? 'preceding' : 'following';
+};
+
 export const initNonEmptyPath = (path: NonEmptyPath): Path => path.slice(0, -1);
 
 export const initNonEmptyPathWithOffset = (
@@ -97,3 +133,122 @@ export const movePath = (delta: PathDelta) => (
     toPathIndex(last(path) + delta),
     map(index => snoc(initNonEmptyPath(path), index)),
   );
+
+const hasPrefix = (prefix: Path) => (path: Path) =>
+  path.length >= prefix.length &&
+  eqPath.equals(prefix, takeLeft(prefix.length)(path));
+
+const replaceIndex = (depth: number, index: number) => (path: Path): Path =>
+  [...path.slice(0, depth), index, ...path.slice(depth + 1)] as Path;
+
+// Paths of the next siblings and their descendants are shifted.
+const insertNodeAt = (at: NonEmptyPath) => (path: Path): Path => {
+  const depth = at.length - 1;
+  return hasPrefix(initNonEmptyPath(at))(path) &&
+    path.length > depth &&
+    path[depth] >= at[depth]
+    ? replaceIndex(depth, path[depth] + 1)(path)
+    : path;
+};
+
+const removeNodeAt = (at: NonEmptyPath) => (path: Path): Option<Path> => {
+  if (hasPrefix(at)(path)) return none;
+  const depth = at.length - 1;
+  return some(
+    hasPrefix(initNonEmptyPath(at))(path) &&
+      path.length > depth &&
+      path[depth] > at[depth]
+      ? replaceIndex(depth, path[depth] - 1)(path)
+      : path,
+  );
+};
+
+/**
+ * Transform the path, so it points to the same place after the operation.
+ * Points at the place of inserted text are moved after it. None means
+ * the path was removed.
+ */
+export const transformPath = (
+  path: Path,
+  operation: Operation,
+): Option<Path> => {
+  switch (operation.type) {
+    case 'insertText':
+    case 'removeText': {
+      const { offset, text } = operation;
+      const isInText =
+        path.length === operation.path.length + 1 &&
+        hasPrefix(operation.path)(path);
+      if (!isInText) return some(path);
+      const pointOffset = path[path.length - 1];
+      const nextOffset =
+        operation.type === 'insertText'
+          ? pointOffset >= offset
+            ? pointOffset + text.length
+            : pointOffset
+          : pointOffset > offset
+          ? Math.max(offset, pointOffset - text.length)
+          : pointOffset;
+      return some(replaceIndex(path.length - 1, nextOffset)(path));
+    }
+    case 'insertNode':
+      return some(insertNodeAt(operation.path)(path));
+    case 'removeNode':
+      return removeNodeAt(operation.path)(path);
+    case 'splitNode': {
+      const { position } = operation;
+      const depth = operation.path.length - 1;
+      const index = operation.path[depth];
+      if (!hasPrefix(initNonEmptyPath(operation.path))(path)) return some(path);
+      if (path[depth] > index)
+        return some(replaceIndex(depth, path[depth] + 1)(path));
+      // Children and chars after the position are moved to the next node.
+      if (
+        path[depth] === index &&
+        path.length > depth + 1 &&
+        path[depth + 1] >= position
+      )
+        return some([
+          ...path.slice(0, depth),
+          index + 1,
+          path[depth + 1] - position,
+          ...path.slice(depth + 2),
+        ] as Path);
+      return some(path);
+    }
+    case 'mergeNode': {
+      const { position } = operation;
+      const depth = operation.path.length - 1;
+      const index = operation.path[depth];
+      if (hasPrefix(operation.path)(path))
+        return some(
+          path.length === depth + 1
+            ? replaceIndex(depth, index - 1)(path)
+            : ([
+                ...path.slice(0, depth),
+                index - 1,
+                path[depth + 1] + position,
+                ...path.slice(depth + 2),
+              ] as Path),
+        );
+      return some(
+        hasPrefix(initNonEmptyPath(operation.path))(path) &&
+          path.length > depth &&
+          path[depth] > index
+          ? replaceIndex(depth, path[depth] - 1)(path)
+          : path,
+      );
+    }
+    case 'moveNode': {
+      const { newPath } = operation;
+      if (hasPrefix(operation.path)(path))
+        return some([...newPath, ...path.slice(operation.path.length)] as Path);
+      return pipe(
+        removeNodeAt(operation.path)(path),
+        map(insertNodeAt(newPath)),
+      );
+    }
+    default:
+      return some(path);
+  }
+};
@@ -0,0 +1,109 @@
+import { chain, none, some } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { MarkElement, Node, ReactElement } from '../types';
+import { getTextOffset } from './element';
+import { unsafeNonEmptyPath } from './path';
+import {
+  elementToPlainText,
+  plainTextOffsetToPoint,
+  pointToPlainTextOffset,
+} from './plainText';
+
+const id = createStableIDFactory();
+
+const el = (tag: string, children: Node[]): ReactElement =>
+  ({ id: id(), tag, props: {}, children } as ReactElement);
+
+const bold = (text: string): MarkElement => ({
+  id: id(),
+  marks: ['bold'],
+  children: [text],
+});
+
+const document = () =>
+  el('div', [
+    el('h1', ['ab']),
+    el('p', ['c', bold('d'), el('a', ['e'])]),
+    el('p', ['']),
+    el('ul', [el('li', ['f', '', 'g']), el('li', ['h', '', ''])]),
+  ]);
+
+test('elementToPlainText', () => {
+  const element = document();
+  expect(elementToPlainText(element)).toBe('ab\ncde\n\nf\ng\nh\n');
+  expect(elementToPlainText(element, { blockSeparator: '\n\n' })).toBe(
+    'ab\n\ncde\n\n\n\nf\ng\n\nh\n',
+  );
+  expect(elementToPlainText(el('div', ['a']))).toBe('a');
+  // Mixed content.
+  expect(elementToPlainText(el('div', ['a', el('p', ['b']), 'c']))).toBe(
+    'a\nb\nc',
+  );
+});
+
+test('configurable inline elements', () => {
+  const element = el('div', [el('span', ['a']), el('span', ['b'])]);
+  expect(elementToPlainText(element)).toBe('ab');
+  expect(elementToPlainText(element, { isInline: () => false })).toBe('a\nb');
+});
+
+test('plainTextOffsetToPoint', () => {
+  const toPoint = plainTextOffsetToPoint(document());
+  expect(toPoint(0)).toEqual(some([0, 0, 0]));
+  // End of block.
+  expect(toPoint(2)).toEqual(some([0, 0, 2]));
+  expect(toPoint(3)).toEqual(some([1, 0, 0]));
+  // Between texts is the start of the next one.
+  expect(toPoint(4)).toEqual(some([1, 1, 0, 0]));
+  expect(toPoint(5)).toEqual(some([1, 2, 0, 0]));
+  // Empty paragraph BR.
+  expect(toPoint(7)).toEqual(some([2, 0]));
+  // Text before BR.
+  expect(toPoint(9)).toEqual(some([3, 0, 0, 1]));
+  expect(toPoint(10)).toEqual(some([3, 0, 2, 0]));
+  // The last BR after BR.
+  expect(toPoint(14)).toEqual(some([3, 1, 2]));
+  expect(toPoint(15)).toEqual(none);
+  expect(toPoint(-1)).toEqual(none);
+  // In a separator, it's the start of the next block.
+  expect(
+    plainTextOffsetToPoint(el('div', [el('p', ['a']), el('p', ['b'])]), {
+      blockSeparator: '\n\n',
+    })(2),
+  ).toEqual(some([1, 0, 0]));
+});
+
+test('pointToPlainTextOffset is the reverse', () => {
+  const element = document();
+  const text = elementToPlainText(element);
+  const toPoint = plainTextOffsetToPoint(element);
+  const toOffset = pointToPlainTextOffset(element);
+  for (let offset = 0; offset <= text.length; offset++) {
+    expect(pipe(toPoint(offset), chain(toOffset))).toEqual(some(offset));
+  }
+  expect(toOffset(unsafeNonEmptyPath([1, 2]))).toEqual(none);
+  expect(toOffset(unsafeNonEmptyPath([5, 0, 0]))).toEqual(none);
+});
+
+test('the same as getTextOffset without separators', () => {
+  const element = el('div', [el('p', ['ab', bold('c')]), el('p', ['de'])]);
+  const point = unsafeNonEmptyPath([1, 0, 1]);
+  expect(
+    pointToPlainTextOffset(element, { blockSeparator: '' })(point),
+  ).toEqual(some(getTextOffset(element)(point)));
+});
+
+// Mapping is a binary search in the projection cached per element.
+test('large documents', () => {
+  const element = el(
+    'div',
+    Array.from({ length: 20000 }, (_, i) => el('p', [`paragraph ${i}`])),
+  );
+  const text = elementToPlainText(element);
+  const toPoint = plainTextOffsetToPoint(element);
+  const toOffset = pointToPlainTextOffset(element);
+  expect(toPoint(text.length)).toEqual(some([19999, 0, 15]));
+  for (let offset = 0; offset < text.length; offset += 97)
+    expect(pipe(toPoint(offset), chain(toOffset))).toEqual(some(offset));
+});
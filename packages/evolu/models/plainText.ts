@@ -0,0 +1,169 @@
+import { none, Option, some } from 'fp-ts/lib/Option';
+import { Element, NonEmptyPath, PlainTextOptions } from '../types';
+import { isInlineElement } from './element';
+import { isText, textIsBR } from './text';
+
+// Text segments have the path of the text, and their offsets are mapped
+// to text offsets. Point segments are BRs, and they have one point.
+interface Segment {
+  readonly path: NonEmptyPath;
+  readonly isText: boolean;
+  readonly start: number;
+  readonly end: number;
+}
+
+interface Projection {
+  readonly text: string;
+  readonly segments: Segment[];
+  readonly segmentsByPath: Map<string, Segment>;
+}
+
+// Projections are cached, because mapping functions are called often.
+const projectionsCache = new WeakMap<
+  Element,
+  { options: PlainTextOptions; projection: Projection }
+>();
+
+const project = (element: Element, options: PlainTextOptions): Projection => {
+  const cached = projectionsCache.get(element);
+  if (
+    cached != null &&
+    cached.options.blockSeparator === options.blockSeparator &&
+    cached.options.isInline === options.isInline
+  )
+    return cached.projection;
+
+  const { blockSeparator = '\n', isInline = isInlineElement } = options;
+  const parts: string[] = [];
+  const segments: Segment[] = [];
+  let length = 0;
+  let hasLine = false;
+  let isLineBroken = false;
+
+  const append = (text: string) => {
+    parts.push(text);
+    length += text.length;
+  };
+
+  // Blocks separate lines lazily, so there are no leading, trailing,
+  // or doubled separators.
+  const startLine = () => {
+    if (hasLine && isLineBroken) append(blockSeparator);
+    hasLine = true;
+    isLineBroken = false;
+  };
+
+  const pushSegment = (path: number[], isText: boolean, text: string) => {
+    segments.push({
+      path: path as NonEmptyPath,
+      isText,
+      start: length,
+      end: isText ? length + text.length : length,
+    });
+    append(text);
+  };
+
+  const visit = (element: Element, path: number[], isBlock: boolean) => {
+    const hasBlockChildren =
+      isBlock &&
+      element.children.some(child => !isText(child) && !isInline(child));
+    if (isBlock) isLineBroken = true;
+    // Empty leaf blocks are lines too.
+    if (isBlock && !hasBlockChildren) startLine();
+    const lastIndex = element.children.length - 1;
+    element.children.forEach((child, index) => {
+      const childPath = [...path, index];
+      if (!isText(child)) {
+        const isChildBlock = !isInline(child);
+        visit(child, childPath, isChildBlock);
+        if (isChildBlock) isLineBroken = true;
+        return;
+      }
+      startLine();
+      // The last BR is not rendered as a new line.
+      if (textIsBR(child))
+        pushSegment(childPath, false, index === lastIndex ? '' : '\n');
+      else pushSegment(childPath, true, child);
+    });
+    if (isBlock) isLineBroken = true;
+  };
+
+  visit(element, [], true);
+
+  const projection: Projection = {
+    text: parts.join(''),
+    segments,
+    segmentsByPath: new Map(
+      segments.map(segment => [segment.path.join(), segment]),
+    ),
+  };
+  projectionsCache.set(element, { options, projection });
+  return projection;
+};
+
+/**
+ * The plain text of the element for search, word counts, or spellcheck.
+ * Blocks are separated with blockSeparator, and BRs are newlines.
+ */
+export const elementToPlainText = (
+  element: Element,
+  options: PlainTextOptions = {},
+): string => project(element, options).text;
+
+const segmentToPoint = (segment: Segment, offset: number): NonEmptyPath =>
+  segment.isText
+    ? ([...segment.path, offset - segment.start] as NonEmptyPath)
+    : segment.path;
+
+/**
+ * The selection point of the plain text offset. An offset between two texts
+ * is at the start of the next text. An offset in a block separator is at
+ * the start of the next block.
+ */
+export const plainTextOffsetToPoint = (
+  element: Element,
+  options: PlainTextOptions = {},
+) => (offset: number): Option<NonEmptyPath> => {
+  const { text, segments } = project(element, options);
+  if (offset < 0 || offset > text.length) return none;
+  // Binary search for the first segment ending at or after the offset.
+  let low = 0;
+  let high = segments.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (segments[middle].end < offset) low = middle + 1;
+    else high = middle;
+  }
+  let best: Segment | null = null;
+  for (let i = low; i < segments.length && segments[i].start <= offset; i++) {
+    const segment = segments[i];
+    if (segment.isText && segment.end > offset) {
+      best = segment;
+      break;
+    }
+    if (best == null || (segment.isText && !best.isText)) best = segment;
+  }
+  if (best == null && low < segments.length) best = segments[low];
+  return best == null
+    ? none
+    : some(segmentToPoint(best, Math.max(offset, best.start)));
+};
+
+/**
+ * The plain text offset of the selection point. Only points in texts
+ * and BRs are mapped.
+ */
+export const pointToPlainTextOffset = (
+  element: Element,
+  options: PlainTextOptions = {},
+) => (point: NonEmptyPath): Option<number> => {
+  const { segmentsByPath } = project(element, options);
+  const textSegment = segmentsByPath.get(point.slice(0, -1).join());
+  if (textSegment != null && textSegment.isText)
+    return some(
+      textSegment.start +
+        Math.min(point[point.length - 1], textSegment.end - textSegment.start),
+    );
+  const segment = segmentsByPath.get(point.join());
+  return segment != null && !segment.isText ? some(segment.start) : none;
+};
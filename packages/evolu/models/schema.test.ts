@@ -0,0 +1,207 @@
+import { isLeft, isRight, left } from 'fp-ts/lib/Either';
+import { none, some } from 'fp-ts/lib/Option';
+import * as t from 'io-ts';
+import { nonEmptyArray } from 'io-ts-types/lib/nonEmptyArray';
+import { createStableIDFactory } from '../../web/tests/integration/helpers';
+import { Element, ElementID, ElementOutput, Text } from '../types';
+import {
+  exactTuple,
+  validateElement,
+  validateOrRepairElement,
+  VoidChildren,
+} from './schema';
+
+const id = createStableIDFactory();
+
+// The schema from web/components/examples/SchemaExample.
+
+const Heading = t.type({
+  id: ElementID,
+  type: t.literal('heading'),
+  children: exactTuple(t.tuple([t.string])),
+});
+
+const Link = t.type({
+  id: ElementID,
+  type: t.literal('link'),
+  href: t.string,
+  children: exactTuple(t.tuple([t.string])),
+});
+
+const Paragraph = t.type({
+  id: ElementID,
+  type: t.literal('paragraph'),
+  children: nonEmptyArray(t.union([t.string, Link], 'ParagraphChild')),
+});
+
+interface ListItem extends Element {
+  readonly type: 'listitem';
+  readonly children: [Text] | [Text, List];
+}
+
+interface List extends Element {
+  readonly type: 'list';
+  readonly children: ListItem[];
+}
+
+const ListItem: t.Type<ListItem, ElementOutput> = t.recursion('ListItem', () =>
+  t.type({
+    id: ElementID,
+    type: t.literal('listitem'),
+    children: t.union([
+      exactTuple(t.tuple([t.string])),
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      exactTuple(t.tuple([t.string, List])),
+    ]),
+  }),
+);
+
+const List: t.Type<List, ElementOutput> = t.recursion('List', () =>
+  t.type({
+    id: ElementID,
+    type: t.literal('list'),
+    children: t.array(ListItem),
+  }),
+);
+
+const Image = t.type({
+  id: ElementID,
+  type: t.literal('image'),
+  src: t.string,
+  alt: t.string,
+  width: t.number,
+  height: t.number,
+  children: VoidChildren,
+});
+
+const Document = t.type({
+  id: ElementID,
+  type: t.literal('document'),
+  children: t.array(
+    t.union([Heading, Paragraph, List, Image], 'DocumentChild'),
+  ),
+});
+
+const validate = validateElement(Document);
+
+const heading = () => ({ id: id(), type: 'heading', children: ['heading'] });
+
+const paragraph = (children: unknown[] = ['paragraph']) => ({
+  id: id(),
+  type: 'paragraph',
+  children,
+});
+
+const list = (children: unknown[]) => ({ id: id(), type: 'list', children });
+
+const listItem = (children: unknown[]) => ({
+  id: id(),
+  type: 'listitem',
+  children,
+});
+
+const image = () => ({
+  id: id(),
+  type: 'image',
+  src: 'https://via.placeholder.com/80',
+  alt: 'Square placeholder image 80px',
+  width: 80,
+  height: 80,
+  children: [],
+});
+
+const documentWith = (...children: unknown[]) =>
+  ({ id: id(), type: 'document', children } as Element);
+
+test('valid document', () => {
+  const element = documentWith(
+    heading(),
+    paragraph(['a', { id: id(), type: 'link', href: '/', children: ['b'] }]),
+    list([listItem(['a']), listItem(['b', list([listItem(['c'])])])]),
+    image(),
+  );
+  expect(isRight(validate(element))).toBe(true);
+});
+
+test('document children are heading, paragraph, list, or image', () => {
+  expect(validate(documentWith(heading(), { id: id(), children: [] }))).toEqual(
+    left([{ path: [1], message: 'Expected DocumentChild' }]),
+  );
+  expect(validate(documentWith(heading(), 'text'))).toEqual(
+    left([{ path: [1], message: 'Expected DocumentChild' }]),
+  );
+});
+
+test('heading has just one text', () => {
+  expect(
+    validate(documentWith({ ...heading(), children: ['a', 'b'] })),
+  ).toEqual(left([{ path: [0], message: 'Expected 1 children' }]));
+  expect(validate(documentWith({ ...heading(), children: [] }))).toEqual(
+    left([{ path: [0], message: 'Expected 1 children' }]),
+  );
+});
+
+test('paragraph has at least one child', () => {
+  expect(validate(documentWith(paragraph([])))).toEqual(
+    left([{ path: [0], message: 'Expected NonEmptyArray<ParagraphChild>' }]),
+  );
+});
+
+test('link has href and just one text', () => {
+  const violations = validate(
+    documentWith(
+      paragraph([
+        'a',
+        { id: id(), type: 'link', children: ['b'] },
+        { id: id(), type: 'link', href: '/', children: ['c', 'd'] },
+      ]),
+    ),
+  );
+  expect(violations).toEqual(
+    left([
+      // Text or link without href.
+      { path: [0, 1], message: 'Expected string' },
+      { path: [0, 2], message: 'Expected string' },
+      { path: [0, 2], message: 'Expected 1 children' },
+    ]),
+  );
+});
+
+test('list item has text with at most one nested list', () => {
+  expect(
+    isRight(validate(documentWith(list([listItem(['a', list([])])])))),
+  ).toBe(true);
+  const violations = validate(
+    documentWith(list([listItem(['a', list([]), list([])]), listItem([])])),
+  );
+  expect(isLeft(violations) && violations.left.map(v => v.path)).toEqual([
+    [0, 0],
+    [0, 0],
+    [0, 1],
+    [0, 1],
+  ]);
+});
+
+test('image is void element with attributes', () => {
+  expect(validate(documentWith({ ...image(), width: '80' }))).toEqual(
+    left([{ path: [0], message: 'Expected number' }]),
+  );
+  expect(validate(documentWith({ ...image(), children: ['a'] }))).toEqual(
+    left([{ path: [0], message: 'Expected no children' }]),
+  );
+});
+
+test('validateOrRepairElement', () => {
+  const element = documentWith(heading(), paragraph([]));
+  const repaired = { ...element, children: element.children.slice(0, 1) };
+  expect(
+    validateOrRepairElement(Document, () => some(repaired))(element),
+  ).toEqual(validate(repaired));
+  expect(validateOrRepairElement(Document, () => none)(element)).toEqual(
+    validate(element),
+  );
+  // Repaired element is validated too.
+  expect(
+    validateOrRepairElement(Document, () => some(element))(element),
+  ).toEqual(validate(element));
+});
@@ -0,0 +1,124 @@
+import { chain, Either, fromOption, mapLeft, orElse } from 'fp-ts/lib/Either';
+import { identity } from 'fp-ts/lib/function';
+import { pipe } from 'fp-ts/lib/pipeable';
+import * as t from 'io-ts';
+import {
+  Element,
+  Node,
+  Path,
+  PathIndex,
+  RepairElement,
+  Schema,
+  SchemaViolation,
+} from '../types';
+import { eqPath } from './path';
+import { isText } from './text';
+
+/**
+ * Like io-ts tuple, but redundant items are errors. The io-ts tuple strips them.
+ */
+export const exactTuple = <C extends t.Mixed & { readonly types: t.Mixed[] }>(
+  codec: C,
+  name = `Exact${codec.name}`,
+) =>
+  new t.Type<t.TypeOf<C>, t.OutputOf<C>, unknown>(
+    name,
+    (u): u is t.TypeOf<C> => codec.is(u),
+    (u, c) =>
+      Array.isArray(u) && u.length !== codec.types.length
+        ? t.failure(u, c, `Expected ${codec.types.length} children`)
+        : codec.validate(u, c),
+    codec.encode,
+  );
+
+/**
+ * Children of void elements like images.
+ */
+export const VoidChildren = new t.Type<[], [], unknown>(
+  'VoidChildren',
+  (u): u is [] => Array.isArray(u) && u.length === 0,
+  (u, c) =>
+    Array.isArray(u) && u.length === 0
+      ? t.success([])
+      : t.failure(u, c, 'Expected no children'),
+  identity,
+);
+
+// Context keys are object keys and union member indexes, so children
+// indexes are found by the identity of the validated values.
+const contextToPath = (element: Element, context: t.Context): Path => {
+  const path: PathIndex[] = [];
+  let node: Node = element;
+  let children: Node[] | null = null;
+  context.forEach(({ key, actual }) => {
+    if (!isText(node) && key === 'children' && actual === node.children) {
+      ({ children } = node);
+      return;
+    }
+    const index = Number(key);
+    // Missing children are reported on the parent.
+    if (children == null || index >= children.length) return;
+    if (children[index] !== actual) return;
+    path.push(index as PathIndex);
+    node = children[index];
+    children = null;
+  });
+  return path;
+};
+
+const errorToViolation = (element: Element) => (
+  error: t.ValidationError,
+): SchemaViolation => {
+  const { type } = error.context[error.context.length - 1];
+  return {
+    path: contextToPath(element, error.context),
+    message: error.message || `Expected ${type.name}`,
+  };
+};
+
+/**
+ * Validate element by io-ts schema. Violations have paths to invalid nodes.
+ * Failed union members are reported too, because any of them could be meant.
+ */
+export const validateElement = (schema: Schema) => (
+  element: Element,
+): Either<SchemaViolation[], Element> =>
+  pipe(
+    schema.decode(element),
+    mapLeft(errors =>
+      errors
+        .map(errorToViolation(element))
+        .filter(
+          (violation, index, violations) =>
+            violations.findIndex(
+              v =>
+                v.message === violation.message &&
+                eqPath.equals(v.path, violation.path),
+            ) === index,
+        ),
+    ),
+  );
+
+/**
+ * Validate element, and when it's invalid, validate its repaired version.
+ * Violations of the element are returned when the repair fails.
+ */
+export const validateOrRepairElement = (
+  schema: Schema,
+  repair: RepairElement,
+) => (element: Element): Either<SchemaViolation[], Element> =>
+  pipe(
+    validateElement(schema)(element),
+    orElse(violations =>
+      pipe(
+        repair(element, violations),
+        fromOption(() => violations),
+        chain(repaired =>
+          pipe(
+            validateElement(schema)(repaired),
+            mapLeft(() => violations),
+          ),
+        ),
+      ),
+    ),
+  );
@@ -1,3 +1,4 @@
+import { none, some } from 'fp-ts/lib/Option';
 import {
   isCollapsed,
   eqSelection,
@@ -6,7 +7,9 @@ import {
   collapseToStart,
   collapseToEnd,
   unsafeSelection,
+  transformSelection,
 } from './selection';
+import { unsafeNonEmptyPath } from './path';
 import { Selection } from '../types';
 
 const s = unsafeSelection;
@@ -29,6 +32,8 @@ test('isForward', () => {
   expect(isForward(s({ anchor: [0], focus: [0] }))).toBe(true);
   expect(isForward(s({ anchor: [0], focus: [1] }))).toBe(true);
   expect(isForward(s({ anchor: [1], focus: [0] }))).toBe(false);
+  expect(isForward(s({ anchor: [0, 0, 2], focus: [0, 2, 0] }))).toBe(true);
+  expect(isForward(s({ anchor: [0, 2, 0], focus: [0, 0, 2] }))).toBe(false);
 });
 
 test('selectionToRange', () => {
@@ -63,3 +68,28 @@ test('collapseToEnd', () => {
     focus: [1],
   });
 });
+
+test('transformSelection', () => {
+  const selection = s({ anchor: [0, 0, 1], focus: [1, 0, 2] });
+  expect(
+    transformSelection(selection, {
+      type: 'insertNode',
+      path: unsafeNonEmptyPath([1]),
+      node: 'a',
+    }),
+  ).toEqual(some({ anchor: [0, 0, 1], focus: [2, 0, 2] }));
+  expect(
+    transformSelection(selection, {
+      type: 'removeNode',
+      path: unsafeNonEmptyPath([1]),
+      node: 'a',
+    }),
+  ).toEqual(none);
+  expect(
+    transformSelection(selection, {
+      type: 'moveNode',
+      path: unsafeNonEmptyPath([1]),
+      newPath: unsafeNonEmptyPath([0]),
+    }),
+  ).toEqual(some({ anchor: [1, 0, 1], focus: [0, 0, 2] }));
+});
@@ -3,16 +3,23 @@ import { init, isNonEmpty } from 'fp-ts/lib/Array';
 import { Eq, getStructEq } from 'fp-ts/lib/Eq';
 import { Endomorphism, identity, Predicate } from 'fp-ts/lib/function';
 import { chain, filter, fold, map, Option, option } from 'fp-ts/lib/Option';
-import { geq } from 'fp-ts/lib/Ord';
+import { leq } from 'fp-ts/lib/Ord';
 import { pipe } from 'fp-ts/lib/pipeable';
 import {
   NonEmptyPath,
+  Operation,
   PathDelta,
   Range,
   Selection,
   SelectionOutput,
 } from '../types';
-import { byDirection, eqPath, movePath, toNonEmptyPath } from './path';
+import {
+  byTreeOrder,
+  eqPath,
+  movePath,
+  toNonEmptyPath,
+  transformPath,
+} from './path';
 
 /**
  * Smart constructor for Selection.
@@ -51,7 +58,7 @@ export const eqSelection: Eq<Selection> = getStructEq({
  * The focus in not before the anchor.
  */
 export const isForward: Predicate<Selection> = selection =>
-  geq(byDirection)(selection.anchor, selection.focus);
+  leq(byTreeOrder)(selection.anchor, selection.focus);
 
 export const selectionToRange = (selection: Selection): Range =>
   isForward(selection)
@@ -102,3 +109,19 @@ export const initSelection = (selection: Selection): Option<Selection> =>
     anchor: pipe(init(selection.anchor), filter(isNonEmpty)),
     focus: pipe(init(selection.focus), filter(isNonEmpty)),
   });
+
+/**
+ * Transform the selection, so it selects the same content after
+ * the operation. None means the anchor or the focus was removed.
+ */
+export const transformSelection = (
+  selection: Selection,
+  operation: Operation,
+): Option<Selection> => {
+  const transformPoint = (point: NonEmptyPath) =>
+    pipe(transformPath(point, operation), chain(toNonEmptyPath));
+  return sequenceS(option)({
+    anchor: transformPoint(selection.anchor),
+    focus: transformPoint(selection.focus),
+  });
+};
@@ -1,3 +1,9 @@
 import { Predicate } from 'fp-ts/lib/function';
 
 export const stringIsBR: Predicate<string> = text => text.length === 0;
+
+/**
+ * Escape special chars, so the text can be a part of RegExp.
+ */
+export const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
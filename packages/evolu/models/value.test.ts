@@ -1,5 +1,31 @@
+import { none, some } from 'fp-ts/lib/Option';
 import { createStableIDFactory } from '../../web/tests/integration/helpers';
-import { createValue, normalize } from './value';
+import {
+  createValue,
+  deleteContent,
+  eqValue,
+  deleteContentThen,
+  getDeleteContentOperations,
+  getSplitOperations,
+  insertFragment,
+  insertLineBreak,
+  moveContent,
+  normalize,
+  split,
+  textToFragment,
+  toggleMark,
+} from './value';
+import { unsafeSelection } from './selection';
+import { unsafeNonEmptyPath } from './path';
+import { elementToIDless, splitElement } from './element';
+import {
+  Element,
+  MarkElement,
+  Node,
+  NonEmptyPath,
+  ReactElement,
+} from '../types';
+import { applyOperations, getEditOperations } from './operation';
 
 const id = createStableIDFactory();
 
@@ -15,3 +41,444 @@ test('normalize', () => {
   const value2 = createValue({ element: element2 });
   expect(normalize(value2)).not.toBe(value2);
 });
+
+test('split', () => {
+  const element = {
+    id: id(),
+    children: [{ id: id(), children: ['ab'] }],
+  };
+  const value = split({
+    path: unsafeNonEmptyPath([0]),
+    point: unsafeNonEmptyPath([0, 0, 1]),
+  })(createValue({ element }));
+  expect(elementToIDless(value.element)).toEqual({
+    children: [{ children: ['a'] }, { children: ['b'] }],
+  });
+  expect(value.selection).toEqual(
+    some({ anchor: [1, 0, 0], focus: [1, 0, 0] }),
+  );
+
+  const valueWithBR = split({
+    path: unsafeNonEmptyPath([0]),
+    point: unsafeNonEmptyPath([0, 0, 2]),
+  })(createValue({ element }));
+  expect(valueWithBR.selection).toEqual(
+    some({ anchor: [1, 0], focus: [1, 0] }),
+  );
+});
+
+test('getSplitOperations', () => {
+  const bold: MarkElement = { id: id(), marks: ['bold'], children: ['cd'] };
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [{ id: id(), children: ['ab', bold, 'e'] }],
+    },
+  });
+  const splitAt = (point: number[]) => {
+    const operations = getSplitOperations({
+      path: unsafeNonEmptyPath([0]),
+      point: unsafeNonEmptyPath(point),
+    })(value);
+    const next = applyOperations(value, operations);
+    // The same as splitElement, except new IDs.
+    expect(elementToIDless(next.element)).toEqual(
+      elementToIDless(
+        splitElement({
+          path: unsafeNonEmptyPath([0]),
+          point: unsafeNonEmptyPath(point),
+        })(value.element),
+      ),
+    );
+    return { operations, next };
+  };
+  const inMark = splitAt([0, 1, 0, 1]);
+  expect(inMark.operations.map(operation => operation.type)).toEqual([
+    'splitNode',
+    'splitNode',
+    'splitNode',
+    'setSelection',
+  ]);
+  expect(elementToIDless(inMark.next.element)).toEqual({
+    children: [
+      { children: ['ab', { marks: ['bold'], children: ['c'] }] },
+      { children: [{ marks: ['bold'], children: ['d'] }, 'e'] },
+    ],
+  });
+  expect(inMark.next.selection).toEqual(
+    some({ anchor: [1, 0, 0, 0], focus: [1, 0, 0, 0] }),
+  );
+  // Split elements get new IDs.
+  const [first, second] = inMark.next.element.children as Element[];
+  expect(first.id).toBe((value.element.children[0] as Element).id);
+  expect(second.id).not.toBe(first.id);
+  expect((second.children[0] as Element).id).not.toBe(bold.id);
+  // Split text is not left as BR next to other nodes.
+  expect(splitAt([0, 0, 2]).operations.map(({ type }) => type)).toEqual([
+    'splitNode',
+    'removeNode',
+    'splitNode',
+    'setSelection',
+  ]);
+  splitAt([0, 0, 0]);
+  splitAt([0, 2, 1]);
+  splitAt([0, 0]);
+  // Empty part gets BR.
+  expect(elementToIDless(splitAt([0, 3]).next.element)).toEqual({
+    children: [
+      { children: ['ab', { marks: ['bold'], children: ['cd'] }, 'e'] },
+      { children: [''] },
+    ],
+  });
+});
+
+test('insertLineBreak', () => {
+  const value = createValue({
+    element: { id: id(), children: [{ id: id(), children: ['ab'] }] },
+  });
+  const insert = (point: number[]) => {
+    const nextValue = insertLineBreak(unsafeNonEmptyPath(point))(value);
+    return {
+      element: elementToIDless(nextValue.element),
+      selection: nextValue.selection,
+    };
+  };
+  expect(insert([0, 0, 1])).toEqual({
+    element: { children: [{ children: ['a', '', 'b'] }] },
+    selection: some({ anchor: [0, 2, 0], focus: [0, 2, 0] }),
+  });
+  expect(insert([0, 0, 0])).toEqual({
+    element: { children: [{ children: ['', 'ab'] }] },
+    selection: some({ anchor: [0, 1, 0], focus: [0, 1, 0] }),
+  });
+  // The last BR is required for the caret.
+  expect(insert([0, 0, 2])).toEqual({
+    element: { children: [{ children: ['ab', '', ''] }] },
+    selection: some({ anchor: [0, 2], focus: [0, 2] }),
+  });
+
+  const valueWithBR = createValue({
+    element: { id: id(), children: [{ id: id(), children: [''] }] },
+  });
+  const valueWithTwoBRs = insertLineBreak(unsafeNonEmptyPath([0, 0]))(
+    valueWithBR,
+  );
+  expect(elementToIDless(valueWithTwoBRs.element)).toEqual({
+    children: [{ children: ['', ''] }],
+  });
+  expect(valueWithTwoBRs.selection).toEqual(
+    some({ anchor: [0, 1], focus: [0, 1] }),
+  );
+});
+
+test('deleteContent', () => {
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), children: ['ab'] },
+        { id: id(), children: ['cd'] },
+      ],
+    },
+  });
+  const selection = unsafeSelection({ anchor: [1, 0, 1], focus: [0, 0, 1] });
+  const nextValue = deleteContent(selection)(value);
+  expect(elementToIDless(nextValue.element)).toEqual({
+    children: [{ children: ['ad'] }],
+  });
+  expect(nextValue.selection).toEqual(
+    some({ anchor: [0, 0, 1], focus: [0, 0, 1] }),
+  );
+  const collapsed = unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] });
+  expect(deleteContent(collapsed)(value)).toBe(value);
+});
+
+test('getDeleteContentOperations', () => {
+  const bold = (text: string): MarkElement => ({
+    id: id(),
+    marks: ['bold'],
+    children: [text],
+  });
+  const deleteIn = (
+    blocks: Node[][],
+    selection: { anchor: number[]; focus: number[] },
+  ) => {
+    const value = createValue({
+      element: {
+        id: id(),
+        children: blocks.map(children => ({ id: id(), children })),
+      },
+    });
+    const operations = getDeleteContentOperations(unsafeSelection(selection))(
+      value,
+    );
+    const next = applyOperations(value, operations);
+    return {
+      types: operations.map(({ type }) => type),
+      element: elementToIDless(next.element),
+      selection: next.selection,
+    };
+  };
+  // Blocks are merged.
+  expect(
+    deleteIn([['ab'], ['cd']], { anchor: [1, 0, 0], focus: [0, 0, 2] }),
+  ).toEqual({
+    types: ['mergeNode', 'mergeNode', 'setSelection'],
+    element: { children: [{ children: ['abcd'] }] },
+    selection: some({ anchor: [0, 0, 2], focus: [0, 0, 2] }),
+  });
+  expect(
+    deleteIn(
+      [
+        ['a', bold('b')],
+        [bold('c'), 'd'],
+      ],
+      {
+        anchor: [0, 1, 0, 1],
+        focus: [1, 0, 0, 0],
+      },
+    ),
+  ).toEqual({
+    types: ['mergeNode', 'mergeNode', 'mergeNode', 'setSelection'],
+    element: {
+      children: [
+        { children: ['a', { marks: ['bold'], children: ['bc'] }, 'd'] },
+      ],
+    },
+    selection: some({ anchor: [0, 1, 0, 1], focus: [0, 1, 0, 1] }),
+  });
+  // BR of the empty block is removed.
+  expect(
+    deleteIn([[''], ['cd']], { anchor: [0, 0], focus: [1, 0, 0] }),
+  ).toEqual({
+    types: ['removeNode', 'mergeNode', 'setSelection'],
+    element: { children: [{ children: ['cd'] }] },
+    selection: some({ anchor: [0, 0, 0], focus: [0, 0, 0] }),
+  });
+  expect(
+    deleteIn([['ab'], ['']], { anchor: [0, 0, 2], focus: [1, 0] }),
+  ).toEqual({
+    types: ['removeNode', 'mergeNode', 'setSelection'],
+    element: { children: [{ children: ['ab'] }] },
+    selection: some({ anchor: [0, 0, 2], focus: [0, 0, 2] }),
+  });
+  expect(deleteIn([[''], ['']], { anchor: [0, 0], focus: [1, 0] })).toEqual({
+    types: ['removeNode', 'mergeNode', 'setSelection'],
+    element: { children: [{ children: [''] }] },
+    selection: some({ anchor: [0, 0], focus: [0, 0] }),
+  });
+  // Other deletes are found via diff.
+  expect(
+    deleteIn([['ab'], ['cd']], { anchor: [0, 0, 1], focus: [1, 0, 1] }).types,
+  ).not.toContain('mergeNode');
+});
+
+test('deleteContentThen', () => {
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), children: ['ab'] },
+        { id: id(), children: ['cd'] },
+      ],
+    },
+  });
+  const splitAt = (point: NonEmptyPath) =>
+    getSplitOperations({ path: unsafeNonEmptyPath([0]), point });
+  const selection = unsafeSelection({ anchor: [0, 0, 1], focus: [1, 0, 1] });
+  const splitted = applyOperations(
+    value,
+    deleteContentThen(selection, splitAt)(value),
+  );
+  expect(elementToIDless(splitted.element)).toEqual({
+    children: [{ children: ['a'] }, { children: ['d'] }],
+  });
+  expect(splitted.selection).toEqual(
+    some({ anchor: [1, 0, 0], focus: [1, 0, 0] }),
+  );
+  const withLineBreak = applyOperations(
+    value,
+    deleteContentThen(selection, point =>
+      getEditOperations(insertLineBreak(point)),
+    )(value),
+  );
+  expect(elementToIDless(withLineBreak.element)).toEqual({
+    children: [{ children: ['a', '', 'd'] }],
+  });
+  expect(withLineBreak.selection).toEqual(
+    some({ anchor: [0, 2, 0], focus: [0, 2, 0] }),
+  );
+  // Collapsed selection is not deleted.
+  const collapsed = unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] });
+  expect(
+    elementToIDless(
+      applyOperations(value, deleteContentThen(collapsed, splitAt)(value))
+        .element,
+    ),
+  ).toEqual({
+    children: [{ children: ['a'] }, { children: ['b'] }, { children: ['cd'] }],
+  });
+});
+
+test('insertFragment', () => {
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), children: ['abc'] },
+        { id: id(), children: ['d'] },
+      ],
+    },
+    selection: some(unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 2] })),
+  });
+  const nextValue = insertFragment([
+    { id: id(), children: ['x'] },
+    { id: id(), children: ['y'] },
+  ])(value);
+  expect(elementToIDless(nextValue.element)).toEqual({
+    children: [{ children: ['ax'] }, { children: ['yc'] }, { children: ['d'] }],
+  });
+  expect(nextValue.selection).toEqual(
+    some({ anchor: [1, 0, 1], focus: [1, 0, 1] }),
+  );
+  const withoutSelection = createValue({ element: value.element });
+  expect(insertFragment(['x'])(withoutSelection)).toBe(withoutSelection);
+});
+
+test('textToFragment', () => {
+  const element = {
+    id: id(),
+    children: [{ id: id(), tag: 'p', props: {}, children: ['a'] }, 'b'],
+  };
+  const inBlock = createValue({
+    element,
+    selection: some(unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] })),
+  });
+  const inRoot = createValue({
+    element,
+    selection: some(unsafeSelection({ anchor: [1, 1], focus: [1, 1] })),
+  });
+  expect(textToFragment('x')(inBlock)).toEqual(['x']);
+  expect(
+    textToFragment('x\r\n\ny')(inBlock).map(node =>
+      typeof node === 'string' ? node : elementToIDless(node),
+    ),
+  ).toEqual([
+    { tag: 'p', props: {}, children: ['x'] },
+    { tag: 'p', props: {}, children: [''] },
+    { tag: 'p', props: {}, children: ['y'] },
+  ]);
+  expect(textToFragment('x\n\ny')(inRoot)).toEqual(['x', '', '', 'y']);
+});
+
+test('moveContent', () => {
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), children: ['abc'] },
+        { id: id(), children: ['def'] },
+      ],
+    },
+    selection: none,
+  });
+  const move = (anchor: number[], focus: number[], point: number[]) =>
+    moveContent({
+      selection: unsafeSelection({ anchor, focus }),
+      point: unsafeNonEmptyPath(point),
+    })(value);
+
+  // Forward, so the point is adjusted for the deleted text.
+  const forward = move([0, 0, 0], [0, 0, 1], [1, 0, 2]);
+  expect(elementToIDless(forward.element)).toEqual({
+    children: [{ children: ['bc'] }, { children: ['deaf'] }],
+  });
+  expect(forward.selection).toEqual(
+    some({ anchor: [1, 0, 2], focus: [1, 0, 3] }),
+  );
+  // Backward, across blocks.
+  const backward = move([1, 0, 1], [0, 0, 2], [0, 0, 1]);
+  expect(elementToIDless(backward.element)).toEqual({
+    children: [{ children: ['ac'] }, { children: ['dbef'] }],
+  });
+  expect(backward.selection).toEqual(
+    some({ anchor: [0, 0, 1], focus: [1, 0, 1] }),
+  );
+  // Into the selection.
+  expect(move([0, 0, 0], [0, 0, 2], [0, 0, 1])).toBe(value);
+  expect(move([0, 0, 1], [0, 0, 1], [1, 0, 1])).toBe(value);
+});
+
+test('moveContent with inline elements', () => {
+  const link = (children: string[]) =>
+    ({ id: id(), tag: 'a', props: { href: 'x' }, children } as ReactElement);
+  const bold = (children: string[]): MarkElement => ({
+    id: id(),
+    marks: ['bold'],
+    children,
+  });
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), children: ['a ', bold(['bc']), ' d'] },
+        { id: id(), children: ['e ', link(['fg']), ' h'] },
+        { id: id(), children: ['ij'] },
+      ],
+    },
+    selection: none,
+  });
+  const move = (anchor: number[], focus: number[], point: number[]) =>
+    moveContent({
+      selection: unsafeSelection({ anchor, focus }),
+      point: unsafeNonEmptyPath(point),
+    })(value);
+
+  // The whole bold word.
+  const marked = move([0, 1, 0, 0], [0, 1, 0, 2], [2, 0, 1]);
+  expect(elementToIDless(marked.element)).toMatchObject({
+    children: [
+      { children: ['a  d'] },
+      {},
+      { children: ['i', { marks: ['bold'], children: ['bc'] }, 'j'] },
+    ],
+  });
+  expect(marked.selection).toEqual(
+    some({ anchor: [2, 1, 0, 0], focus: [2, 1, 0, 2] }),
+  );
+  // Text with the link.
+  const linked = move([1, 0, 1], [1, 2, 1], [2, 0, 1]);
+  expect(elementToIDless(linked.element)).toMatchObject({
+    children: [
+      {},
+      { children: ['eh'] },
+      {
+        children: [
+          'i ',
+          { tag: 'a', props: { href: 'x' }, children: ['fg'] },
+          ' j',
+        ],
+      },
+    ],
+  });
+  expect(linked.selection).toEqual(
+    some({ anchor: [2, 0, 1], focus: [2, 2, 1] }),
+  );
+});
+
+test('toggleMark of the whole mark element changes the value', () => {
+  const value = createValue({
+    element: {
+      id: id(),
+      children: [
+        { id: id(), marks: ['bold'], children: ['abc'] } as MarkElement,
+      ],
+    },
+    selection: some(unsafeSelection({ anchor: [0, 0, 0], focus: [0, 0, 3] })),
+  });
+  const next = toggleMark('italic')(value);
+  expect(elementToIDless(next.element)).toEqual({
+    children: [{ marks: ['bold', 'italic'], children: ['abc'] }],
+  });
+  expect(eqValue.equals(next, value)).toBe(false);
+});
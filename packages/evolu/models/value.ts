@@ -1,12 +1,83 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
 import { Eq, eqBoolean, getStructEq } from 'fp-ts/lib/Eq';
-import { Endomorphism } from 'fp-ts/lib/function';
-import { getEq, none, Option, some } from 'fp-ts/lib/Option';
+import { Endomorphism, not } from 'fp-ts/lib/function';
+import { last, snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  chain,
+  exists,
+  filter,
+  fold,
+  getEq,
+  getOrElse,
+  isNone,
+  map,
+  none,
+  Option,
+  option,
+  some,
+} from 'fp-ts/lib/Option';
+import { gt } from 'fp-ts/lib/Ord';
 import { pipe } from 'fp-ts/lib/pipeable';
 import { Lens } from 'monocle-ts';
 import { createElement } from 'react';
-import { Element, Selection, Text, Value, NonEmptyPath } from '../types';
-import { eqElement, jsx, normalizeElement, setTextElement } from './element';
-import { eqSelection } from './selection';
+import {
+  Element,
+  Fragment,
+  Mark,
+  MarkElement,
+  Node,
+  NonEmptyPath,
+  Operation,
+  Path,
+  PathIndex,
+  Selection,
+  Text,
+  Value,
+} from '../types';
+import {
+  childrenLens,
+  deleteContentElement,
+  eqElement,
+  eqMarks,
+  getElementTraversal,
+  getFirstSelectionPoint,
+  getFragment,
+  getParentBlockPath,
+  getNextSiblingPath,
+  getNode,
+  getNodeSelectionPoint,
+  getPointByTextOffset,
+  getTextLength,
+  getTextOffset,
+  getTextTraversal,
+  id,
+  insertFragmentElement,
+  isInlineElement,
+  jsx,
+  normalizeElement,
+  setTextElement,
+} from './element';
+import {
+  applyOperations,
+  getEditOperations,
+  getPropertiesExceptChildren,
+} from './operation';
+import {
+  byContains,
+  eqPath,
+  initNonEmptyPath,
+  toNonEmptyPath,
+  tryInitNonEmptyPath,
+} from './path';
+import {
+  eqSelection,
+  isCollapsed,
+  selectionFromPath,
+  selectionToRange,
+} from './selection';
+import { toggleMarkElement } from './mark';
+import { plainTextOffsetToPoint, pointToPlainTextOffset } from './plainText';
+import { isText, textIsBR } from './text';
 
 export const eqValue: Eq<Value> = getStructEq({
   element: eqElement,
@@ -71,6 +142,220 @@ export const setText = ({
     selection: some(selection),
   }));
 
+const getNextPath = (path: NonEmptyPath): NonEmptyPath =>
+  snoc(initNonEmptyPath(path), (last(path) + 1) as PathIndex);
+
+const isBRAt = (element: Element) => (path: NonEmptyPath) =>
+  pipe(
+    getNode(element)(path),
+    exists(node => isText(node) && textIsBR(node)),
+  );
+
+const insertBR = (path: NonEmptyPath): Operation => ({
+  type: 'insertNode',
+  path,
+  node: '',
+});
+
+const removeBR = (path: NonEmptyPath): Operation => ({
+  type: 'removeNode',
+  path,
+  node: '',
+});
+
+/**
+ * Operations splitting the element at path into two siblings at the point,
+ * then moving the selection to the start of the second one. Like splitElement,
+ * split text is not left as BR next to other nodes, empty part gets BR, and
+ * split elements get new IDs.
+ */
+export const getSplitOperations = ({
+  path,
+  point,
+}: {
+  path: NonEmptyPath;
+  point: NonEmptyPath;
+}) => (value: Value): Operation[] => {
+  const splitElementAt = (
+    path: NonEmptyPath,
+    position: number,
+    length: number,
+  ): Operation[] => [
+    {
+      type: 'splitNode',
+      path,
+      position: position as PathIndex,
+      properties: { id: id() },
+    },
+    ...(position === 0 ? [insertBR(snoc(path, 0 as PathIndex))] : []),
+    ...(position >= length
+      ? [insertBR(snoc(getNextPath(path), 0 as PathIndex))]
+      : []),
+  ];
+  const splitNodeAt = (path: NonEmptyPath, rest: Path): Operation[] =>
+    pipe(
+      getNode(value.element)(path),
+      fold(
+        () => [],
+        (node): Operation[] => {
+          if (isText(node))
+            return [
+              {
+                type: 'splitNode',
+                path,
+                position: (rest.length > 0
+                  ? rest[0]
+                  : node.length) as PathIndex,
+                properties: {},
+              },
+            ];
+          const { length } = node.children;
+          const index = rest.length > 0 ? rest[0] : length;
+          if (rest.length === 1 || index >= length)
+            return splitElementAt(path, index, length);
+          const childPath = snoc(path, index as PathIndex);
+          const childOperations = splitNodeAt(childPath, rest.slice(1));
+          const isBR = isBRAt(applyOperations(value, childOperations).element);
+          // Do not leave split text as BR next to other nodes.
+          const rightPath = getNextPath(childPath);
+          const removeRight =
+            isBR(rightPath) && index + 1 < length ? [removeBR(rightPath)] : [];
+          const removeLeft =
+            isBR(childPath) && index > 0 ? [removeBR(childPath)] : [];
+          return [
+            ...childOperations,
+            ...removeRight,
+            ...removeLeft,
+            ...splitElementAt(
+              path,
+              removeLeft.length > 0 ? index : index + 1,
+              length + 1 - removeRight.length - removeLeft.length,
+            ),
+          ];
+        },
+      ),
+    );
+  if (
+    !gt(byContains)(path, point) ||
+    isNone(getElementTraversal(path).getOption(value.element))
+  )
+    return [];
+  const operations = splitNodeAt(path, point.slice(path.length));
+  const { element } = applyOperations(value, operations);
+  return [
+    ...operations,
+    {
+      type: 'setSelection',
+      selection: value.selection,
+      newSelection: some(
+        selectionFromPath(getFirstSelectionPoint(element)(getNextPath(path))),
+      ),
+    },
+  ];
+};
+
+/**
+ * Split the element at path into two siblings at the point, then move
+ * the selection to the start of the second one.
+ */
+export const split = (params: {
+  path: NonEmptyPath;
+  point: NonEmptyPath;
+}): Endomorphism<Value> => value =>
+  applyOperations(value, getSplitOperations(params)(value));
+
+/**
+ * Insert BR at the point and move the selection after it. The point can be
+ * in a text, or it can be a child index in an element.
+ */
+export const insertLineBreak = (
+  point: NonEmptyPath,
+): Endomorphism<Value> => value => {
+  const insertNodes = (
+    parentPath: Path,
+    index: PathIndex,
+    remove: number,
+    nodes: Node[],
+  ) =>
+    pipe(
+      value.element,
+      getElementTraversal(parentPath)
+        .composeLens(childrenLens)
+        .modify(children => [
+          ...children.slice(0, index),
+          ...nodes,
+          ...children.slice(index + remove),
+        ]),
+    );
+
+  const insertIntoText = (textPath: NonEmptyPath, text: Text) => {
+    const parentPath = initNonEmptyPath(textPath);
+    const index = last(textPath);
+    const offset = Math.min(last(point), text.length);
+    const isLastChild = isNone(getNextSiblingPath(value.element)(textPath));
+    // BR at the end of a block is not rendered as a new line,
+    // so one more BR is required for the caret.
+    if (offset === text.length && isLastChild)
+      return {
+        element: insertNodes(parentPath, index, 1, [text, '', '']),
+        point: snoc(parentPath, (index + 2) as PathIndex),
+      };
+    if (offset === 0) {
+      return {
+        element: insertNodes(parentPath, index, 1, ['', text]),
+        point: snoc(snoc(parentPath, (index + 1) as PathIndex), 0 as PathIndex),
+      };
+    }
+    const before = text.slice(0, offset);
+    const after = text.slice(offset);
+    const element = insertNodes(
+      parentPath,
+      index,
+      1,
+      after.length > 0 ? [before, '', after] : [before, ''],
+    );
+    return {
+      element,
+      point: getNodeSelectionPoint(element)(
+        snoc(parentPath, (index + 2) as PathIndex),
+      ),
+    };
+  };
+
+  const insertIntoElement = (point: NonEmptyPath) => {
+    const parentPath = initNonEmptyPath(point);
+    const index = last(point);
+    const isEnd = isNone(getNode(value.element)(point));
+    const element = insertNodes(parentPath, index, 0, isEnd ? ['', ''] : ['']);
+    return {
+      element,
+      point: getNodeSelectionPoint(element)(
+        snoc(parentPath, (index + 1) as PathIndex),
+      ),
+    };
+  };
+
+  const { element, point: nextPoint } = pipe(
+    tryInitNonEmptyPath(point),
+    chain(textPath =>
+      pipe(
+        getTextTraversal(textPath).getOption(value.element),
+        map(text => ({ textPath, text })),
+      ),
+    ),
+    fold(
+      () => insertIntoElement(point),
+      ({ textPath, text }) =>
+        // BR is replaced with two BRs like when it's selected via its parent.
+        textIsBR(text)
+          ? insertIntoElement(textPath)
+          : insertIntoText(textPath, text),
+    ),
+  );
+  if (element === value.element) return value;
+  return { ...value, element, selection: some(selectionFromPath(nextPoint)) };
+};
+
 // TODO: Rethink move, maybe we will use Either.
 // export const move = (delta: PathDelta): Endomorphism<Value> => value =>
 // pipe(
@@ -82,12 +367,318 @@ export const setText = ({
 //     ),
 //   );
 
+/**
+ * Delete content in the selection and collapse the selection.
+ */
 export const deleteContent = (
   selection: Selection,
+): Endomorphism<Value> => value => {
+  if (isCollapsed(selection)) return value;
+  const { element, point } = deleteContentElement(selectionToRange(selection))(
+    value.element,
+  );
+  return { ...value, element, selection: some(selectionFromPath(point)) };
+};
+
+// Adjacent texts and mark elements with equal marks are merged at the index,
+// like normalizeElement does.
+const getMergeJunctionOperations = (value: Value) => (
+  path: NonEmptyPath,
+): Operation[] => {
+  const previousPath = snoc(
+    initNonEmptyPath(path),
+    (last(path) - 1) as PathIndex,
+  );
+  return pipe(
+    sequenceT(option)(
+      getNode(value.element)(previousPath),
+      getNode(value.element)(path),
+    ),
+    fold(
+      () => [],
+      ([previous, node]): Operation[] => {
+        if (isText(previous) && isText(node)) {
+          if (textIsBR(previous) || textIsBR(node)) return [];
+          return [
+            {
+              type: 'mergeNode',
+              path,
+              position: previous.length as PathIndex,
+              properties: {},
+            },
+          ];
+        }
+        if (
+          !MarkElement.is(previous) ||
+          !MarkElement.is(node) ||
+          !eqMarks.equals(previous.marks, node.marks)
+        )
+          return [];
+        const position = previous.children.length as PathIndex;
+        const operations: Operation[] = [
+          {
+            type: 'mergeNode',
+            path,
+            position,
+            properties: getPropertiesExceptChildren(node),
+          },
+        ];
+        return [
+          ...operations,
+          ...getMergeJunctionOperations(applyOperations(value, operations))(
+            snoc(previousPath, position),
+          ),
+        ];
+      },
+    ),
+  );
+};
+
+/**
+ * Operations deleting content in the selection and collapsing the selection.
+ * Deleting the boundary of two sibling blocks, like Backspace at the start of
+ * a block, merges them. Other deletes are found via diff.
+ */
+export const getDeleteContentOperations = (selection: Selection) => (
+  value: Value,
+): Operation[] => {
+  if (isCollapsed(selection)) return [];
+  const { start, end } = selectionToRange(selection);
+  const getBlock = (point: NonEmptyPath) =>
+    pipe(
+      getParentBlockPath(value.element)(point),
+      toNonEmptyPath,
+      chain(path =>
+        pipe(
+          getElementTraversal(path).getOption(value.element),
+          filter(block =>
+            block.children.every(node => isText(node) || isInlineElement(node)),
+          ),
+          map(block => ({
+            path,
+            block,
+            offset: getTextOffset(block)(
+              point.slice(path.length) as NonEmptyPath,
+            ),
+          })),
+        ),
+      ),
+    );
+  return pipe(
+    sequenceT(option)(getBlock(start), getBlock(end)),
+    filter(
+      ([previous, next]) =>
+        eqPath.equals(getNextPath(previous.path), next.path) &&
+        previous.offset === getTextLength(previous.block.children) &&
+        next.offset === 0,
+    ),
+    fold(
+      () => getEditOperations(deleteContent(selection))(value),
+      ([previous, next]) => {
+        const isBR = (block: Element) =>
+          block.children.length === 1 && isBRAt(block)([0 as PathIndex]);
+        // BR of the empty block is replaced with the content of the other one.
+        const removeBROperations = isBR(next.block)
+          ? [removeBR(snoc(next.path, 0 as PathIndex))]
+          : isBR(previous.block)
+          ? [removeBR(snoc(previous.path, 0 as PathIndex))]
+          : [];
+        const position = (previous.block.children.length -
+          (removeBROperations.length > 0 && !isBR(next.block)
+            ? 1
+            : 0)) as PathIndex;
+        const mergeOperations: Operation[] = [
+          ...removeBROperations,
+          {
+            type: 'mergeNode',
+            path: next.path,
+            position,
+            properties: getPropertiesExceptChildren(next.block),
+          },
+        ];
+        const merged = applyOperations(value, mergeOperations);
+        const operations = [
+          ...mergeOperations,
+          ...getMergeJunctionOperations(merged)(snoc(previous.path, position)),
+        ];
+        const { element } = applyOperations(value, operations);
+        const point = pipe(
+          getElementTraversal(previous.path).getOption(element),
+          chain(block =>
+            getPointByTextOffset(block, previous.offset > 0)(previous.offset),
+          ),
+          map(point => [...previous.path, ...point] as NonEmptyPath),
+          getOrElse(() => getFirstSelectionPoint(element)(previous.path)),
+        );
+        return [
+          ...operations,
+          {
+            type: 'setSelection',
+            selection: value.selection,
+            newSelection: some(selectionFromPath(point)),
+          },
+        ];
+      },
+    ),
+  );
+};
+
+/**
+ * Delete content in the selection, then get operations of the edit at
+ * the collapsed point. For example, Enter with the selection replaces it
+ * with a new line.
+ */
+export const deleteContentThen = (
+  selection: Selection,
+  getOperations: (point: NonEmptyPath) => (value: Value) => Operation[],
+) => (value: Value): Operation[] => {
+  if (isCollapsed(selection)) return getOperations(selection.anchor)(value);
+  const operations = getDeleteContentOperations(selection)(value);
+  const deleted = applyOperations(value, operations);
+  return pipe(
+    deleted.selection,
+    fold(
+      () => operations,
+      ({ anchor }) => [...operations, ...getOperations(anchor)(deleted)],
+    ),
+  );
+};
+
+/**
+ * Toggle the mark for the selected texts. Collapsed selection does nothing.
+ */
+export const toggleMark = (mark: Mark): Endomorphism<Value> => value =>
+  pipe(
+    value.selection,
+    filter(not(isCollapsed)),
+    fold(
+      () => value,
+      selection => {
+        const next = toggleMarkElement({ mark, selection })(value.element);
+        if (next.element === value.element) return value;
+        return {
+          ...value,
+          element: next.element,
+          selection: some(next.selection),
+        };
+      },
+    ),
+  );
+
+/**
+ * Replace the selection with the fragment and move the selection after it.
+ */
+export const insertFragment = (
+  fragment: Fragment,
 ): Endomorphism<Value> => value =>
-  pipe(value, a => {
-    // TODO:
-    // eslint-disable-next-line no-console
-    console.log(selection);
-    return a;
-  });
+  pipe(
+    value.selection,
+    map(selection => deleteContent(selection)(value)),
+    chain(deleted =>
+      pipe(
+        deleted.selection,
+        map(selection => ({
+          deleted,
+          point: selectionToRange(selection).start,
+        })),
+      ),
+    ),
+    fold(
+      () => value,
+      ({ deleted, point }) => {
+        const next = insertFragmentElement({ point, fragment })(
+          deleted.element,
+        );
+        return {
+          ...deleted,
+          element: next.element,
+          selection: some(selectionFromPath(next.point)),
+        };
+      },
+    ),
+  );
+
+/**
+ * Move the content in the selection to the point, like drag and drop does.
+ * The point is adjusted for the deleted content, and the moved content is
+ * selected. Moving into the selection itself does nothing.
+ */
+export const moveContent = ({
+  selection,
+  point,
+}: {
+  selection: Selection;
+  point: NonEmptyPath;
+}): Endomorphism<Value> => value => {
+  if (isCollapsed(selection)) return value;
+  const range = selectionToRange(selection);
+  const toOffset = pointToPlainTextOffset(value.element);
+  return pipe(
+    sequenceT(option)(
+      toOffset(range.start),
+      toOffset(range.end),
+      toOffset(point),
+    ),
+    filter(([start, end, offset]) => offset < start || offset > end),
+    chain(([start, end, offset]) => {
+      const fragment = getFragment(range)(value.element);
+      const deleted = deleteContent(selection)(value);
+      // Plain text after the deleted content is shifted by its length,
+      // block separators included.
+      const dropOffset = offset > end ? offset - (end - start) : offset;
+      return pipe(
+        plainTextOffsetToPoint(deleted.element)(dropOffset),
+        map(dropPoint => {
+          const inserted = insertFragment(fragment)(
+            select(selectionFromPath(dropPoint))(deleted),
+          );
+          return pipe(
+            sequenceT(option)(
+              plainTextOffsetToPoint(inserted.element)(dropOffset),
+              inserted.selection,
+            ),
+            fold(
+              () => inserted,
+              ([anchor, { focus }]) => ({
+                ...inserted,
+                selection: some({ anchor, focus }),
+              }),
+            ),
+          );
+        }),
+      );
+    }),
+    getOrElse(() => value),
+  );
+};
+
+/**
+ * Convert plain text to Fragment. Lines become copies of the block with
+ * the selection. Without such block, lines are separated with BR.
+ */
+export const textToFragment = (text: string) => (value: Value): Fragment => {
+  const lines = text.split(/\r\n|\r|\n/);
+  if (lines.length === 1) return lines;
+  return pipe(
+    value.selection,
+    chain(selection =>
+      pipe(
+        getParentBlockPath(value.element)(selectionToRange(selection).start),
+        toNonEmptyPath,
+      ),
+    ),
+    chain(path => getElementTraversal(path).getOption(value.element)),
+    fold(
+      () =>
+        lines.reduce<Fragment>(
+          (fragment, line, index) => [
+            ...fragment,
+            ...(index > 0 ? [''] : []),
+            ...(line.length > 0 ? [line] : []),
+          ],
+          [],
+        ),
+      block => lines.map(line => ({ ...block, id: id(), children: [line] })),
+    ),
+  );
+};
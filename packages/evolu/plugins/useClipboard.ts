@@ -0,0 +1,83 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { constVoid, not } from 'fp-ts/lib/function';
+import { alt, filter, fold, fromNullable, map, option } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { MutableRefObject, useRef } from 'react';
+import { fragmentToDataTransfer } from '../models/clipboard';
+import { getFragment } from '../models/element';
+import { isCollapsed, selectionToRange } from '../models/selection';
+import { deleteContent } from '../models/value';
+import { EditorIO, EditorRef, RenderElement } from '../types';
+import { usePlugin } from './usePlugin';
+
+const createHandlers = (
+  { getSelectionFromDOM, getValue, modifyValue }: EditorIO,
+  renderElementRef: MutableRefObject<RenderElement | undefined>,
+) => {
+  const getSelection = () =>
+    pipe(
+      getSelectionFromDOM(),
+      alt(() => getValue().selection),
+      filter(not(isCollapsed)),
+    );
+
+  // The browser would serialize the DOM, which is not the value.
+  const writeClipboard = (event: ClipboardEvent) =>
+    pipe(
+      sequenceT(option)(fromNullable(event.clipboardData), getSelection()),
+      map(([clipboardData, selection]) => {
+        event.preventDefault();
+        fragmentToDataTransfer(
+          getFragment(selectionToRange(selection))(getValue().element),
+          renderElementRef.current,
+        )(clipboardData)();
+        return selection;
+      }),
+    );
+
+  const handleCopy = (event: ClipboardEvent) => () => {
+    writeClipboard(event);
+  };
+
+  const handleCut = (event: ClipboardEvent) => () =>
+    pipe(
+      writeClipboard(event),
+      fold(constVoid, selection => {
+        modifyValue(deleteContent(selection))();
+      }),
+    );
+
+  // When the cut event is not prevented, the browser deletes the DOM.
+  const handleDeleteByCut = (event: InputEvent) => () => {
+    event.preventDefault();
+    pipe(
+      getSelection(),
+      fold(constVoid, selection => {
+        modifyValue(deleteContent(selection))();
+      }),
+    );
+  };
+
+  return { handleCopy, handleCut, handleDeleteByCut };
+};
+
+/**
+ * Copy and cut the selected fragment of the value as plain text, HTML,
+ * and the editor format, so pasting it restores the exact structure.
+ * Cut deletes the content via the model.
+ */
+export const useClipboard = (
+  editorRef: EditorRef,
+  renderElement?: RenderElement,
+) => {
+  const renderElementRef = useRef(renderElement);
+  renderElementRef.current = renderElement;
+  usePlugin(editorRef, {
+    start: editorIO => {
+      const handlers = createHandlers(editorIO, renderElementRef);
+      editorIO.onCopy.write(handlers.handleCopy)();
+      editorIO.onCut.write(handlers.handleCut)();
+      editorIO.onDeleteByCut.write(handlers.handleDeleteByCut)();
+    },
+  });
+};
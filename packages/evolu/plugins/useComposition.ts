@@ -0,0 +1,212 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { constVoid } from 'fp-ts/lib/function';
+import { IORef } from 'fp-ts/lib/IORef';
+import { snoc } from 'fp-ts/lib/NonEmptyArray';
+import {
+  alt,
+  chain,
+  filter,
+  fold,
+  fromNullable,
+  getOrElse,
+  isSome,
+  map,
+  none,
+  Option,
+  option,
+  some,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { useRef } from 'react';
+import { isDOMText } from '../models/dom';
+import { getTextTraversal } from '../models/element';
+import { eqPath, initNonEmptyPath, tryInitNonEmptyPath } from '../models/path';
+import { selectionFromPath, selectionToRange } from '../models/selection';
+import { textIsBR } from '../models/text';
+import { deleteContent, setText } from '../models/value';
+import { EditorIO, EditorRef, NonEmptyPath, PathIndex } from '../types';
+import { DOMNode } from '../types/dom';
+import { usePlugin } from './usePlugin';
+import { warn } from '../warn';
+
+interface Composition {
+  // The start of the selection when the composition started.
+  readonly point: NonEmptyPath;
+  // The composition into an empty block replaces its BR placeholder.
+  readonly br: Option<{ node: DOMNode; parent: DOMNode }>;
+}
+
+// Composed text is inserted by the browser next to the BR, or instead of it.
+// Such text nodes have no path, because they are not rendered by React.
+const takeComposedText = (
+  { node, parent }: { node: DOMNode; parent: DOMNode },
+  hasPath: (node: DOMNode) => boolean,
+) => {
+  const composed = Array.from(parent.childNodes).filter(
+    child => isDOMText(child) && !hasPath(child),
+  );
+  if (composed.length > 0 && node.parentNode !== parent)
+    parent.insertBefore(node, composed[0]);
+  composed.forEach(child => parent.removeChild(child));
+  // React would not be able to reconcile the DOM, so we restore it.
+  return composed.map(child => child.textContent || '').join('');
+};
+
+const createHandlers = (
+  {
+    afterTyping,
+    getDOMNodeByPath,
+    getDOMTextByPath,
+    getPathByDOMNode,
+    getSelectionFromDOM,
+    getValue,
+    isComposing,
+    modifyValue,
+  }: EditorIO,
+  isContentDeleted: IORef<boolean>,
+) => {
+  const composition = new IORef<Option<Composition>>(none);
+
+  // The browser can compose only into one text, so the content selected
+  // across several texts is deleted by the model first. React renders it
+  // after the event, then the layout effect syncs the DOM selection.
+  const handleCompositionStart = () => () => {
+    isComposing.write(true)();
+    pipe(
+      getSelectionFromDOM(),
+      alt(() => getValue().selection),
+      filter(
+        ({ anchor, focus }) =>
+          !eqPath.equals(initNonEmptyPath(anchor), initNonEmptyPath(focus)),
+      ),
+      fold(constVoid, selection => {
+        isContentDeleted.write(true)();
+        modifyValue(deleteContent(selection))();
+      }),
+    );
+  };
+
+  // The first composition text input records the composition, because
+  // the DOM is already rendered.
+  const handleInsertCompositionText = () => () => {
+    if (isSome(composition.read())) return;
+    pipe(
+      getSelectionFromDOM(),
+      alt(() => getValue().selection),
+      map(selection => selectionToRange(selection).start),
+      fold(constVoid, point => {
+        const isBR = pipe(
+          getTextTraversal(point).getOption(getValue().element),
+          map(textIsBR),
+          getOrElse<boolean>(() => false),
+        );
+        const br = isBR
+          ? pipe(
+              getDOMNodeByPath(point)(),
+              chain(node =>
+                pipe(
+                  fromNullable(node.parentNode),
+                  map(parent => ({ node, parent })),
+                ),
+              ),
+            )
+          : none;
+        composition.write(some({ point, br }))();
+      }),
+    );
+  };
+
+  const setComposedText = ({ point, br }: Composition) =>
+    pipe(
+      br,
+      fold(
+        () =>
+          pipe(
+            tryInitNonEmptyPath(point),
+            chain(path =>
+              sequenceT(option)(
+                some(path),
+                getDOMTextByPath(path)(),
+                getSelectionFromDOM(),
+              ),
+            ),
+            fold(constVoid, ([path, text, selection]) => {
+              modifyValue(setText({ text, path, selection }))();
+            }),
+          ),
+        br => {
+          const text = takeComposedText(br, node =>
+            isSome(getPathByDOMNode(node)()),
+          );
+          if (text.length === 0) return;
+          modifyValue(
+            setText({
+              text,
+              path: point,
+              selection: selectionFromPath(
+                snoc(point, text.length as PathIndex),
+              ),
+            }),
+          )();
+        },
+      ),
+    );
+
+  const endComposition = async (composed: Option<Composition>) => {
+    try {
+      // Wait for the final DOM mutation.
+      await afterTyping();
+    } finally {
+      // The selection must be synced again, even if the composition failed.
+      isComposing.write(false)();
+    }
+    pipe(composed, fold(constVoid, setComposedText));
+  };
+
+  const handleCompositionEnd = () => () => {
+    const composed = composition.read();
+    composition.write(none)();
+    endComposition(composed).catch((error: Error) => {
+      warn(error.message || 'unknown error in composition');
+    });
+  };
+
+  return {
+    handleCompositionStart,
+    handleInsertCompositionText,
+    handleCompositionEnd,
+  };
+};
+
+// The browser owns the DOM during composition.
+const letTheBrowser = () => constVoid;
+
+/**
+ * IME and dead keys composition. The browser mutates the DOM until
+ * the composition ends, then the composed text is set via setText.
+ */
+export const useComposition = (editorRef: EditorRef) => {
+  const isContentDeleted = useRef(new IORef(false)).current;
+  usePlugin(editorRef, {
+    start: editorIO => {
+      const {
+        handleCompositionStart,
+        handleInsertCompositionText,
+        handleCompositionEnd,
+      } = createHandlers(editorIO, isContentDeleted);
+      editorIO.onCompositionStart.write(handleCompositionStart)();
+      editorIO.onCompositionEnd.write(handleCompositionEnd)();
+      editorIO.onInsertCompositionText.write(handleInsertCompositionText)();
+      editorIO.onDeleteCompositionText.write(letTheBrowser)();
+      editorIO.onInsertFromComposition.write(letTheBrowser)();
+      editorIO.onDeleteByComposition.write(letTheBrowser)();
+    },
+    // The selection sync is suspended during composition, so the selection
+    // after the deleted content is synced here.
+    layoutEffect: editorIO => {
+      if (!isContentDeleted.read()) return;
+      isContentDeleted.write(false)();
+      editorIO.ensureDOMSelectionIsActual();
+    },
+  });
+};
@@ -1,6 +1,15 @@
 import { pipe } from 'fp-ts/lib/pipeable';
-import { chain, map, fold, some, option } from 'fp-ts/lib/Option';
-import { constVoid, Predicate, constFalse } from 'fp-ts/lib/function';
+import {
+  chain,
+  map,
+  fold,
+  some,
+  option,
+  filter,
+  getOrElse,
+} from 'fp-ts/lib/Option';
+import { last } from 'fp-ts/lib/NonEmptyArray';
+import { constVoid, Predicate, constFalse, not } from 'fp-ts/lib/function';
 import { sequenceT } from 'fp-ts/lib/Apply';
 import { EditorRef, EditorIO } from '../types';
 import { usePlugin } from './usePlugin';
@@ -12,14 +21,21 @@ import {
 } from '../models/dom';
 import { tryInitNonEmptyPath } from '../models/path';
 import { DOMText, DOMRange, DOMSelection } from '../types/dom';
-import { initSelection, collapseToStart } from '../models/selection';
-import { setText } from '../models/value';
+import {
+  initSelection,
+  collapseToStart,
+  isCollapsed,
+  selectionToRange,
+} from '../models/selection';
+import { setText, getDeleteContentOperations } from '../models/value';
 
 const createHandler = ({
   afterTyping,
+  applyOperations,
   modifyValue,
   DOMRangeToSelection,
   getDOMSelection,
+  getDOMTextByPath,
 }: EditorIO) => (event: InputEvent) => () => {
   const setTextAfterTyping = (range: DOMRange) => {
     pipe(
@@ -37,11 +53,22 @@ const createHandler = ({
         ),
       ),
       fold(preventDefault(event), ({ selection, nonEmptyPath }) => {
-        const textIsGoingToBeReplacedWithBR =
+        const getText = () =>
+          pipe(
+            getDOMTextByPath(nonEmptyPath)(),
+            getOrElse(() => (range.startContainer as DOMText).data),
+          );
+        const nodeIsGoingToBeEmptied =
           range.startContainer === range.endContainer &&
           range.startOffset === 0 &&
           (range.startContainer as DOMText).data.length === range.endOffset;
-        if (textIsGoingToBeReplacedWithBR) event.preventDefault();
+        const textBeforeDelete = getText();
+        const textIsGoingToBeReplacedWithBR =
+          nodeIsGoingToBeEmptied && textBeforeDelete.length === range.endOffset;
+        // The browser would remove the emptied DOM text node of decorated
+        // text, so the text is deleted by the model.
+        if (nodeIsGoingToBeEmptied) event.preventDefault();
+        const { start, end } = selectionToRange(selection);
         const getSelectionAfterDelete = () => {
           if (!textIsGoingToBeReplacedWithBR)
             return some(collapseToStart(selection));
@@ -51,8 +78,12 @@ const createHandler = ({
           getSelectionAfterDelete(),
           fold(constVoid, async selection => {
             await afterTyping();
-            const { data } = range.startContainer as DOMText;
-            const text = textIsGoingToBeReplacedWithBR ? '' : data;
+            const text = textIsGoingToBeReplacedWithBR
+              ? ''
+              : nodeIsGoingToBeEmptied
+              ? textBeforeDelete.slice(0, last(start)) +
+                textBeforeDelete.slice(last(end))
+              : getText();
             const path = textIsGoingToBeReplacedWithBR
               ? selection.anchor
               : nonEmptyPath;
@@ -63,6 +94,19 @@ const createHandler = ({
     );
   };
 
+  // Cross-node deletion is done by the model.
+  const deleteContentAfterTyping = (range: DOMRange) => {
+    event.preventDefault();
+    pipe(
+      DOMRangeToSelection(range)(),
+      filter(not(isCollapsed)),
+      fold(constVoid, async selection => {
+        await afterTyping();
+        applyOperations(getDeleteContentOperations(selection))();
+      }),
+    );
+  };
+
   const canUseSetText: Predicate<[DOMSelection, DOMRange]> = ([selection]) =>
     pipe(
       DOMSelectionToDOMTextOffset(selection),
@@ -80,7 +124,7 @@ const createHandler = ({
       if (canUseSetText([selection, range])) {
         setTextAfterTyping(range);
       } else {
-        preventDefault(event)();
+        deleteContentAfterTyping(range);
       }
     }),
   );
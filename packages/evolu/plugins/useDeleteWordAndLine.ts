@@ -0,0 +1,42 @@
+import { pipe } from 'fp-ts/lib/pipeable';
+import { chain, filter, fold } from 'fp-ts/lib/Option';
+import { constVoid, not } from 'fp-ts/lib/function';
+import { EditorRef, EditorIO } from '../types';
+import { usePlugin } from './usePlugin';
+import { getDOMRangeFromInputEvent } from '../models/dom';
+import { isCollapsed } from '../models/selection';
+import { deleteContent } from '../models/value';
+
+const createHandler = ({
+  afterTyping,
+  modifyValue,
+  DOMRangeToSelection,
+}: EditorIO) => (event: InputEvent) => () => {
+  // Words and lines can span many nodes, so we always do it ourselves.
+  event.preventDefault();
+  pipe(
+    getDOMRangeFromInputEvent(event),
+    chain(range => DOMRangeToSelection(range)()),
+    filter(not(isCollapsed)),
+    fold(constVoid, async selection => {
+      // Wait for pending text changes.
+      await afterTyping();
+      modifyValue(deleteContent(selection))();
+    }),
+  );
+};
+
+export const useDeleteWordAndLine = (editorRef: EditorRef) => {
+  usePlugin(editorRef, {
+    start: editorIO => {
+      const handler = createHandler(editorIO);
+      editorIO.onDeleteWordBackward.write(handler)();
+      editorIO.onDeleteWordForward.write(handler)();
+      editorIO.onDeleteSoftLineBackward.write(handler)();
+      editorIO.onDeleteSoftLineForward.write(handler)();
+      editorIO.onDeleteEntireSoftLine.write(handler)();
+      editorIO.onDeleteHardLineBackward.write(handler)();
+      editorIO.onDeleteHardLineForward.write(handler)();
+    },
+  });
+};
@@ -0,0 +1,217 @@
+import { sequenceT } from 'fp-ts/lib/Apply';
+import { constVoid, not } from 'fp-ts/lib/function';
+import { IORef } from 'fp-ts/lib/IORef';
+import {
+  alt,
+  chain,
+  exists,
+  filter,
+  fold,
+  getEq,
+  map,
+  mapNullable,
+  none,
+  Option,
+  option,
+} from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { MutableRefObject, useRef } from 'react';
+import {
+  getDataTransferFromInputEvent,
+  getDOMRangeFromInputEvent,
+} from '../models/dom';
+import { getFragment } from '../models/element';
+import { dataTransferToFragment } from '../models/clipboard';
+import {
+  eqSelection,
+  isCollapsed,
+  selectionToRange,
+} from '../models/selection';
+import {
+  deleteContent,
+  insertFragment,
+  moveContent,
+  select,
+} from '../models/value';
+import { EditorIO, EditorRef, Selection } from '../types';
+import { DOMNode } from '../types/dom';
+import { usePlugin } from './usePlugin';
+
+type DropFiles = (files: File[], selection: Selection) => void;
+
+interface Drag {
+  readonly selection: Selection;
+  // Chrome dispatches deleteByDrag before insertFromDrop, when the content
+  // is moved and not copied.
+  readonly isMove: boolean;
+}
+
+const eqOptionSelection = getEq(eqSelection);
+
+const createHandlers = (
+  editorIO: EditorIO,
+  dropFilesRef: MutableRefObject<DropFiles | undefined>,
+) => {
+  const {
+    afterTyping,
+    DOMRangeToSelection,
+    getDocument,
+    getElement,
+    getSelectionFromDOM,
+    getValue,
+    modifyValue,
+    showDropCaret,
+  } = editorIO;
+  const drag = new IORef<Option<Drag>>(none);
+  const dropSelection = new IORef<Option<Selection>>(none);
+
+  // Render the caret only when it's moved, because dragover is fired often.
+  const setDropSelection = (selection: Option<Selection>) => {
+    if (eqOptionSelection.equals(dropSelection.read(), selection)) return;
+    dropSelection.write(selection)();
+    showDropCaret(selection)();
+  };
+
+  // Firefox has only caretPositionFromPoint, so it has no drop caret.
+  const getSelectionFromPoint = (event: DragEvent) =>
+    pipe(
+      getDocument(),
+      filter(document => typeof document.caretRangeFromPoint === 'function'),
+      mapNullable(document =>
+        document.caretRangeFromPoint(event.clientX, event.clientY),
+      ),
+      chain(range => DOMRangeToSelection(range)()),
+    );
+
+  const handleDragStart = () => () => {
+    drag.write(
+      pipe(
+        getSelectionFromDOM(),
+        alt(() => getValue().selection),
+        filter(not(isCollapsed)),
+        map(selection => ({ selection, isMove: false })),
+      ),
+    )();
+  };
+
+  const handleDragOver = (event: DragEvent) => () => {
+    setDropSelection(getSelectionFromPoint(event));
+  };
+
+  // Dragleave is fired for children too, so only leaving the editor counts.
+  const handleDragLeave = (event: DragEvent) => () => {
+    const { relatedTarget } = event;
+    const isInside = pipe(
+      getElement(),
+      exists(
+        element =>
+          relatedTarget != null && element.contains(relatedTarget as DOMNode),
+      ),
+    );
+    if (!isInside) setDropSelection(none);
+  };
+
+  // The content dropped into another element was moved, so it's deleted.
+  const handleDragEnd = () => () => {
+    setDropSelection(none);
+    pipe(
+      drag.read(),
+      filter(({ isMove }) => isMove),
+      fold(constVoid, ({ selection }) => {
+        modifyValue(deleteContent(selection))();
+      }),
+    );
+    drag.write(none)();
+  };
+
+  // The browser would delete the DOM itself, so the move is done by
+  // the model on insertFromDrop.
+  const handleDeleteByDrag = (event: InputEvent) => () => {
+    event.preventDefault();
+    drag.modify(map(drag => ({ ...drag, isMove: true })))();
+  };
+
+  const handleInsertFromDrop = (event: InputEvent) => () => {
+    // The browser would insert its own elements.
+    event.preventDefault();
+    const dragged = drag.read();
+    drag.write(none)();
+    const selection = pipe(
+      getDOMRangeFromInputEvent(event),
+      chain(range => DOMRangeToSelection(range)()),
+      alt(() => dropSelection.read()),
+    );
+    setDropSelection(none);
+    pipe(
+      sequenceT(option)(selection, getDataTransferFromInputEvent(event)),
+      fold(constVoid, async ([selection, dataTransfer]) => {
+        await afterTyping();
+        const files = Array.from(dataTransfer.files);
+        if (files.length > 0) {
+          if (dropFilesRef.current) dropFilesRef.current(files, selection);
+          return;
+        }
+        modifyValue(value =>
+          pipe(
+            dragged,
+            fold(
+              () =>
+                pipe(
+                  dataTransferToFragment(dataTransfer)(value),
+                  fold(
+                    () => value,
+                    fragment =>
+                      insertFragment(fragment)(select(selection)(value)),
+                  ),
+                ),
+              drag =>
+                drag.isMove
+                  ? moveContent({
+                      selection: drag.selection,
+                      point: selectionToRange(selection).start,
+                    })(value)
+                  : insertFragment(
+                      getFragment(selectionToRange(drag.selection))(
+                        value.element,
+                      ),
+                    )(select(selection)(value)),
+            ),
+          ),
+        )();
+      }),
+    );
+  };
+
+  return {
+    handleDragStart,
+    handleDragOver,
+    handleDragLeave,
+    handleDragEnd,
+    handleDeleteByDrag,
+    handleInsertFromDrop,
+  };
+};
+
+/**
+ * Drag and drop of the content inside the editor is one move, which is
+ * undone at once. External HTML and plain text are inserted like pasted.
+ * Dropped files are passed to onDropFiles instead of being inserted.
+ */
+export const useDragAndDrop = (
+  editorRef: EditorRef,
+  onDropFiles?: DropFiles,
+) => {
+  const dropFilesRef = useRef(onDropFiles);
+  dropFilesRef.current = onDropFiles;
+  usePlugin(editorRef, {
+    start: editorIO => {
+      const handlers = createHandlers(editorIO, dropFilesRef);
+      editorIO.onDragStart.write(handlers.handleDragStart)();
+      editorIO.onDragOver.write(handlers.handleDragOver)();
+      editorIO.onDragLeave.write(handlers.handleDragLeave)();
+      editorIO.onDragEnd.write(handlers.handleDragEnd)();
+      editorIO.onDeleteByDrag.write(handlers.handleDeleteByDrag)();
+      editorIO.onInsertFromDrop.write(handlers.handleInsertFromDrop)();
+    },
+  });
+};
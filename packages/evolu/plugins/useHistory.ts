@@ -0,0 +1,45 @@
+import { IO } from 'fp-ts/lib/IO';
+import { EditorRef, EditorIO } from '../types';
+import { usePlugin } from './usePlugin';
+import { recordHistory } from '../models/history';
+
+const defaultDepth = 100;
+
+const createHistoryHandler = (history: IO<void>) => (
+  event: InputEvent,
+) => () => {
+  event.preventDefault();
+  history();
+};
+
+const createKeyDownHandler = ({ onKeyDown, undo, redo }: EditorIO) => {
+  const handleKeyDown = onKeyDown.read();
+  return (event: KeyboardEvent) => () => {
+    const isModKey = event.metaKey || event.ctrlKey;
+    const key = event.key.toLowerCase();
+    if (isModKey && (key === 'z' || key === 'y')) {
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) redo();
+      else undo();
+      return;
+    }
+    handleKeyDown(event)();
+  };
+};
+
+/**
+ * Record Value snapshots for undo and redo. Use EditorIO checkpoint
+ * to start a new undo step for programmatic changes.
+ */
+export const useHistory = (editorRef: EditorRef, depth = defaultDepth) => {
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onHistoryUndo.write(createHistoryHandler(editorIO.undo))();
+      editorIO.onHistoryRedo.write(createHistoryHandler(editorIO.redo))();
+      editorIO.onKeyDown.write(createKeyDownHandler(editorIO))();
+    },
+    layoutEffect: editorIO => {
+      editorIO.history.modify(recordHistory(editorIO.getValue(), depth))();
+    },
+  });
+};
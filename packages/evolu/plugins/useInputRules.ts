@@ -0,0 +1,41 @@
+import { MutableRefObject, useRef } from 'react';
+import { EditorIO, EditorRef, InputRule } from '../types';
+import { usePlugin } from './usePlugin';
+import { applyInputRules } from '../models/inputRule';
+
+const createHandler = (
+  { afterTyping, checkpoint, getValue, onInsertText, setValue }: EditorIO,
+  rulesRef: MutableRefObject<InputRule[]>,
+) => {
+  const handleInsertText = onInsertText.read();
+  return (event: InputEvent) => async () => {
+    const previousValue = getValue();
+    handleInsertText(event)();
+    // useInsertText sets the typed text after typing as well, so the typed
+    // text is set and recorded by the history before this continues.
+    await afterTyping();
+    const value = getValue();
+    if (value === previousValue) return;
+    const nextValue = applyInputRules(rulesRef.current)(value);
+    if (nextValue === value) return;
+    // Undo reverts the rule to the typed text, and further typing
+    // is not merged with the rule.
+    checkpoint();
+    setValue(nextValue)();
+    checkpoint();
+  };
+};
+
+/**
+ * Transform the value after typing via input rules. For example,
+ * markdownInputRules.
+ */
+export const useInputRules = (editorRef: EditorRef, rules: InputRule[]) => {
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onInsertText.write(createHandler(editorIO, rulesRef))();
+    },
+  });
+};
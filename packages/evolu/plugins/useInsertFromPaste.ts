@@ -0,0 +1,72 @@
+import { constVoid } from 'fp-ts/lib/function';
+import { chain, fold, getOrElse, map, Option, some } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { MutableRefObject, useLayoutEffect, useRef } from 'react';
+import { EditorIO, EditorRef, Fragment } from '../types';
+import { usePlugin } from './usePlugin';
+import { getDataTransferFromInputEvent } from '../models/dom';
+import { dataTransferToFragment } from '../models/clipboard';
+import { insertFragment } from '../models/value';
+
+type TransformFragment = (fragment: Fragment) => Option<Fragment>;
+
+const createHandler = (
+  { afterTyping, modifyValue }: EditorIO,
+  transformRef: MutableRefObject<TransformFragment | undefined>,
+  quoteRef?: MutableRefObject<TransformFragment | undefined>,
+) => (event: InputEvent) => () => {
+  // The browser would insert its own elements.
+  event.preventDefault();
+  pipe(
+    getDataTransferFromInputEvent(event),
+    fold(constVoid, async dataTransfer => {
+      await afterTyping();
+      modifyValue(value =>
+        pipe(
+          dataTransferToFragment(dataTransfer)(value),
+          chain(fragment =>
+            quoteRef && quoteRef.current
+              ? quoteRef.current(fragment)
+              : some(fragment),
+          ),
+          chain(fragment =>
+            transformRef.current
+              ? transformRef.current(fragment)
+              : some(fragment),
+          ),
+          map(fragment => insertFragment(fragment)(value)),
+          getOrElse(() => value),
+        ),
+      )();
+    }),
+  );
+};
+
+/**
+ * Replace the selection with pasted editor fragment, HTML, or plain text.
+ * The editor fragment keeps the exact structure, HTML is sanitized via
+ * htmlToFragment, plain text lines become blocks. Use transform to adapt
+ * the fragment to the schema or to reject it with none. Quotation depends
+ * on the schema, so use quote to wrap the fragment pasted as quotation.
+ * Without it, the fragment is pasted as usual.
+ */
+export const useInsertFromPaste = (
+  editorRef: EditorRef,
+  transform?: TransformFragment,
+  quote?: TransformFragment,
+) => {
+  const transformRef = useRef(transform);
+  const quoteRef = useRef(quote);
+  useLayoutEffect(() => {
+    transformRef.current = transform;
+    quoteRef.current = quote;
+  });
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onInsertFromPaste.write(createHandler(editorIO, transformRef))();
+      editorIO.onInsertFromPasteAsQuotation.write(
+        createHandler(editorIO, transformRef, quoteRef),
+      )();
+    },
+  });
+};
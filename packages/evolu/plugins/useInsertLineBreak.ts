@@ -0,0 +1,38 @@
+import { pipe } from 'fp-ts/lib/pipeable';
+import { chain, fold } from 'fp-ts/lib/Option';
+import { constVoid } from 'fp-ts/lib/function';
+import { EditorRef, EditorIO } from '../types';
+import { usePlugin } from './usePlugin';
+import { getDOMRangeFromInputEvent } from '../models/dom';
+import { getEditOperations } from '../models/operation';
+import { deleteContentThen, insertLineBreak } from '../models/value';
+
+const createHandler = ({
+  afterTyping,
+  applyOperations,
+  DOMRangeToSelection,
+}: EditorIO) => (event: InputEvent) => () => {
+  // The browser would mutate DOM somehow, so we always do it ourselves.
+  event.preventDefault();
+  pipe(
+    getDOMRangeFromInputEvent(event),
+    chain(range => DOMRangeToSelection(range)()),
+    fold(constVoid, async selection => {
+      // Wait for pending text changes.
+      await afterTyping();
+      applyOperations(
+        deleteContentThen(selection, point =>
+          getEditOperations(insertLineBreak(point)),
+        ),
+      )();
+    }),
+  );
+};
+
+export const useInsertLineBreak = (editorRef: EditorRef) => {
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onInsertLineBreak.write(createHandler(editorIO))();
+    },
+  });
+};
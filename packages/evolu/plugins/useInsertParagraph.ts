@@ -0,0 +1,83 @@
+import { pipe } from 'fp-ts/lib/pipeable';
+import { chain, filter, fold, map, Option, some } from 'fp-ts/lib/Option';
+import { constFalse, constVoid } from 'fp-ts/lib/function';
+import { EditorRef, EditorIO, NonEmptyPath, Path } from '../types';
+import { usePlugin } from './usePlugin';
+import {
+  getDOMRangeFromInputEvent,
+  isDOMElement,
+  isDOMText,
+  isInline,
+} from '../models/dom';
+import { initNonEmptyPath, toNonEmptyPath } from '../models/path';
+import { selectionToRange } from '../models/selection';
+import { deleteContentThen, getSplitOperations } from '../models/value';
+
+const createHandler = ({
+  afterTyping,
+  applyOperations,
+  DOMRangeToSelection,
+  getComputedStyle,
+  getDOMNodeByPath,
+}: EditorIO) => (event: InputEvent) => () => {
+  // The browser would mutate DOM somehow, so we always do it ourselves.
+  event.preventDefault();
+
+  // Inline elements like links are split as a part of their block.
+  const getBlockPath = (path: Path): Option<NonEmptyPath> =>
+    pipe(
+      toNonEmptyPath(path),
+      chain(nonEmptyPath =>
+        pipe(
+          getDOMNodeByPath(nonEmptyPath)(),
+          filter(isDOMElement),
+          chain(node => getComputedStyle(node)()),
+          fold(
+            () => some(nonEmptyPath),
+            style =>
+              isInline(style)
+                ? getBlockPath(initNonEmptyPath(nonEmptyPath))
+                : some(nonEmptyPath),
+          ),
+        ),
+      ),
+    );
+
+  pipe(
+    getDOMRangeFromInputEvent(event),
+    chain(range => DOMRangeToSelection(range)()),
+    chain(selection => {
+      // Content before the start is not deleted, so its block remains.
+      const point = selectionToRange(selection).start;
+      const pathOfPointNode = initNonEmptyPath(point);
+      const pointIsInText = pipe(
+        getDOMNodeByPath(pathOfPointNode)(),
+        fold(constFalse, isDOMText),
+      );
+      return pipe(
+        pointIsInText
+          ? pipe(toNonEmptyPath(pathOfPointNode), map(initNonEmptyPath))
+          : some(pathOfPointNode),
+        chain(getBlockPath),
+        map(path => ({ path, selection })),
+      );
+    }),
+    fold(constVoid, async ({ path, selection }) => {
+      // Wait for pending text changes.
+      await afterTyping();
+      applyOperations(
+        deleteContentThen(selection, point =>
+          getSplitOperations({ path, point }),
+        ),
+      )();
+    }),
+  );
+};
+
+export const useInsertParagraph = (editorRef: EditorRef) => {
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onInsertParagraph.write(createHandler(editorIO))();
+    },
+  });
+};
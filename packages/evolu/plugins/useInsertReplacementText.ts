@@ -1,5 +1,5 @@
 import { pipe } from 'fp-ts/lib/pipeable';
-import { chain, map, fold, option } from 'fp-ts/lib/Option';
+import { alt, chain, map, fold, option } from 'fp-ts/lib/Option';
 import { sequenceT } from 'fp-ts/lib/Apply';
 import { constVoid } from 'fp-ts/lib/function';
 import { EditorRef, EditorIO } from '../types';
@@ -16,6 +16,7 @@ const createHandler = ({
   afterTyping,
   modifyValue,
   DOMRangeToSelection,
+  getDOMTextByPath,
   getSelectionFromDOM,
 }: EditorIO) => (event: InputEvent) => () =>
   pipe(
@@ -31,7 +32,10 @@ const createHandler = ({
       await afterTyping();
       pipe(
         sequenceT(option)(
-          getTextContentFromRangeStartContainer(range),
+          pipe(
+            getDOMTextByPath(path)(),
+            alt(() => getTextContentFromRangeStartContainer(range)),
+          ),
           getSelectionFromDOM(),
         ),
         fold(constVoid, ([text, selection]) => {
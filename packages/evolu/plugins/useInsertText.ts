@@ -8,6 +8,7 @@ import {
   some,
   none,
   fold,
+  getOrElse,
 } from 'fp-ts/lib/Option';
 import { snoc } from 'fp-ts/lib/NonEmptyArray';
 import { EditorRef, EditorIO } from '../types';
@@ -23,6 +24,7 @@ import {
   initNonEmptyPathWithOffset,
   toPathIndex,
   toPathDelta,
+  tryInitNonEmptyPath,
 } from '../models/path';
 import { selectionFromPath } from '../models/selection';
 import { setText } from '../models/value';
@@ -32,6 +34,7 @@ const createHandler = ({
   modifyValue,
   DOMRangeToSelection,
   getDOMSelection,
+  getDOMTextByPath,
 }: EditorIO) => (event: InputEvent) => () => {
   const setTextAfterTyping = () =>
     pipe(
@@ -52,12 +55,18 @@ const createHandler = ({
           maybeBR != null &&
           maybeBR.nodeName === 'BR';
         const getText = () => {
-          const text = range.startContainer.textContent || '';
-          if (putBRback)
-            range.startContainer.replaceChild(
-              maybeBR,
-              range.startContainer.firstChild as ChildNode,
+          // Decorated text is split into several DOM text nodes.
+          if (!putBRback)
+            return pipe(
+              tryInitNonEmptyPath(anchor),
+              chain(path => getDOMTextByPath(path)()),
+              getOrElse(() => range.startContainer.textContent || ''),
             );
+          // BR can have siblings, so we read only the inserted text node.
+          const node = range.startContainer.childNodes[range.startOffset];
+          const text = (node && node.textContent) || '';
+          if (node && node !== maybeBR)
+            range.startContainer.replaceChild(maybeBR, node);
           return text;
         };
         return pipe(
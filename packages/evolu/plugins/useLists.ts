@@ -0,0 +1,190 @@
+import { alt, filter, fold, isSome, map, Option } from 'fp-ts/lib/Option';
+import { pipe } from 'fp-ts/lib/pipeable';
+import { constVoid, Predicate } from 'fp-ts/lib/function';
+import { MutableRefObject, useLayoutEffect, useRef } from 'react';
+import {
+  EditorIO,
+  EditorRef,
+  Element,
+  ListConfig,
+  NonEmptyPath,
+  Operation,
+  Selection,
+  Value,
+} from '../types';
+import { usePlugin } from './usePlugin';
+import {
+  getIndentListItemsOperations,
+  getListItemPath,
+  isAtListItemStart,
+  isInEmptyListItem,
+  outdentListItems,
+  toggleList,
+} from '../models/list';
+import { diffValue, getEditOperations } from '../models/operation';
+import { isCollapsed, selectionToRange } from '../models/selection';
+import { select } from '../models/value';
+
+type ConfigRef = MutableRefObject<ListConfig>;
+
+type PointPredicate = (
+  config: ListConfig,
+) => (element: Element) => Predicate<NonEmptyPath>;
+
+const isInListItem: PointPredicate = config => element => point =>
+  isSome(getListItemPath(config)(element)(point));
+
+// The DOM selection is actual before the input is handled, the value selection
+// can be outdated.
+const getSelection = ({
+  getSelectionFromDOM,
+  getValue,
+}: EditorIO): Option<Selection> =>
+  pipe(
+    getSelectionFromDOM(),
+    alt(() => getValue().selection),
+  );
+
+type GetOperations = (value: Value) => Operation[];
+
+const modifyList = (
+  { afterTyping, applyOperations }: EditorIO,
+  selection: Selection,
+  getOperations: GetOperations,
+) => async () => {
+  // Wait for pending text changes.
+  await afterTyping();
+  applyOperations(value => {
+    const selected = select(selection)(value);
+    return [...diffValue(value, selected), ...getOperations(selected)];
+  })();
+};
+
+const createCommandHandler = (
+  editorIO: EditorIO,
+  getOperations: (config: ListConfig) => GetOperations,
+  configRef: ConfigRef,
+) => (event: InputEvent) => () => {
+  // The browser would insert its own elements.
+  event.preventDefault();
+  pipe(
+    getSelection(editorIO),
+    fold(constVoid, selection => {
+      modifyList(editorIO, selection, getOperations(configRef.current))();
+    }),
+  );
+};
+
+// The previous handler is called unless the collapsed selection is at the
+// point matching the predicate.
+const createInputHandler = (
+  editorIO: EditorIO,
+  handleInput: (event: InputEvent) => () => void,
+  isListPoint: PointPredicate,
+  configRef: ConfigRef,
+) => (event: InputEvent) => () => {
+  const config = configRef.current;
+  pipe(
+    getSelection(editorIO),
+    filter(isCollapsed),
+    filter(({ anchor }) =>
+      isListPoint(config)(editorIO.getValue().element)(anchor),
+    ),
+    fold(handleInput(event), selection => {
+      event.preventDefault();
+      modifyList(
+        editorIO,
+        selection,
+        getEditOperations(outdentListItems(config)),
+      )();
+    }),
+  );
+};
+
+const createKeyDownHandler = (editorIO: EditorIO, configRef: ConfigRef) => {
+  const handleKeyDown = editorIO.onKeyDown.read();
+  return (event: KeyboardEvent) => () => {
+    const config = configRef.current;
+    const isTab =
+      event.key === 'Tab' && !event.metaKey && !event.ctrlKey && !event.altKey;
+    pipe(
+      getSelection(editorIO),
+      filter(() => isTab),
+      map(selection => ({
+        selection,
+        start: selectionToRange(selection).start,
+      })),
+      filter(({ start }) =>
+        isInListItem(config)(editorIO.getValue().element)(start),
+      ),
+      fold(handleKeyDown(event), ({ selection }) => {
+        // Tab in a list does not move the focus.
+        event.preventDefault();
+        modifyList(
+          editorIO,
+          selection,
+          event.shiftKey
+            ? getEditOperations(outdentListItems(config))
+            : getIndentListItemsOperations(config),
+        )();
+      }),
+    );
+  };
+};
+
+/**
+ * Ordered and unordered list commands, and indent and outdent of list items
+ * via format input events and Tab and Shift+Tab keys. Enter in an empty item
+ * and Backspace at the start of an item lift the item.
+ */
+export const useLists = (editorRef: EditorRef, config: ListConfig) => {
+  const configRef = useRef(config);
+  useLayoutEffect(() => {
+    configRef.current = config;
+  });
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onInsertOrderedList.write(
+        createCommandHandler(
+          editorIO,
+          config => getEditOperations(toggleList(config, true)),
+          configRef,
+        ),
+      )();
+      editorIO.onInsertUnorderedList.write(
+        createCommandHandler(
+          editorIO,
+          config => getEditOperations(toggleList(config, false)),
+          configRef,
+        ),
+      )();
+      editorIO.onFormatIndent.write(
+        createCommandHandler(editorIO, getIndentListItemsOperations, configRef),
+      )();
+      editorIO.onFormatOutdent.write(
+        createCommandHandler(
+          editorIO,
+          config => getEditOperations(outdentListItems(config)),
+          configRef,
+        ),
+      )();
+      editorIO.onInsertParagraph.write(
+        createInputHandler(
+          editorIO,
+          editorIO.onInsertParagraph.read(),
+          isInEmptyListItem,
+          configRef,
+        ),
+      )();
+      editorIO.onDeleteContentBackward.write(
+        createInputHandler(
+          editorIO,
+          editorIO.onDeleteContentBackward.read(),
+          isAtListItemStart,
+          configRef,
+        ),
+      )();
+      editorIO.onKeyDown.write(createKeyDownHandler(editorIO, configRef))();
+    },
+  });
+};
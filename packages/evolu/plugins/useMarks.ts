@@ -0,0 +1,60 @@
+import { EditorRef, EditorIO, Mark } from '../types';
+import { usePlugin } from './usePlugin';
+import { toggleMark } from '../models/value';
+
+const keyMarks: { [key: string]: Mark } = {
+  b: 'bold',
+  i: 'italic',
+  u: 'underline',
+};
+
+const createFormatHandler = (
+  { afterTyping, modifyValue }: EditorIO,
+  mark: Mark,
+) => (event: InputEvent) => async () => {
+  // The browser would wrap texts in its own elements.
+  event.preventDefault();
+  // Wait for pending text changes.
+  await afterTyping();
+  modifyValue(toggleMark(mark))();
+};
+
+const createKeyDownHandler = ({
+  afterTyping,
+  modifyValue,
+  onKeyDown,
+}: EditorIO) => {
+  const handleKeyDown = onKeyDown.read();
+  return (event: KeyboardEvent) => async () => {
+    const isModKey = event.metaKey || event.ctrlKey;
+    const mark = keyMarks[event.key.toLowerCase()];
+    if (!isModKey || event.shiftKey || event.altKey || mark == null) {
+      handleKeyDown(event)();
+      return;
+    }
+    // Otherwise, the browser would dispatch format input event as well.
+    event.preventDefault();
+    await afterTyping();
+    modifyValue(toggleMark(mark))();
+  };
+};
+
+/**
+ * Toggle bold, italic, underline, and strikethrough marks via format input
+ * events and Mod+B/I/U keys.
+ */
+export const useMarks = (editorRef: EditorRef) => {
+  usePlugin(editorRef, {
+    start: editorIO => {
+      editorIO.onFormatBold.write(createFormatHandler(editorIO, 'bold'))();
+      editorIO.onFormatItalic.write(createFormatHandler(editorIO, 'italic'))();
+      editorIO.onFormatUnderline.write(
+        createFormatHandler(editorIO, 'underline'),
+      )();
+      editorIO.onFormatStrikeThrough.write(
+        createFormatHandler(editorIO, 'strikethrough'),
+      )();
+      editorIO.onKeyDown.write(createKeyDownHandler(editorIO))();
+    },
+  });
+};
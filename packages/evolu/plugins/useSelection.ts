@@ -8,7 +8,9 @@ import { select } from '../models/value';
 
 const createHandler = (editorIO: EditorIO) => () =>
   pipe(
-    editorIO.isTyping() ? none : editorIO.getSelectionFromDOM(),
+    editorIO.isTyping() || editorIO.isComposing.read()
+      ? none
+      : editorIO.getSelectionFromDOM(),
     filter(s1 =>
       pipe(
         editorIO.getValue().selection,
@@ -26,7 +28,7 @@ export const useSelection = (editorRef: EditorRef) => {
       editorIO.onSelectionChange.write(createHandler(editorIO))();
     },
     layoutEffect: editorIO => {
-      if (!editorIO.getValue().hasFocus) return;
+      if (!editorIO.getValue().hasFocus || editorIO.isComposing.read()) return;
       // It can be IORef as well, if needed.
       editorIO.ensureDOMSelectionIsActual();
     },
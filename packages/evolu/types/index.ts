@@ -1,5 +1,7 @@
+import { Endomorphism, Predicate } from 'fp-ts/lib/function';
 import { IO } from 'fp-ts/lib/IO';
 import { IORef } from 'fp-ts/lib/IORef';
+import { NonEmptyArray } from 'fp-ts/lib/NonEmptyArray';
 import { Option } from 'fp-ts/lib/Option';
 import { Task } from 'fp-ts/lib/Task';
 import * as t from 'io-ts';
@@ -81,19 +83,51 @@ export const Element: t.Type<Element, ElementOutput> = t.recursion(
 
 export const Node = t.union([Element, t.string]);
 
+export const Mark = t.keyof({
+  bold: null,
+  italic: null,
+  underline: null,
+  strikethrough: null,
+});
+
+/**
+ * Inline text formatting.
+ */
+export type Mark = t.TypeOf<typeof Mark>;
+
+/**
+ * Inline element with marks. It contains only texts, so marks are flat.
+ * Adjacent mark elements with equal marks are merged by normalization.
+ */
+export interface MarkElement extends Element {
+  readonly marks: Mark[];
+  readonly children: Text[];
+}
+
+export interface MarkElementOutput extends ElementOutput {
+  readonly marks: Mark[];
+  readonly children: string[];
+}
+
+export const MarkElement: t.Type<MarkElement, MarkElementOutput> = t.type({
+  id: ElementID,
+  marks: t.array(Mark),
+  children: t.array(t.string),
+});
+
 /**
  * Editor React-like element. It has tag and props.
  */
 export interface ReactElement extends Element {
   readonly tag: string;
   readonly props: {};
-  readonly children: (ReactElement | Text)[];
+  readonly children: (ReactElement | MarkElement | Text)[];
 }
 
 export interface ReactElementOutput extends ElementOutput {
   readonly tag: string;
   readonly props: {};
-  readonly children: (ReactElementOutput | string)[];
+  readonly children: (ReactElementOutput | MarkElementOutput | string)[];
 }
 
 export const ReactElement: t.Type<
@@ -104,7 +138,7 @@ export const ReactElement: t.Type<
     id: ElementID,
     tag: t.string,
     props: t.UnknownRecord,
-    children: t.array(t.union([ReactElement, t.string])),
+    children: t.array(t.union([ReactElement, MarkElement, t.string])),
   }),
 );
 
@@ -152,6 +186,16 @@ export const NonEmptyPath = nonEmptyArray(PathIndex);
  */
 export type NonEmptyPath = t.TypeOf<typeof NonEmptyPath>;
 
+/**
+ * The position of a path relative to another path in the tree.
+ */
+export type TreePosition =
+  | 'same'
+  | 'preceding'
+  | 'following'
+  | 'ancestor'
+  | 'descendant';
+
 /**
  * Non empty Path with offset.
  */
@@ -187,6 +231,265 @@ const Value = t.type({
  */
 export type Value = t.TypeOf<typeof Value>;
 
+const InsertTextOperation = t.type({
+  type: t.literal('insertText'),
+  path: NonEmptyPath,
+  offset: PathIndex,
+  text: t.string,
+});
+
+const RemoveTextOperation = t.type({
+  type: t.literal('removeText'),
+  path: NonEmptyPath,
+  offset: PathIndex,
+  text: t.string,
+});
+
+const InsertNodeOperation = t.type({
+  type: t.literal('insertNode'),
+  path: NonEmptyPath,
+  node: Node,
+});
+
+const RemoveNodeOperation = t.type({
+  type: t.literal('removeNode'),
+  path: NonEmptyPath,
+  node: Node,
+});
+
+// The second part of the split element gets properties, for example new ID.
+const SplitNodeOperation = t.type({
+  type: t.literal('splitNode'),
+  path: NonEmptyPath,
+  position: PathIndex,
+  properties: t.UnknownRecord,
+});
+
+// The node is merged into its previous sibling. Position and properties
+// are required for the inversion.
+const MergeNodeOperation = t.type({
+  type: t.literal('mergeNode'),
+  path: NonEmptyPath,
+  position: PathIndex,
+  properties: t.UnknownRecord,
+});
+
+// New path is the path after the node is removed.
+const MoveNodeOperation = t.type({
+  type: t.literal('moveNode'),
+  path: NonEmptyPath,
+  newPath: NonEmptyPath,
+});
+
+// Properties are previous values of changed element fields, except children.
+const SetPropsOperation = t.type({
+  type: t.literal('setProps'),
+  path: Path,
+  properties: t.UnknownRecord,
+  newProperties: t.UnknownRecord,
+});
+
+const SetSelectionOperation = t.type({
+  type: t.literal('setSelection'),
+  selection: option(Selection),
+  newSelection: option(Selection),
+});
+
+export const Operation = t.union([
+  InsertTextOperation,
+  RemoveTextOperation,
+  InsertNodeOperation,
+  RemoveNodeOperation,
+  SplitNodeOperation,
+  MergeNodeOperation,
+  MoveNodeOperation,
+  SetPropsOperation,
+  SetSelectionOperation,
+]);
+
+/**
+ * Serializable change of Value. Every edit can be expressed as a list
+ * of operations, and every operation can be inverted.
+ */
+export type Operation = t.TypeOf<typeof Operation>;
+
+const CrdtID = t.type({
+  counter: t.number,
+  replica: t.string,
+});
+
+/**
+ * Lamport timestamp of CRDT change. Unique, because the replica is unique.
+ */
+export type CrdtID = t.TypeOf<typeof CrdtID>;
+
+// Text is inserted as chars with consecutive counters.
+const CrdtItemValue = t.union([
+  t.type({ type: t.literal('text'), text: t.string }),
+  t.type({ type: t.literal('br') }),
+  t.type({ type: t.literal('element'), id: ElementID }),
+]);
+
+export const CrdtChange = t.union([
+  t.type({
+    type: t.literal('setRoot'),
+    id: ElementID,
+    timestamp: CrdtID,
+  }),
+  t.type({
+    type: t.literal('insert'),
+    id: CrdtID,
+    parent: ElementID,
+    after: t.union([CrdtID, t.null]),
+    value: CrdtItemValue,
+  }),
+  t.type({
+    type: t.literal('delete'),
+    parent: ElementID,
+    target: CrdtID,
+  }),
+  t.type({
+    type: t.literal('setProp'),
+    element: ElementID,
+    key: t.string,
+    value: t.unknown,
+    timestamp: CrdtID,
+  }),
+  t.type({
+    type: t.literal('removeProp'),
+    element: ElementID,
+    key: t.string,
+    timestamp: CrdtID,
+  }),
+]);
+
+/**
+ * Serializable CRDT change. Children are a sequence CRDT (RGA),
+ * element fields except children are last writer wins registers.
+ */
+export type CrdtChange = t.TypeOf<typeof CrdtChange>;
+
+/**
+ * Runtime schema of Element tree. It's io-ts decoder, so element types can be
+ * defined with io-ts like ReactElement.
+ */
+export type Schema = t.Decoder<unknown, Element>;
+
+/**
+ * Schema error with the path to the invalid node.
+ */
+export interface SchemaViolation {
+  readonly path: Path;
+  readonly message: string;
+}
+
+/**
+ * Normalization rule. It must return the same element when there is nothing
+ * to normalize, because rules are applied until nothing changes.
+ */
+export interface NormalizationRule {
+  (element: Element): Element;
+}
+
+/**
+ * Input rule transforms the value after typing, when the text before
+ * the caret matches the regExp. The regExp should end with $. The range is
+ * the range of the match in the text.
+ */
+export interface InputRule {
+  readonly regExp: RegExp;
+  readonly apply: (match: RegExpExecArray, range: Range) => Endomorphism<Value>;
+}
+
+/**
+ * List elements of the schema. List items have inline children, optionally
+ * followed by a nested list.
+ */
+export interface ListConfig {
+  readonly isList: Predicate<Element>;
+  readonly isOrderedList: Predicate<Element>;
+  readonly isListItem: Predicate<Element>;
+  readonly createList: (ordered: boolean, items: Element[]) => Element;
+  readonly createListItem: (children: Node[]) => Element;
+  // The block of an item lifted out of the list.
+  readonly createBlock: (children: Node[]) => Element;
+}
+
+export interface RepairElement {
+  (element: Element, violations: SchemaViolation[]): Option<Element>;
+}
+
+export interface PlainTextOptions {
+  /**
+   * Separates texts of blocks. The default is a newline.
+   */
+  readonly blockSeparator?: string;
+  /**
+   * Inline elements do not separate texts. The default is isInlineElement.
+   * With a rendered editor, it can check the computed style via isInline.
+   */
+  readonly isInline?: (element: Element) => boolean;
+}
+
+export interface FindOptions {
+  /**
+   * Overrides the default of the query. Strings are case insensitive,
+   * and RegExps have the i flag.
+   */
+  readonly caseSensitive?: boolean;
+  /**
+   * Match only whole words, like RegExp \b.
+   */
+  readonly wholeWord?: boolean;
+}
+
+export type DecorationAttrs = Pick<
+  React.HTMLAttributes<HTMLSpanElement>,
+  'className' | 'style' | 'title'
+> & {
+  // Data attributes.
+  readonly [attr: string]: unknown;
+};
+
+/**
+ * Highlighted range rendered as span elements with attrs. Decorations are
+ * not a part of the value, so they are not persisted nor undoable.
+ */
+export interface Decoration {
+  readonly selection: Selection;
+  readonly attrs: DecorationAttrs;
+}
+
+/**
+ * Decoration range within a text.
+ */
+export interface TextDecoration {
+  readonly start: number;
+  readonly end: number;
+  readonly attrs: DecorationAttrs;
+}
+
+/**
+ * Part of a text split at decoration boundaries.
+ */
+export interface TextSegment {
+  readonly text: string;
+  readonly attrs: DecorationAttrs[];
+}
+
+export interface FindQuery {
+  readonly query: string | RegExp;
+  readonly options: FindOptions;
+}
+
+/**
+ * Markdown for an element elementToMarkdown does not know.
+ * Children are already converted.
+ */
+export interface MarkdownFallback {
+  (element: Element, children: string): string;
+}
+
 /**
  * Editor range. It's like DOM Range, but with editor path for the start and the end.
  * Range should be an implementation detail when an operation needs the direction.
@@ -204,6 +507,10 @@ export interface GetDOMNodeByPath {
   (path: Path): IO<Option<DOMNode>>;
 }
 
+export interface GetDOMNodesByPath {
+  (path: Path): IO<DOMNode[]>;
+}
+
 export interface GetPathByDOMNode {
   (node: DOMNode): IO<Option<Path>>;
 }
@@ -213,7 +520,8 @@ export interface SetDOMNodePathRef {
 }
 
 export interface SetDOMNodePath {
-  (operation: 'add' | 'remove', node: DOMNode, path: Path): void;
+  // Decorated texts have several DOM nodes, so they have indexes.
+  (operation: 'add' | 'remove', node: DOMNode, path: Path, index?: number): void; // prettier-ignore
 }
 
 export interface RenderElement {
@@ -236,10 +544,87 @@ export type EditorProps = EditorElementAttrs & {
   readonly value: Value;
   readonly onChange: (value: Value) => void;
   readonly renderElement?: RenderElement;
+  /**
+   * The maximum number of undo steps. The default is 100.
+   */
+  readonly historyDepth?: number;
+  /**
+   * Transform pasted fragment to fit the schema. Return none to reject it.
+   */
+  readonly transformPastedFragment?: (fragment: Fragment) => Option<Fragment>;
+  /**
+   * Wrap the fragment pasted as quotation, for example in blockquote. Return
+   * none to reject it. Without it, the fragment is pasted as usual.
+   */
+  readonly quotePastedFragment?: (fragment: Fragment) => Option<Fragment>;
+  /**
+   * Called with operations of every change, before onChange.
+   */
+  readonly onOperations?: (operations: Operation[]) => void;
+  /**
+   * Carets and selections of collaborators. Selections with paths which do
+   * not exist are not rendered.
+   */
+  readonly remoteSelections?: RemoteSelection[];
+  /**
+   * Highlights for the current value, like search hits or lint warnings.
+   * Decorated texts are split into spans, but typing into them works.
+   * Memoize the function, because it's called for every value.
+   */
+  readonly decorate?: (value: Value) => Decoration[];
+  /**
+   * Dropped files are not inserted, because only the app knows how. Insert
+   * them at the drop selection, for example as images.
+   */
+  readonly onDropFiles?: (files: File[], selection: Selection) => void;
+  /**
+   * Changes producing elements invalid by the schema are rejected.
+   */
+  readonly schema?: Schema;
+  /**
+   * Repair invalid element instead of rejecting the change. The repaired
+   * element is validated again.
+   */
+  readonly repairElement?: RepairElement;
+  /**
+   * Applied to the value and to every change, on the server too.
+   * The selection is not transformed, so rules should not remove selected nodes.
+   */
+  readonly normalizationRules?: NormalizationRule[];
+  /**
+   * Autoformat while typing. For example, markdownInputRules.
+   * Undo reverts the rule to the typed text.
+   */
+  readonly inputRules?: InputRule[];
+  /**
+   * List elements for list commands, Tab, Enter, and Backspace in lists.
+   * The default is reactListConfig with ul, ol, li, and p.
+   */
+  readonly listConfig?: ListConfig;
 };
 
+/**
+ * Selection of another user, for example a collaborator.
+ */
+export interface RemoteSelection {
+  readonly id: string;
+  readonly name: string;
+  readonly color: string;
+  readonly selection: Selection;
+}
+
 export type InputEventIORef = IORef<(event: InputEvent) => IO<void>>;
 
+export type KeyboardEventIORef = IORef<(event: KeyboardEvent) => IO<void>>;
+
+export type CompositionEventIORef = IORef<
+  (event: CompositionEvent) => IO<void>
+>;
+
+export type DragEventIORef = IORef<(event: DragEvent) => IO<void>>;
+
+export type ClipboardEventIORef = IORef<(event: ClipboardEvent) => IO<void>>;
+
 /**
  * Editor side effects. There are two abstractions meant for side effects:
  * IO (synchronous) and Task (asynchronous). Both of them have the -Either
@@ -247,28 +632,59 @@ export type InputEventIORef = IORef<(event: InputEvent) => IO<void>>;
  */
 export interface EditorIO {
   readonly afterTyping: Task<void>;
+  // Apply operations of the edit, so they are reported as they are.
+  readonly applyOperations: (getOperations: (value: Value) => Operation[]) => IO<void>; // prettier-ignore
+  readonly canRedo: IO<boolean>;
+  readonly canUndo: IO<boolean>;
+  readonly checkpoint: IO<void>;
   readonly createDOMRange: IO<Option<DOMRange>>;
   readonly createInfo: (selection: Selection) => Info; // TODO: IO
+  // Info of the current value selection. It's memoized per Value.
+  readonly getInfo: IO<Option<Info>>;
   readonly DOMRangeToSelection: (range: DOMRange) => IO<Option<Selection>>;
   readonly ensureDOMSelectionIsActual: IO<void>;
+  // Find matches in the value and highlight them. An empty query clears them.
+  readonly find: (query: string | RegExp, options?: FindOptions) => IO<Selection[]>; // prettier-ignore
   readonly focus: IO<void>;
   readonly getComputedStyle: (el: DOMElement) => IO<Option<CSSStyleDeclaration>>; // prettier-ignore
   readonly getDocument: IO<Option<Document>>;
   readonly getDOMNodeByPath: GetDOMNodeByPath;
   readonly getDOMSelection: IO<Option<DOMSelection>>;
+  // Text content of all DOM nodes of the text, which can be decorated.
+  readonly getDOMTextByPath: (path: NonEmptyPath) => IO<Option<string>>;
   readonly getElement: IO<Option<HTMLDivElement>>;
   readonly getPathByDOMNode: GetPathByDOMNode;
   readonly getSelectionFromDOM: IO<Option<Selection>>;
   readonly getValue: IO<Value>;
   readonly getWindow: IO<Option<Window>>;
+  readonly history: IORef<History>;
+  // The browser owns the DOM during composition, so it's not synced.
+  readonly isComposing: IORef<boolean>;
   readonly isTyping: IO<boolean>;
   readonly modifyValue: (callback: (value: Value) => Value) => IO<void>;
   readonly pathToNodeOffset: (path: NonEmptyPath) => IO<Option<DOMNodeOffset>>;
+  readonly redo: IO<void>;
+  // Replace all matches of the last find. Undo reverts them at once.
+  readonly replaceAll: (replacement: string) => IO<void>;
+  // Select the next match of the last find.
+  readonly selectNextMatch: IO<void>;
   readonly setDOMSelection: (selection: Selection) => IO<void>;
   readonly setValue: (value: Value) => IO<void>;
+  // The caret of the place where dragged content would be dropped.
+  readonly showDropCaret: (selection: Option<Selection>) => IO<void>;
+  readonly undo: IO<void>;
   // DOM Events.
   readonly onBlur: IORef<IO<void>>;
+  readonly onCompositionEnd: CompositionEventIORef;
+  readonly onCompositionStart: CompositionEventIORef;
+  readonly onCopy: ClipboardEventIORef;
+  readonly onCut: ClipboardEventIORef;
+  readonly onDragEnd: DragEventIORef;
+  readonly onDragLeave: DragEventIORef;
+  readonly onDragOver: DragEventIORef;
+  readonly onDragStart: DragEventIORef;
   readonly onFocus: IORef<IO<void>>;
+  readonly onKeyDown: KeyboardEventIORef;
   readonly onSelectionChange: IORef<IO<void>>;
   // https://www.w3.org/TR/input-events-2/
   readonly onInsertText: InputEventIORef;
@@ -324,18 +740,53 @@ export interface EditorIO {
 
 export type EditorRef = RefObject<EditorIO>;
 
-// TODO: Fragment, probably Child[].
+/**
+ * CRDT replica of Element. Pass the element from onChange to setElement,
+ * send local changes to other replicas, and apply their changes.
+ */
+export interface CrdtReplica {
+  readonly getElement: IO<Option<Element>>;
+  // Local edits are converted to changes by comparing elements by ID.
+  // The element must be normalized, because adjacent texts are merged.
+  readonly setElement: (element: Element) => IO<void>;
+  // Changes can arrive in any order, they are applied when possible.
+  readonly applyRemote: (changes: CrdtChange[]) => IO<void>;
+  // Local changes since the last call.
+  readonly getLocalChanges: IO<CrdtChange[]>;
+}
+
+/**
+ * Undo and redo stacks of Value snapshots. Snapshots are cheap, because
+ * unchanged nodes are shared between values.
+ */
+export interface History {
+  readonly undos: Value[];
+  readonly redos: Value[];
+  // The last recorded value.
+  readonly current: Option<Value>;
+  // The path of the last typed text. Typing into it is merged into one step.
+  readonly typingPath: Option<NonEmptyPath>;
+}
+
+export const Fragment = t.array(Node);
+
+/**
+ * Part of a document, for example pasted content. Texts and mark elements are
+ * inline, other elements are blocks.
+ */
+export type Fragment = Node[];
 
 export interface NodeInfo {
   readonly node: Node;
   readonly path: NonEmptyPath;
-  // readonly text: string;
-  // readonly parents: NonEmptyArray<Element>;
-  // readonly parentBlocks: NonEmptyArray<Element>;
-  // readonly previousSibling: Option<Child>;
-  // readonly nextSibling: Option<Child>;
-  // readonly textOffset: Option<number>;
-  // readonly allChildrenCount: number;
+  // From the closest parent to the root.
+  readonly parents: NonEmptyArray<Element>;
+  // From the closest parent block to the root, which is always a block.
+  readonly parentBlocks: NonEmptyArray<Element>;
+  readonly previousSibling: Option<Node>;
+  readonly nextSibling: Option<Node>;
+  // Start and end offsets of the selected part of text. None for elements.
+  readonly textOffsets: Option<[number, number]>;
 }
 
 /**
@@ -343,9 +794,10 @@ export interface NodeInfo {
  * toolbars and operations.
  */
 export interface Info {
-  // selection: Selection;
-  // range: Range;
-  nodes: NodeInfo[];
-  // text: Node;
-  // range position
+  readonly selection: Selection;
+  readonly range: Range;
+  // Selected nodes in document order. Parents precede their children.
+  readonly nodes: NodeInfo[];
+  // Selected plain text.
+  readonly text: string;
 }
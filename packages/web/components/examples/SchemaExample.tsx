@@ -9,15 +9,23 @@ import {
   Value,
   useLogValue,
   Editor,
+  ElementID,
+  exactTuple,
+  ElementOutput,
+  Schema,
+  VoidChildren,
+  ListConfig,
 } from 'evolu';
 import { absurd } from 'fp-ts/lib/function';
+import * as t from 'io-ts';
+import { nonEmptyArray } from 'io-ts-types/lib/nonEmptyArray';
 import React, { ReactNode, useCallback, useState } from 'react';
 import { fromNullable } from 'fp-ts/lib/Option';
 import { Text as AppText } from '../Text';
 import { defaultEditorProps } from './_defaultEditorProps';
 
 // We can describe a schema with TypeScript pretty well.
-// Runtime validation should be possible with awesome gcanti/io-ts.
+// Runtime validation is done with awesome gcanti/io-ts.
 
 interface SchemaElement extends Element {
   type: string;
@@ -58,6 +66,7 @@ interface SchemaListItemElement extends SchemaElement {
 
 interface SchemaListElement extends SchemaElement {
   type: 'list';
+  ordered?: boolean;
   children: SchemaListItemElement[];
 }
 
@@ -79,6 +88,102 @@ export interface SchemaDocumentElement extends SchemaElement {
   )[];
 }
 
+// Runtime schema. Edits producing invalid elements are rejected.
+
+interface HeadingTextBrand {
+  readonly HeadingText: unique symbol;
+}
+
+// Heading is short, so typing more is rejected.
+const HeadingText = t.brand(
+  t.string,
+  (text): text is t.Branded<string, HeadingTextBrand> => text.length <= 16,
+  'HeadingText',
+);
+
+const SchemaHeadingElement = t.type({
+  id: ElementID,
+  type: t.literal('heading'),
+  children: exactTuple(t.tuple([HeadingText])),
+});
+
+const SchemaLinkElement = t.type({
+  id: ElementID,
+  type: t.literal('link'),
+  href: t.string,
+  children: exactTuple(t.tuple([t.string])),
+});
+
+const SchemaParagraphElement = t.type({
+  id: ElementID,
+  type: t.literal('paragraph'),
+  children: nonEmptyArray(t.union([t.string, SchemaLinkElement])),
+});
+
+const SchemaListItemElement: t.Type<
+  SchemaListItemElement,
+  ElementOutput
+> = t.recursion('SchemaListItemElement', () =>
+  t.type({
+    id: ElementID,
+    type: t.literal('listitem'),
+    children: t.union([
+      exactTuple(t.tuple([t.string])),
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      exactTuple(t.tuple([t.string, SchemaListElement])),
+    ]),
+  }),
+);
+
+const SchemaListElement: t.Type<SchemaListElement, ElementOutput> = t.recursion(
+  'SchemaListElement',
+  () =>
+    t.intersection([
+      t.type({
+        id: ElementID,
+        type: t.literal('list'),
+        children: t.array(SchemaListItemElement),
+      }),
+      t.partial({ ordered: t.boolean }),
+    ]),
+);
+
+const SchemaImageElement = t.type({
+  id: ElementID,
+  type: t.literal('image'),
+  src: t.string,
+  alt: t.string,
+  width: t.number,
+  height: t.number,
+  children: VoidChildren,
+});
+
+export const schema: Schema = t.type({
+  id: ElementID,
+  type: t.literal('document'),
+  children: t.array(
+    t.union([
+      SchemaHeadingElement,
+      SchemaParagraphElement,
+      SchemaListElement,
+      SchemaImageElement,
+    ]),
+  ),
+});
+
+// List commands, Tab, Enter, and Backspace create elements of the schema.
+const listConfig: ListConfig = {
+  isList: element => (element as SchemaElement).type === 'list',
+  isOrderedList: element => (element as SchemaListElement).ordered === true,
+  isListItem: element => (element as SchemaElement).type === 'listitem',
+  createList: (ordered, items) =>
+    ({ id: id(), type: 'list', ordered, children: items } as SchemaListElement),
+  createListItem: children =>
+    ({ id: id(), type: 'listitem', children } as SchemaListItemElement),
+  createBlock: children =>
+    ({ id: id(), type: 'paragraph', children } as SchemaParagraphElement),
+};
+
 // Exported for testEditorServer.
 export const initialValue = createValue<SchemaDocumentElement>({
   element: {
@@ -235,6 +340,8 @@ export const SchemaExample = ({
         value={value}
         onChange={handleEditorChange}
         renderElement={renderElement}
+        schema={schema}
+        listConfig={listConfig}
       />
       {logValueElement}
       <div style={{ marginBottom: 24 }}>
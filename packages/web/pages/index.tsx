@@ -48,8 +48,22 @@ const Index = () => {
         <LinkToTest name="testAutoFocusBoth" />
         <LinkToTest name="testAutoFocusFirst" />
         <LinkToTest name="testAutoFocusSecond" />
+        <LinkToTest name="testClipboard" />
+        <LinkToTest name="testComposition" />
+        <LinkToTest name="testDecorations" />
+        <LinkToTest name="testDeleteWordAndLine" />
+        <LinkToTest name="testDragAndDrop" />
         <LinkToTest name="testEditorServer" />
+        <LinkToTest name="testFind" />
+        <LinkToTest name="testInputRules" />
+        <LinkToTest name="testInsertLineBreak" />
+        <LinkToTest name="testLists" />
+        <LinkToTest name="testMarks" />
+        <LinkToTest name="testNormalizationRules" />
         <LinkToTest name="testNormalizeEditorElement" />
+        <LinkToTest name="testPaste" />
+        <LinkToTest name="testRemoteSelections" />
+        <LinkToTest name="testSchema" />
         <LinkToTest name="testSelection" />
         <LinkToTest name="testSelectionHasFocusNoSelection" />
         <LinkToTest name="testSelectionNoFocusNoSelection" />
@@ -0,0 +1,30 @@
+import { createValue, Editor, id, ReactElement, unsafeSelection } from 'evolu';
+import { some } from 'fp-ts/lib/Option';
+import React, { useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [
+      {
+        id: id(),
+        tag: 'p',
+        props: {},
+        children: ['ab', { id: id(), marks: ['bold'], children: ['cd'] }],
+      },
+      { id: id(), tag: 'p', props: {}, children: ['ef'] },
+    ],
+  },
+  hasFocus: true,
+  selection: some(unsafeSelection({ anchor: [0, 0, 1], focus: [0, 1, 0, 1] })),
+});
+
+const TestClipboard = () => {
+  const [value, setValue] = useState(initialValue);
+
+  return <Editor value={value} onChange={setValue} />;
+};
+
+export default TestClipboard;
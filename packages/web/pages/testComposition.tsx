@@ -0,0 +1,25 @@
+import { createValue, Editor, id, ReactElement, unsafeSelection } from 'evolu';
+import { some } from 'fp-ts/lib/Option';
+import React, { useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [
+      { id: id(), tag: 'p', props: {}, children: ['ab'] },
+      { id: id(), tag: 'p', props: {}, children: [''] },
+    ],
+  },
+  hasFocus: true,
+  selection: some(unsafeSelection({ anchor: [0, 0, 1], focus: [0, 0, 1] })),
+});
+
+const TestComposition = () => {
+  const [value, setValue] = useState(initialValue);
+
+  return <Editor value={value} onChange={setValue} />;
+};
+
+export default TestComposition;
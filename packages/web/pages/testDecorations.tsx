@@ -0,0 +1,41 @@
+import {
+  createValue,
+  Decoration,
+  Editor,
+  findMatches,
+  id,
+  ReactElement,
+  unsafeSelection,
+  Value,
+} from 'evolu';
+import { some } from 'fp-ts/lib/Option';
+import React, { useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [{ id: id(), tag: 'p', props: {}, children: ['a teh b'] }],
+  },
+  hasFocus: true,
+  selection: some(unsafeSelection({ anchor: [0, 0, 3], focus: [0, 0, 3] })),
+});
+
+// Typos as lint warnings.
+const decorate = (value: Value): Decoration[] =>
+  findMatches('teh', { wholeWord: true })(value.element).map(selection => ({
+    selection,
+    attrs: {
+      className: 'typo',
+      style: { textDecoration: 'underline wavy red' },
+    },
+  }));
+
+const TestDecorations = () => {
+  const [value, setValue] = useState(initialValue);
+
+  return <Editor value={value} onChange={setValue} decorate={decorate} />;
+};
+
+export default TestDecorations;
@@ -0,0 +1,58 @@
+import {
+  createValue,
+  Editor,
+  id,
+  ReactElement,
+  unsafeSelection,
+  useEditorRef,
+} from 'evolu';
+import { some } from 'fp-ts/lib/Option';
+import React, { useCallback, useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [
+      { id: id(), tag: 'p', props: {}, children: ['abc'] },
+      { id: id(), tag: 'p', props: {}, children: ['def'] },
+    ],
+  },
+  hasFocus: true,
+  selection: some(unsafeSelection({ anchor: [0, 0, 0], focus: [0, 0, 1] })),
+});
+
+const TestDragAndDrop = () => {
+  const [value, setValue] = useState(initialValue);
+  const [files, setFiles] = useState<string[]>([]);
+  const editorRef = useEditorRef();
+
+  const handleDropFiles = useCallback((files: File[]) => {
+    setFiles(files.map(file => file.name));
+  }, []);
+
+  return (
+    <>
+      <Editor
+        ref={editorRef}
+        value={value}
+        onChange={setValue}
+        onDropFiles={handleDropFiles}
+      />
+      <div className="files">{files.join()}</div>
+      <button
+        className="undo"
+        type="button"
+        onMouseDown={event => {
+          event.preventDefault();
+          if (editorRef.current) editorRef.current.undo();
+        }}
+      >
+        undo
+      </button>
+    </>
+  );
+};
+
+export default TestDragAndDrop;
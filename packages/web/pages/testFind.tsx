@@ -0,0 +1,89 @@
+import {
+  createValue,
+  Editor,
+  id,
+  ReactElement,
+  useEditorRef,
+  useLogValue,
+  Value,
+} from 'evolu';
+import React, { useCallback, useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: {
+      className: 'root',
+    },
+    children: [
+      {
+        id: id(),
+        tag: 'p',
+        props: {},
+        children: ['foo bar Foo'],
+      },
+      {
+        id: id(),
+        tag: 'p',
+        props: {},
+        children: ['food ', { id: id(), marks: ['bold'], children: ['foo'] }],
+      },
+    ],
+  },
+});
+
+const TestFind = () => {
+  const [value, setValue] = useState(initialValue);
+
+  const [logValue, logValueElement] = useLogValue(value);
+
+  const handleEditorChange = useCallback(
+    (value: Value) => {
+      logValue(value);
+      setValue(value);
+    },
+    [logValue],
+  );
+
+  const editorRef = useEditorRef();
+
+  const button = (className: string, onClick: () => void) => (
+    <button
+      className={className}
+      type="button"
+      onMouseDown={event => {
+        event.preventDefault();
+        onClick();
+      }}
+    >
+      {className}
+    </button>
+  );
+
+  return (
+    <>
+      <Editor ref={editorRef} value={value} onChange={handleEditorChange} />
+      {logValueElement}
+      <div>
+        {button('find', () => {
+          if (editorRef.current)
+            editorRef.current.find('foo', { wholeWord: true })();
+        })}
+        {button('select-next', () => {
+          if (!editorRef.current) return;
+          editorRef.current.focus();
+          editorRef.current.selectNextMatch();
+        })}
+        {button('replace-all', () => {
+          if (editorRef.current) editorRef.current.replaceAll('baz')();
+        })}
+        {button('undo', () => {
+          if (editorRef.current) editorRef.current.undo();
+        })}
+      </div>
+    </>
+  );
+};
+
+export default TestFind;
@@ -0,0 +1,31 @@
+import {
+  createValue,
+  Editor,
+  id,
+  markdownInputRules,
+  ReactElement,
+  unsafeSelection,
+} from 'evolu';
+import { some } from 'fp-ts/lib/Option';
+import React, { useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [{ id: id(), tag: 'p', props: {}, children: ['x'] }],
+  },
+  hasFocus: true,
+  selection: some(unsafeSelection({ anchor: [0, 0, 0], focus: [0, 0, 0] })),
+});
+
+const TestInputRules = () => {
+  const [value, setValue] = useState(initialValue);
+
+  return (
+    <Editor value={value} onChange={setValue} inputRules={markdownInputRules} />
+  );
+};
+
+export default TestInputRules;
@@ -0,0 +1,8 @@
+import React from 'react';
+import { BasicExample } from '../components/examples/BasicExample';
+
+const TestInsertLineBreak = () => {
+  return <BasicExample autoFocus />;
+};
+
+export default TestInsertLineBreak;
@@ -0,0 +1,35 @@
+import { createValue, Editor, id, ReactElement, unsafeSelection } from 'evolu';
+import { some } from 'fp-ts/lib/Option';
+import React, { useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: { className: 'root' },
+    children: [
+      {
+        id: id(),
+        tag: 'ul',
+        props: {},
+        children: [
+          { id: id(), tag: 'li', props: {}, children: ['a'] },
+          { id: id(), tag: 'li', props: {}, children: ['b'] },
+          { id: id(), tag: 'li', props: {}, children: ['c'] },
+        ],
+      },
+    ],
+  },
+  hasFocus: true,
+  selection: some(
+    unsafeSelection({ anchor: [0, 1, 0, 1], focus: [0, 1, 0, 1] }),
+  ),
+});
+
+const TestLists = () => {
+  const [value, setValue] = useState(initialValue);
+
+  return <Editor value={value} onChange={setValue} />;
+};
+
+export default TestLists;
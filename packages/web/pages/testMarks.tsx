@@ -0,0 +1,8 @@
+import React from 'react';
+import { BasicExample } from '../components/examples/BasicExample';
+
+const TestMarks = () => {
+  return <BasicExample autoFocus />;
+};
+
+export default TestMarks;
@@ -0,0 +1,81 @@
+import {
+  allowChildren,
+  createValue,
+  Editor,
+  EditorServer,
+  ElementID,
+  ensureChildren,
+  ensureTrailingChild,
+  id,
+  Node,
+  ReactElement,
+  unwrapEmptyInlines,
+} from 'evolu';
+import React, { useState } from 'react';
+
+const isTag = (tag: string) => (node: Node) =>
+  typeof node !== 'string' && (node as ReactElement).tag === tag;
+
+const normalizationRules = [
+  ensureChildren(isTag('p'), () => ''),
+  allowChildren(isTag('ul'), isTag('li')),
+  unwrapEmptyInlines(isTag('a')),
+  ensureTrailingChild(
+    isTag('div'),
+    isTag('p'),
+    // The ID is derived from the parent, so the server and the client
+    // create the same element.
+    (parent): ReactElement => ({
+      id: `${parent.id}-p` as ElementID,
+      tag: 'p',
+      props: {},
+      children: [''],
+    }),
+  ),
+];
+
+const element = {
+  id: id(),
+  tag: 'div',
+  props: { className: 'root' },
+  children: [
+    { id: id(), tag: 'p', props: {}, children: [] },
+    {
+      id: id(),
+      tag: 'ul',
+      props: {},
+      children: [{ id: id(), tag: 'li', props: {}, children: ['a'] }, 'b'],
+    },
+    {
+      id: id(),
+      tag: 'p',
+      props: {},
+      children: ['c', { id: id(), tag: 'a', props: {}, children: [''] }],
+    },
+    { id: id(), tag: 'ul', props: {}, children: [] },
+  ],
+} as ReactElement;
+
+const TestNormalizationRules = () => {
+  const [value, setValue] = useState(createValue({ element }));
+
+  return (
+    <>
+      <div className="server">
+        <EditorServer
+          element={element}
+          normalizationRules={normalizationRules}
+        />
+      </div>
+      <div className="client">
+        <Editor
+          value={value}
+          onChange={setValue}
+          normalizationRules={normalizationRules}
+        />
+      </div>
+    </>
+  );
+};
+
+export default TestNormalizationRules;
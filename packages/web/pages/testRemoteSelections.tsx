@@ -0,0 +1,105 @@
+import {
+  createValue,
+  Editor,
+  id,
+  ReactElement,
+  RemoteSelection,
+  unsafeSelection,
+  useLogValue,
+  Value,
+} from 'evolu';
+import React, { useCallback, useState } from 'react';
+
+const initialValue = createValue<ReactElement>({
+  element: {
+    id: id(),
+    tag: 'div',
+    props: {
+      className: 'root',
+    },
+    children: [
+      {
+        id: id(),
+        tag: 'div',
+        props: {
+          style: { fontSize: '24px' },
+        },
+        children: ['heading'],
+      },
+      {
+        id: id(),
+        tag: 'div',
+        props: {
+          style: { fontSize: '16px' },
+        },
+        children: ['paragraph'],
+      },
+    ],
+  },
+});
+
+const remoteSelections: RemoteSelection[] = [
+  {
+    id: 'alice',
+    name: 'Alice',
+    color: '#e91e63',
+    selection: unsafeSelection({ anchor: [0, 0, 2], focus: [0, 0, 2] }),
+  },
+  {
+    id: 'bob',
+    name: 'Bob',
+    color: '#2196f3',
+    selection: unsafeSelection({ anchor: [1, 0, 0], focus: [1, 0, 4] }),
+  },
+  {
+    id: 'carol',
+    name: 'Carol',
+    color: '#4caf50',
+    selection: unsafeSelection({ anchor: [5, 0, 0], focus: [5, 0, 0] }),
+  },
+];
+
+const TestRemoteSelections = () => {
+  const [value, setValue] = useState(initialValue);
+
+  const [logValue, logValueElement] = useLogValue(value);
+
+  const handleEditorChange = useCallback(
+    (value: Value) => {
+      logValue(value);
+      setValue(value);
+    },
+    [logValue],
+  );
+
+  return (
+    <>
+      <Editor
+        value={value}
+        onChange={handleEditorChange}
+        remoteSelections={remoteSelections}
+      />
+      {logValueElement}
+      <div>
+        <button
+          className="remove-paragraph"
+          type="button"
+          onMouseDown={event => {
+            event.preventDefault();
+            handleEditorChange({
+              ...value,
+              element: {
+                ...value.element,
+                children: value.element.children.slice(0, 1),
+              },
+            });
+          }}
+        >
+          remove paragraph
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default TestRemoteSelections;
@@ -0,0 +1,8 @@
+import React from 'react';
+import { SchemaExample } from '../components/examples/SchemaExample';
+
+const TestSchema = () => {
+  return <SchemaExample autoFocus />;
+};
+
+export default TestSchema;
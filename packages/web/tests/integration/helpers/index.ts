@@ -1,6 +1,6 @@
 import path from 'path';
 import { ClickOptions, Keyboard } from 'puppeteer';
-import { ElementID } from 'evolu';
+import { ElementID, SelectionOutput } from 'evolu';
 import { IO } from 'fp-ts/lib/IO';
 
 export const pageUrl = (name: string) => {
@@ -90,6 +90,13 @@ export const pageDom = async () => {
   return json;
 };
 
+// The selection of the last value logged by useLogValue, like in snapshots.
+export const pageSelection = async (): Promise<SelectionOutput | undefined> => {
+  const text = await page.$eval('pre span', span => span.textContent || '');
+  const item = text.slice(text.indexOf(' ') + 1).replace(/'/g, '"');
+  return (JSON.parse(item) as { selection?: SelectionOutput }).selection;
+};
+
 export const pageClick = async (selector: string, options?: ClickOptions) => {
   await page.click(selector, options);
   await pageAwaitFor50ms();
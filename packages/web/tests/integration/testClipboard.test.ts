@@ -0,0 +1,82 @@
+import { pageAwaitFor50ms, pageGoto } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testClipboard');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const fragmentMimeType = 'application/x-evolu-fragment+json';
+
+type ClipboardData = { [type: string]: string };
+
+// Puppeteer can't use the clipboard, so events with data are dispatched.
+const copyOrCut = async (type: 'copy' | 'cut'): Promise<ClipboardData> => {
+  const data = await page.evaluate(
+    (type: string, types: string[]) => {
+      const clipboardData = new window.DataTransfer();
+      (document.activeElement as HTMLElement).dispatchEvent(
+        new window.ClipboardEvent(type, {
+          bubbles: true,
+          cancelable: true,
+          clipboardData,
+        }),
+      );
+      return types.reduce<{ [type: string]: string }>(
+        (data, type) => ({ ...data, [type]: clipboardData.getData(type) }),
+        {},
+      );
+    },
+    type,
+    ['text/plain', 'text/html', fragmentMimeType],
+  );
+  await pageAwaitFor50ms();
+  return data;
+};
+
+const paste = async (data: ClipboardData) => {
+  await page.evaluate((data: ClipboardData) => {
+    const dataTransfer = new window.DataTransfer();
+    Object.keys(data).forEach(type => dataTransfer.setData(type, data[type]));
+    (document.activeElement as HTMLElement).dispatchEvent(
+      new window.InputEvent('beforeinput', {
+        bubbles: true,
+        cancelable: true,
+        inputType: 'insertFromPaste',
+        // @ts-ignore Outdated types.
+        dataTransfer,
+      }),
+    );
+  }, data);
+  await pageAwaitFor50ms();
+};
+
+test('copy the selected fragment of the value', async () => {
+  const data = await copyOrCut('copy');
+  expect(data['text/plain']).toBe('bc');
+  expect(data['text/html']).toBe('b<span style="font-weight:bold">c</span>');
+  expect(JSON.parse(data[fragmentMimeType])).toMatchObject([
+    'b',
+    { marks: ['bold'], children: ['c'] },
+  ]);
+  expect(await getRootHTML()).toBe(
+    '<p>ab<span style="font-weight: bold;">cd</span></p><p>ef</p>',
+  );
+});
+
+test('cut, then paste restores the structure', async () => {
+  const data = await copyOrCut('cut');
+  expect(await getRootHTML()).toBe(
+    '<p>a<span style="font-weight: bold;">d</span></p><p>ef</p>',
+  );
+  await paste(data);
+  expect(await getRootHTML()).toBe(
+    '<p>ab<span style="font-weight: bold;">cd</span></p><p>ef</p>',
+  );
+  // Pasted elements get new IDs, so they can be pasted again.
+  await paste(data);
+  expect(await getRootHTML()).toBe(
+    '<p>ab<span style="font-weight: bold;">c</span>b' +
+      '<span style="font-weight: bold;">cd</span></p><p>ef</p>',
+  );
+});
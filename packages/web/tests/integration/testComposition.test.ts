@@ -0,0 +1,42 @@
+import { pageAwaitFor50ms, pageGoto, pageKeyboard } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testComposition');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const compose = async (steps: string[], text: string) => {
+  const client = await page.target().createCDPSession();
+  await steps.reduce<Promise<unknown>>(
+    (previous, step) =>
+      previous.then(() =>
+        client.send('Input.imeSetComposition', {
+          text: step,
+          selectionStart: step.length,
+          selectionEnd: step.length,
+        }),
+      ),
+    Promise.resolve(),
+  );
+  await client.send('Input.insertText', { text });
+  await pageAwaitFor50ms();
+};
+
+test('composition in text', async () => {
+  await compose(['´', 'é'], 'é');
+  expect(await getRootHTML()).toBe('<p>aéb</p><p><br></p>');
+  // The caret is after the composed text.
+  await pageKeyboard.type('c');
+  await pageAwaitFor50ms();
+  expect(await getRootHTML()).toBe('<p>aécb</p><p><br></p>');
+});
+
+test('composition into BR placeholder', async () => {
+  await pageKeyboard.press('ArrowDown');
+  await compose(['に', 'にほ', 'にほん'], '日本');
+  expect(await getRootHTML()).toBe('<p>ab</p><p>日本</p>');
+  await pageKeyboard.type('x');
+  await pageAwaitFor50ms();
+  expect(await getRootHTML()).toBe('<p>ab</p><p>日本x</p>');
+});
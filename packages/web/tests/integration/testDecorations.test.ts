@@ -0,0 +1,34 @@
+import { pageAwaitFor50ms, pageGoto, pageKeyboard } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testDecorations');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const getTypos = () =>
+  page.$$eval('.typo', elements =>
+    elements.map(element => element.textContent),
+  );
+
+test('decorated text is split into spans', async () => {
+  expect(await getTypos()).toEqual(['teh']);
+});
+
+test('typing inside decorated text', async () => {
+  // The caret is after "t", so it moves into the decorated text.
+  await pageKeyboard.press('ArrowRight');
+  await pageKeyboard.type('x');
+  await pageAwaitFor50ms();
+  expect(await getTypos()).toEqual([]);
+  expect(await getRootHTML()).toBe('<p>a texh b</p>');
+  await pageKeyboard.press('Backspace');
+  await pageAwaitFor50ms();
+  expect(await getTypos()).toEqual(['teh']);
+  await pageKeyboard.press('ArrowRight');
+  await pageKeyboard.type('y');
+  await pageAwaitFor50ms();
+  expect(await page.$eval('.root', element => element.textContent)).toBe(
+    'a tehy b',
+  );
+});
@@ -0,0 +1,85 @@
+import { pressMany, pageGoto, pageKeyboard, pageSelection } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testDeleteWordAndLine');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const paragraph = '<div style="font-size: 16px;">paragraph</div>';
+
+// Puppeteer runs Chrome on Linux, where Control is the word modifier.
+const pressWithControl = async (key: string) => {
+  await pageKeyboard.down('Control');
+  await pageKeyboard.press(key);
+  await pageKeyboard.up('Control');
+};
+
+test('delete word backward then write', async () => {
+  await pressMany('ArrowRight', 7);
+  await pressWithControl('Backspace');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;"><br></div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({ anchor: [0, 0], focus: [0, 0] });
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">a</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 1],
+    focus: [0, 0, 1],
+  });
+});
+
+test('delete word forward then write', async () => {
+  await pressWithControl('Delete');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;"><br></div>${paragraph}`,
+  );
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">a</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 1],
+    focus: [0, 0, 1],
+  });
+});
+
+test('delete word backward across blocks', async () => {
+  await pageKeyboard.press('ArrowDown');
+  // The first deletion merges the blocks.
+  await pressWithControl('Backspace');
+  expect(await getRootHTML()).toBe(
+    '<div style="font-size: 24px;">headingparagraph</div>',
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 7],
+    focus: [0, 0, 7],
+  });
+  await pressWithControl('Backspace');
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    '<div style="font-size: 24px;">aparagraph</div>',
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 1],
+    focus: [0, 0, 1],
+  });
+});
+
+test('delete word after writing', async () => {
+  await pressMany('ArrowRight', 7);
+  await pageKeyboard.type(' foo');
+  await pressWithControl('Backspace');
+  await pageKeyboard.press('a');
+  // Chrome writes a trailing space as nbsp.
+  expect((await getRootHTML()).replace(/&nbsp;/g, ' ')).toBe(
+    `<div style="font-size: 24px;">heading a</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 9],
+    focus: [0, 0, 9],
+  });
+});
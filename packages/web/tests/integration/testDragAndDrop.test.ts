@@ -0,0 +1,104 @@
+import { pageAwaitFor50ms, pageClick, pageGoto } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testDragAndDrop');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+// Type, not interface, because it must be serializable for evaluate.
+type Drop = {
+  // The index of the paragraph and the offset in its text.
+  readonly block: number;
+  readonly offset: number;
+  readonly data?: { [type: string]: string };
+  readonly files?: string[];
+  // The content of the editor is dragged and moved.
+  readonly isMove?: boolean;
+};
+
+// Puppeteer can't drag, so Chrome events are dispatched in its order.
+const drop = async ({
+  block,
+  offset,
+  data = {},
+  files = [],
+  isMove = false,
+}: Drop) => {
+  await page.evaluate(
+    ({ block, offset, data, files, isMove }: Required<Drop>) => {
+      const root = document.querySelector('.root') as HTMLElement;
+      const text = root.children[block].firstChild as Text;
+      const dataTransfer = new window.DataTransfer();
+      Object.keys(data).forEach(type => dataTransfer.setData(type, data[type]));
+      files.forEach(name =>
+        dataTransfer.items.add(new window.File([name], name)),
+      );
+      const dispatchInputEvent = (inputType: string, init = {}) =>
+        root.dispatchEvent(
+          new window.InputEvent('beforeinput', {
+            bubbles: true,
+            cancelable: true,
+            inputType,
+            ...init,
+          }),
+        );
+      if (isMove) {
+        root.dispatchEvent(
+          new window.DragEvent('dragstart', { bubbles: true }),
+        );
+        dispatchInputEvent('deleteByDrag');
+      }
+      dispatchInputEvent('insertFromDrop', {
+        dataTransfer,
+        targetRanges: [
+          // @ts-ignore Outdated types.
+          new window.StaticRange({
+            startContainer: text,
+            startOffset: offset,
+            endContainer: text,
+            endOffset: offset,
+          }),
+        ],
+      });
+      if (isMove)
+        root.dispatchEvent(new window.DragEvent('dragend', { bubbles: true }));
+    },
+    { block, offset, data, files, isMove },
+  );
+  await pageAwaitFor50ms();
+};
+
+test('move dragged content, then undo at once', async () => {
+  await drop({
+    block: 1,
+    offset: 2,
+    data: { 'text/plain': 'a' },
+    isMove: true,
+  });
+  expect(await getRootHTML()).toBe('<p>bc</p><p>deaf</p>');
+  await pageClick('.undo');
+  await pageAwaitFor50ms();
+  expect(await getRootHTML()).toBe('<p>abc</p><p>def</p>');
+});
+
+test('drop external text', async () => {
+  await drop({ block: 1, offset: 1, data: { 'text/plain': 'x' } });
+  expect(await getRootHTML()).toBe('<p>abc</p><p>dxef</p>');
+  await drop({
+    block: 0,
+    offset: 3,
+    data: { 'text/html': '<b>y</b>', 'text/plain': 'y' },
+  });
+  expect(await page.$eval('.root p', element => element.textContent)).toBe(
+    'abcy',
+  );
+});
+
+test('dropped files are passed to onDropFiles', async () => {
+  await drop({ block: 0, offset: 1, files: ['a.png', 'b.png'] });
+  expect(await page.$eval('.files', element => element.textContent)).toBe(
+    'a.png,b.png',
+  );
+  expect(await getRootHTML()).toBe('<p>abc</p><p>def</p>');
+});
@@ -0,0 +1,50 @@
+import { pageClick, pageGoto } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testFind');
+});
+
+const getRootText = () => page.$eval('.root', element => element.textContent);
+
+const getFindMatchesCount = () =>
+  page.$$eval('[data-find-match]', elements => elements.length);
+
+test('highlight matches with decorations', async () => {
+  await pageClick('.find');
+  expect(
+    await page.$$eval('[data-find-match]', elements =>
+      elements.map(element => element.textContent),
+    ),
+  ).toEqual(['foo', 'Foo', 'foo']);
+  expect(await getRootText()).toBe('foo bar Foofood foo');
+});
+
+test('select next match', async () => {
+  await pageClick('.find');
+  await pageClick('.select-next');
+  await pageClick('.select-next');
+  const selection = await page.evaluate(() => {
+    const selection = window.getSelection();
+    return selection
+      ? {
+          text: selection.toString(),
+          offset: selection.anchorOffset,
+        }
+      : null;
+  });
+  expect(selection).toEqual({ text: 'Foo', offset: 8 });
+});
+
+test('replace all, then undo at once', async () => {
+  await pageClick('.find');
+  await pageClick('.replace-all');
+  expect(await getRootText()).toBe('baz bar bazfood baz');
+  expect(await getFindMatchesCount()).toBe(0);
+  // The mark is preserved.
+  expect(await page.$eval('.root span', element => element.textContent)).toBe(
+    'baz',
+  );
+  await pageClick('.undo');
+  expect(await getRootText()).toBe('foo bar Foofood foo');
+  expect(await getFindMatchesCount()).toBe(3);
+});
@@ -0,0 +1,36 @@
+import { pageGoto, pageKeyboard } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testInputRules');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+// Rules are applied after each typed char is rendered.
+const type = (text: string) => pageKeyboard.type(text, { delay: 50 });
+
+test('heading, then undo to typed text', async () => {
+  await type('# ');
+  expect(await getRootHTML()).toBe('<h1>x</h1>');
+  await pageKeyboard.down('Control');
+  await pageKeyboard.press('z');
+  await pageKeyboard.up('Control');
+  expect(await getRootHTML()).toBe('<p># x</p>');
+});
+
+test('list and blockquote', async () => {
+  await type('- ');
+  expect(await getRootHTML()).toBe('<ul><li>x</li></ul>');
+  await pageGoto('testInputRules');
+  await type('> ');
+  expect(await getRootHTML()).toBe('<blockquote><p>x</p></blockquote>');
+});
+
+test('bold and code, then typing after them', async () => {
+  await pageKeyboard.press('ArrowRight');
+  await type(' **b** `c` d');
+  // Typed text is not in the bold or the code.
+  expect((await getRootHTML()).replace(/&nbsp;/g, ' ')).toBe(
+    '<p>x <span style="font-weight: bold;">b</span> <code>c</code> d</p>',
+  );
+});
@@ -0,0 +1,93 @@
+import { pressMany, pageGoto, pageKeyboard, pageSelection } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testInsertLineBreak');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const paragraph = '<div style="font-size: 16px;">paragraph</div>';
+
+const pressShiftEnter = async () => {
+  await pageKeyboard.down('Shift');
+  await pageKeyboard.press('Enter');
+  await pageKeyboard.up('Shift');
+};
+
+test('insert line break at start', async () => {
+  await pressShiftEnter();
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;"><br>heading</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 1, 0],
+    focus: [0, 1, 0],
+  });
+});
+
+test('insert line break in middle then write', async () => {
+  await pressMany('ArrowRight', 4);
+  await pressShiftEnter();
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 2, 0],
+    focus: [0, 2, 0],
+  });
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">head<br>aing</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 2, 1],
+    focus: [0, 2, 1],
+  });
+});
+
+test('insert line break at end then write', async () => {
+  await pressMany('ArrowRight', 7);
+  await pressShiftEnter();
+  // BR at the end of a block is not rendered as a new line, so there are two.
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">heading<br><br></div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({ anchor: [0, 2], focus: [0, 2] });
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">heading<br>a</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 2, 1],
+    focus: [0, 2, 1],
+  });
+});
+
+test('insert two line breaks', async () => {
+  await pressMany('ArrowRight', 4);
+  await pressShiftEnter();
+  await pressShiftEnter();
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">head<br><br>ing</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 3, 0],
+    focus: [0, 3, 0],
+  });
+});
+
+test('insert line break replaces the selection', async () => {
+  await pageKeyboard.press('ArrowRight');
+  await pageKeyboard.down('Shift');
+  await pressMany('ArrowRight', 4);
+  await pageKeyboard.up('Shift');
+  await pressShiftEnter();
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">h<br>ng</div>${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 2, 0],
+    focus: [0, 2, 0],
+  });
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    `<div style="font-size: 24px;">h<br>ang</div>${paragraph}`,
+  );
+});
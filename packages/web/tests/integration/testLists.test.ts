@@ -0,0 +1,113 @@
+import { pageAwaitFor50ms, pageGoto, pageKeyboard } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testLists');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const press = async (key: string) => {
+  await pageKeyboard.press(key);
+  await pageAwaitFor50ms();
+};
+
+const pressWithShift = async (key: string) => {
+  await pageKeyboard.down('Shift');
+  await pageKeyboard.press(key);
+  await pageKeyboard.up('Shift');
+  await pageAwaitFor50ms();
+};
+
+// Puppeteer can't use the format commands, so beforeinput is dispatched.
+const dispatchInput = async (inputType: string) => {
+  await page.evaluate((inputType: string) => {
+    const target = document.activeElement as HTMLElement;
+    target.dispatchEvent(
+      new window.InputEvent('beforeinput', {
+        bubbles: true,
+        cancelable: true,
+        inputType,
+      }),
+    );
+  }, inputType);
+  await pageAwaitFor50ms();
+};
+
+test('insertOrderedList changes the list type and lifts the item', async () => {
+  await dispatchInput('insertOrderedList');
+  expect(await getRootHTML()).toBe('<ol><li>a</li><li>b</li><li>c</li></ol>');
+  // The caret stays in the item.
+  await press('x');
+  expect(await getRootHTML()).toBe('<ol><li>a</li><li>bx</li><li>c</li></ol>');
+  await dispatchInput('insertOrderedList');
+  expect(await getRootHTML()).toBe(
+    '<ol><li>a</li></ol><p>bx</p><ol><li>c</li></ol>',
+  );
+});
+
+test('insertUnorderedList changes the list type and lifts the item', async () => {
+  await dispatchInput('insertOrderedList');
+  await dispatchInput('insertUnorderedList');
+  expect(await getRootHTML()).toBe('<ul><li>a</li><li>b</li><li>c</li></ul>');
+  await dispatchInput('insertUnorderedList');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li></ul><p>b</p><ul><li>c</li></ul>',
+  );
+});
+
+test('Tab nests the item and Shift+Tab un-nests it', async () => {
+  await press('Tab');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a<ul><li>b</li></ul></li><li>c</li></ul>',
+  );
+  // The caret stays in the item.
+  await press('x');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a<ul><li>bx</li></ul></li><li>c</li></ul>',
+  );
+  await pressWithShift('Tab');
+  expect(await getRootHTML()).toBe('<ul><li>a</li><li>bx</li><li>c</li></ul>');
+});
+
+test('Shift+Tab keeps the following items after the item', async () => {
+  await press('Tab');
+  await press('ArrowDown');
+  await press('Tab');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a<ul><li>b</li><li>c</li></ul></li></ul>',
+  );
+  await press('ArrowUp');
+  await pressWithShift('Tab');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li><li>b<ul><li>c</li></ul></li></ul>',
+  );
+});
+
+test('Enter on an empty item exits the list', async () => {
+  await press('ArrowDown');
+  await press('End');
+  await press('Enter');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li><li>b</li><li>c</li><li><br></li></ul>',
+  );
+  await press('Enter');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li><li>b</li><li>c</li></ul><p><br></p>',
+  );
+  await press('x');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li><li>b</li><li>c</li></ul><p>x</p>',
+  );
+});
+
+test('Backspace at the start of an item lifts it', async () => {
+  await press('Home');
+  await press('Backspace');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li></ul><p>b</p><ul><li>c</li></ul>',
+  );
+  await press('x');
+  expect(await getRootHTML()).toBe(
+    '<ul><li>a</li></ul><p>xb</p><ul><li>c</li></ul>',
+  );
+});
@@ -0,0 +1,89 @@
+import { pressMany, pageGoto, pageKeyboard, pageSelection } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testMarks');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const paragraph = '<div style="font-size: 16px;">paragraph</div>';
+
+const heading = (html: string) => `<div style="font-size: 24px;">${html}</div>`;
+
+const bold = '<span style="font-weight: bold;">';
+const boldItalic = '<span style="font-weight: bold; font-style: italic;">';
+const underline = '<span style="text-decoration: underline;">';
+
+const selectRight = async (count: number) => {
+  await pageKeyboard.down('Shift');
+  await pressMany('ArrowRight', count);
+  await pageKeyboard.up('Shift');
+};
+
+// Puppeteer runs Chrome on Linux, where Control is the mod key.
+const pressWithControl = async (key: string) => {
+  await pageKeyboard.down('Control');
+  await pageKeyboard.press(key);
+  await pageKeyboard.up('Control');
+};
+
+test('bold selected text', async () => {
+  await pressMany('ArrowRight', 2);
+  await selectRight(3);
+  await pressWithControl('b');
+  expect(await getRootHTML()).toBe(
+    `${heading(`he${bold}adi</span>ng`)}${paragraph}`,
+  );
+  // The marked text remains selected.
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 1, 0, 0],
+    focus: [0, 1, 0, 3],
+  });
+});
+
+test('bold and italic then write', async () => {
+  await selectRight(4);
+  await pressWithControl('b');
+  await pressWithControl('i');
+  expect(await getRootHTML()).toBe(
+    `${heading(`${boldItalic}head</span>ing`)}${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 0, 0],
+    focus: [0, 0, 0, 4],
+  });
+  await pageKeyboard.press('a');
+  expect(await getRootHTML()).toBe(
+    `${heading(`${boldItalic}a</span>ing`)}${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 0, 1],
+    focus: [0, 0, 0, 1],
+  });
+});
+
+test('toggle bold twice', async () => {
+  await selectRight(4);
+  await pressWithControl('b');
+  await pressWithControl('b');
+  expect(await getRootHTML()).toBe(`${heading('heading')}${paragraph}`);
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 0],
+    focus: [0, 0, 4],
+  });
+});
+
+test('underline across blocks', async () => {
+  await pressMany('ArrowRight', 4);
+  // The rest of the heading, the block boundary, and two chars.
+  await selectRight(6);
+  await pressWithControl('u');
+  expect(await getRootHTML()).toBe(
+    `${heading(`head${underline}ing</span>`)}` +
+      `<div style="font-size: 16px;">${underline}pa</span>ragraph</div>`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 1, 0, 0],
+    focus: [1, 0, 0, 2],
+  });
+});
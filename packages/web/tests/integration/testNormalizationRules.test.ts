@@ -0,0 +1,15 @@
+import { pageGoto } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testNormalizationRules');
+});
+
+test('server and client render identical trees', async () => {
+  const getRootHTML = (selector: string) =>
+    page.$eval(selector, element => element.innerHTML);
+  const serverHTML = await getRootHTML('.server > div');
+  expect(serverHTML).toBe(await getRootHTML('.client > div'));
+  expect(serverHTML).toBe(
+    '<div class="root"><p><br></p><ul><li>a</li></ul><p>c</p><ul></ul><p><br></p></div>',
+  );
+});
@@ -0,0 +1,96 @@
+import {
+  pressMany,
+  pageGoto,
+  pageAwaitFor50ms,
+  pageSelection,
+} from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testPaste');
+});
+
+const getRootHTML = () => page.$eval('.root', element => element.innerHTML);
+
+const paragraph = '<div style="font-size: 16px;">paragraph</div>';
+
+const heading = (html: string) => `<div style="font-size: 24px;">${html}</div>`;
+
+// Puppeteer can't paste, so beforeinput with dataTransfer is dispatched.
+const paste = async (
+  data: { [type: string]: string },
+  inputType = 'insertFromPaste',
+) => {
+  await page.evaluate(
+    (data: { [type: string]: string }, inputType: string) => {
+      const dataTransfer = new window.DataTransfer();
+      Object.keys(data).forEach(type => dataTransfer.setData(type, data[type]));
+      const target = document.activeElement as HTMLElement;
+      target.dispatchEvent(
+        new window.InputEvent('beforeinput', {
+          bubbles: true,
+          cancelable: true,
+          inputType,
+          // @ts-ignore Outdated types.
+          dataTransfer,
+        }),
+      );
+    },
+    data,
+    inputType,
+  );
+  await pageAwaitFor50ms();
+};
+
+test('paste plain text', async () => {
+  await pressMany('ArrowRight', 2);
+  await paste({ 'text/plain': 'foo\nbar' });
+  // Lines become copies of the block with the selection.
+  expect(await getRootHTML()).toBe(
+    `${heading('hefoo')}${heading('barading')}${paragraph}`,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [1, 0, 3],
+    focus: [1, 0, 3],
+  });
+});
+
+test('paste HTML', async () => {
+  await pressMany('ArrowRight', 2);
+  await paste({
+    'text/html': '<b>foo</b><script>alert(1)</script>',
+    'text/plain': 'foo',
+  });
+  expect(await getRootHTML()).toBe(
+    heading('he<span style="font-weight: bold;">foo</span>ading') + paragraph,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 1, 0, 3],
+    focus: [0, 1, 0, 3],
+  });
+});
+
+test('paste HTML with inline link', async () => {
+  await pressMany('ArrowRight', 2);
+  await paste({
+    'text/html': 'see <a href="https://evolu.dev">this</a> link',
+    'text/plain': 'see this link',
+  });
+  // The link is inserted into the text, so the block is not split.
+  expect(await getRootHTML()).toBe(
+    heading('hesee <a href="https://evolu.dev">this</a> linkading') + paragraph,
+  );
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 2, 5],
+    focus: [0, 2, 5],
+  });
+});
+
+test('paste as quotation without quotePastedFragment pastes as usual', async () => {
+  await pressMany('ArrowRight', 2);
+  await paste({ 'text/plain': 'foo' }, 'insertFromPasteAsQuotation');
+  expect(await getRootHTML()).toBe(heading('hefooading') + paragraph);
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 5],
+    focus: [0, 0, 5],
+  });
+});
@@ -0,0 +1,27 @@
+import { pageAwaitFor50ms, pageClick, pageGoto } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testRemoteSelections');
+});
+
+const getRemoteSelectionIDs = () =>
+  page.$$eval('[data-remote-selection]', elements =>
+    elements.map(element => element.getAttribute('data-remote-selection')),
+  );
+
+test('render remote selections', async () => {
+  // Carol's selection points to a path which does not exist.
+  expect(await getRemoteSelectionIDs()).toEqual(['alice', 'bob']);
+  const isOutsideEditor = await page.$$eval(
+    '[data-remote-selection]',
+    elements =>
+      elements.every(element => !element.closest('[contenteditable]')),
+  );
+  expect(isOutsideEditor).toBe(true);
+});
+
+test('drop remote selection of removed path', async () => {
+  await pageClick('.remove-paragraph');
+  await pageAwaitFor50ms();
+  expect(await getRemoteSelectionIDs()).toEqual(['alice']);
+});
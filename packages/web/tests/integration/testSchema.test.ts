@@ -0,0 +1,22 @@
+import { pageGoto, pageKeyboard, pageSelection } from './helpers';
+
+beforeEach(async () => {
+  await pageGoto('testSchema');
+});
+
+const getHeadingHTML = () =>
+  page.$eval('[contenteditable] > div > div', element => element.innerHTML);
+
+test('rejected typing is not rendered', async () => {
+  // Heading can have 16 chars, and it has 7.
+  await pageKeyboard.type('abcdefghijk', { delay: 50 });
+  expect(await getHeadingHTML()).toBe('abcdefghiheading');
+  expect(await pageSelection()).toEqual({
+    anchor: [0, 0, 9],
+    focus: [0, 0, 9],
+  });
+  // The caret stays, so typing continues after deleting.
+  await pageKeyboard.press('Backspace');
+  await pageKeyboard.type('x', { delay: 50 });
+  expect(await getHeadingHTML()).toBe('abcdefghxheading');
+});